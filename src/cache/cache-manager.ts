@@ -20,6 +20,7 @@ export interface CacheMetadata {
   created: string;
   lastModified: string;
   entries: number;
+  configHash?: string;
 }
 
 /**
@@ -31,12 +32,19 @@ export class CacheManager {
   private metadataFile: string;
   private cache: Map<string, CacheEntry>;
   private version: string = '1.0.0';
+  private configHash?: string;
 
-  constructor(cacheDir: string) {
+  /**
+   * @param cacheDir - Directory holding the cache files
+   * @param configHash - Hash of the analysis settings; a cache written under
+   *                     different settings is discarded
+   */
+  constructor(cacheDir: string, configHash?: string) {
     this.cacheDir = cacheDir;
     this.cacheFile = path.join(cacheDir, 'analysis-cache.json');
     this.metadataFile = path.join(cacheDir, 'metadata.json');
     this.cache = new Map();
+    this.configHash = configHash;
 
     this.ensureCacheDir();
     this.loadCache();
@@ -59,6 +67,10 @@ export class CacheManager {
       return;
     }
 
+    if (this.readMetadata()?.configHash !== this.configHash) {
+      return;
+    }
+
     try {
       const content = fs.readFileSync(this.cacheFile, 'utf-8');
       const entries: CacheEntry[] = JSON.parse(content);
@@ -88,6 +100,7 @@ export class CacheManager {
         created: this.getCacheCreationTime(),
         lastModified: new Date().toISOString(),
         entries: entries.length,
+        configHash: this.configHash,
       };
       fs.writeFileSync(this.metadataFile, JSON.stringify(metadata, null, 2), 'utf-8');
     } catch (error) {
@@ -101,16 +114,21 @@ export class CacheManager {
    * Get cache creation time
    */
   private getCacheCreationTime(): string {
+    return this.readMetadata()?.created ?? new Date().toISOString();
+  }
+
+  /**
+   * Read cache metadata, if present and valid
+   */
+  private readMetadata(): CacheMetadata | null {
     if (!fs.existsSync(this.metadataFile)) {
-      return new Date().toISOString();
+      return null;
     }
 
     try {
-      const content = fs.readFileSync(this.metadataFile, 'utf-8');
-      const metadata: CacheMetadata = JSON.parse(content);
-      return metadata.created;
+      return JSON.parse(fs.readFileSync(this.metadataFile, 'utf-8'));
     } catch {
-      return new Date().toISOString();
+      return null;
     }
   }
 
@@ -227,15 +227,49 @@ export class BaselineManager {
       return 2;
     }
 
-    // Check for regressions
-    if (comparison.status === 'degraded' && comparison.regressions.length > 0) {
+    // Check for regressions (only in functions flagged at rule level 'error')
+    const failingRegressions = comparison.regressions.filter(
+      (regression) => this.getLevel(current, regression.file, regression.function) === 'error'
+    );
+    if (comparison.status === 'degraded' && failingRegressions.length > 0) {
       return 1;
     }
 
+    return this.getSeverityExitCode(current, failOnHigh, failOnMedium);
+  }
+
+  /**
+   * Rule level of a function in the current analysis, if it was flagged
+   */
+  private static getLevel(
+    current: ProjectAnalysisResult,
+    relativePath: string,
+    functionName: string
+  ): string | undefined {
+    return current.files
+      .find((file) => file.relativePath === relativePath)
+      ?.functions.find((func) => func.name === functionName)?.level;
+  }
+
+  /**
+   * Determine exit code from severity counts alone (no baseline comparison).
+   * Only functions flagged at rule level 'error' can fail the build.
+   */
+  static getSeverityExitCode(
+    current: ProjectAnalysisResult,
+    failOnHigh: boolean,
+    failOnMedium: boolean
+  ): number {
+    // Check for analysis errors
+    if (current.summary.errorFiles > 0) {
+      return 2;
+    }
+
     // Check for HIGH severity issues
     const highSeverityCount = current.files.reduce((count, file) => {
       return (
-        count + file.functions.filter((f) => f.severity === 'HIGH').length
+        count +
+        file.functions.filter((f) => f.severity === 'HIGH' && f.level === 'error').length
       );
     }, 0);
 
@@ -246,7 +280,8 @@ export class BaselineManager {
     // Check for MEDIUM severity issues
     const mediumSeverityCount = current.files.reduce((count, file) => {
       return (
-        count + file.functions.filter((f) => f.severity === 'MEDIUM').length
+        count +
+        file.functions.filter((f) => f.severity === 'MEDIUM' && f.level === 'error').length
       );
     }, 0);
 
@@ -0,0 +1,171 @@
+/**
+ * Calibrate command - Measure and tune disharmony thresholds on a labeled corpus
+ */
+
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectAnalyzer } from '../../project/project-analyzer';
+import { CalibrationResult, Calibrator, ThresholdMetrics } from '../../project/calibration';
+import { ConfigLoader, ThresholdConfig } from '../../config/config-loader';
+
+export interface CalibrateOptions {
+  json?: boolean;
+  write?: boolean; // Write the recommended thresholds to .harmonizerrc
+  config?: string;
+}
+
+/**
+ * Calibrate command
+ */
+export async function calibrateCommand(
+  corpus: string,
+  options: CalibrateOptions = {}
+): Promise<void> {
+  const corpusPath = path.resolve(corpus);
+
+  if (!fs.existsSync(corpusPath)) {
+    console.log(chalk.red(`❌ Corpus not found: ${corpusPath}`));
+    process.exit(2);
+  }
+
+  const config = options.config
+    ? ConfigLoader.loadConfig(path.dirname(options.config))
+    : ConfigLoader.loadConfig(path.dirname(corpusPath));
+  const current = ConfigLoader.resolveConfig(config).thresholds.disharmony!;
+
+  let result: CalibrationResult;
+  try {
+    const analyzer = new ProjectAnalyzer(config);
+    result = new Calibrator(analyzer.getVocabulary(), {
+      metric: ConfigLoader.resolveConfig(config).analysis.distanceMetric,
+      penaltyMatrix: analyzer.getPenaltyMatrix(),
+    }).calibrate(corpusPath);
+  } catch (error) {
+    console.log(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(2);
+  }
+
+  if (result.samples.length === 0) {
+    console.log(chalk.red('❌ No samples could be scored'));
+    result.skipped.forEach(({ id, reason }) => console.log(chalk.gray(`   ${id}: ${reason}`)));
+    process.exit(2);
+  }
+
+  const [atCurrent] = Calibrator.evaluate(result.samples, [current.low]);
+
+  if (options.json) {
+    console.log(
+      JSON.stringify({ ...result, current: { thresholds: current, ...atCurrent } }, null, 2)
+    );
+  } else {
+    printReport(result, current, atCurrent);
+  }
+
+  if (options.write) {
+    // The config the corpus was scored with, or a new one next to the corpus
+    const corpusDir = path.dirname(corpusPath);
+    const target =
+      options.config ??
+      ConfigLoader.findConfigFile(corpusDir) ??
+      path.join(corpusDir, '.harmonizerrc.json');
+    const configPath = ConfigLoader.updateConfigFile((raw) => {
+      raw.thresholds = { ...raw.thresholds, disharmony: result.recommended };
+    }, target);
+    if (!options.json) {
+      console.log(
+        chalk.green(`✅ Thresholds written to ${path.relative(process.cwd(), configPath)}`)
+      );
+      console.log('');
+    }
+  }
+}
+
+/**
+ * Print the threshold table, confusion matrix and misclassified samples
+ */
+function printReport(
+  result: CalibrationResult,
+  current: ThresholdConfig,
+  atCurrent: ThresholdMetrics
+): void {
+  const { samples, skipped, metrics, recommended, best } = result;
+  const positives = samples.filter((s) => s.label === 'disharmonious').length;
+
+  console.log('');
+  console.log(chalk.cyan.bold('═══════════════════════════════════════════════════════════'));
+  console.log(chalk.cyan.bold('           🎯 Threshold Calibration'));
+  console.log(chalk.cyan.bold('═══════════════════════════════════════════════════════════'));
+  console.log('');
+  console.log(
+    `  ${samples.length} samples: ${positives} disharmonious, ${samples.length - positives} harmonious`
+  );
+  if (result.metric !== 'euclidean') {
+    console.log(chalk.gray(`  Metric: ${result.metric} (scores scaled to Euclidean units)`));
+  }
+  if (skipped.length > 0) {
+    console.log(chalk.yellow(`  ${skipped.length} skipped:`));
+    skipped.forEach(({ id, reason }) => console.log(chalk.gray(`    ${id}: ${reason}`)));
+  }
+  console.log('');
+
+  console.log(chalk.bold('  Threshold   TP   FP   TN   FN   Precision   Recall     F1'));
+  for (const m of metrics) {
+    const marker =
+      m.threshold === recommended.low
+        ? chalk.green(' ← recommended')
+        : m.threshold === current.low
+          ? chalk.gray(' ← current')
+          : '';
+    console.log(
+      `  ${m.threshold.toFixed(2).padStart(9)}` +
+        [m.truePositives, m.falsePositives, m.trueNegatives, m.falseNegatives]
+          .map((n) => String(n).padStart(5))
+          .join('') +
+        `${percent(m.precision).padStart(12)}${percent(m.recall).padStart(9)}` +
+        `${m.f1.toFixed(2).padStart(7)}${marker}`
+    );
+  }
+  console.log('');
+
+  console.log(chalk.bold(`  Confusion matrix at ${best.threshold.toFixed(2)}:`));
+  console.log(chalk.gray('                        reported   not reported'));
+  console.log(
+    `    disharmonious   ${String(best.truePositives).padStart(10)} ${String(best.falseNegatives).padStart(14)}`
+  );
+  console.log(
+    `    harmonious      ${String(best.falsePositives).padStart(10)} ${String(best.trueNegatives).padStart(14)}`
+  );
+  console.log('');
+
+  const missed = samples.filter((s) => {
+    const reported = s.disharmony >= best.threshold;
+    return reported !== (s.label === 'disharmonious');
+  });
+  if (missed.length > 0) {
+    console.log(chalk.bold('  Misclassified:'));
+    for (const sample of missed) {
+      console.log(
+        chalk.gray(
+          `    ${sample.id} (${sample.function}): ${sample.label}, disharmony ${sample.disharmony.toFixed(2)}`
+        )
+      );
+    }
+    console.log('');
+  }
+
+  console.log(
+    `  Current:     low ${current.low}, medium ${current.medium}, high ${current.high}` +
+      chalk.gray(` (F1 ${atCurrent.f1.toFixed(2)})`)
+  );
+  console.log(
+    chalk.green(
+      `  Recommended: low ${recommended.low}, medium ${recommended.medium}, high ${recommended.high}`
+    ) + chalk.gray(` (F1 ${best.f1.toFixed(2)})`)
+  );
+  console.log('');
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
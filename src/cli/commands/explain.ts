@@ -6,6 +6,9 @@ import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ProjectAnalyzer } from '../../project/project-analyzer';
+import { ConfigLoader } from '../../config/config-loader';
+import { DirectionalDrift, DRIFT_DESCRIPTIONS, PenaltyMatrix } from '../../core/penalty-matrix';
+import { DIMENSIONS } from '../../core/vocabulary';
 
 export interface ExplainOptions {
   verbose?: boolean;
@@ -29,7 +32,7 @@ export async function explainCommand(
   }
 
   // Analyze the file
-  const analyzer = new ProjectAnalyzer();
+  const analyzer = new ProjectAnalyzer(ConfigLoader.loadConfig(path.dirname(filePath)));
   const result = await analyzer.analyzeProject({
     rootPath: path.dirname(filePath),
     include: [path.basename(filePath)],
@@ -60,6 +63,20 @@ export async function explainCommand(
     return;
   }
 
+  // Anonymous callbacks have no name that could mislead anyone
+  if (targetFunction.unnamed) {
+    console.log('');
+    console.log(chalk.bold(`${targetFunction.name}`));
+    console.log(chalk.gray(`Location: ${fileResult.relativePath}:${targetFunction.line}`));
+    console.log('');
+    console.log(chalk.green('✅ This is an anonymous callback: it has no name to judge.'));
+    if (targetFunction.parent) {
+      console.log(chalk.gray(`   Explain the enclosing ${targetFunction.parent.name}() instead.`));
+    }
+    console.log('');
+    return;
+  }
+
   // Display explanation
   console.log('');
   console.log(chalk.cyan.bold('═══════════════════════════════════════════════════════════'));
@@ -85,6 +102,33 @@ export async function explainCommand(
   console.log(explanation);
   console.log('');
 
+  const pattern = targetFunction.antiPattern;
+  if (pattern) {
+    console.log(chalk.bold(`Anti-pattern: ${pattern.name}`) + chalk.gray(` (${pattern.id})`));
+    console.log(chalk.gray(`   ${pattern.description}`));
+    console.log('');
+  }
+
+  // Type annotation evidence
+  if (targetFunction.typeSignals && targetFunction.typeSignals.length > 0) {
+    console.log(chalk.bold('Type evidence:'));
+    for (const signal of targetFunction.typeSignals) {
+      const icon = signal.contradicts ? chalk.yellow('⚠️ ') : chalk.green('✓');
+      console.log(`   ${icon} ${signal.explanation}`);
+    }
+    console.log('');
+  }
+
+  // Which way execution drifts from intent, and how the matrix weighs it
+  if (targetFunction.direction) {
+    printDirection(
+      targetFunction.direction,
+      analyzer.getPenaltyMatrix(),
+      targetFunction.severity,
+      targetFunction.magnitude?.sizeFactor ?? 1
+    );
+  }
+
   // Why it matters
   console.log(chalk.cyan.bold('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'));
   console.log(chalk.cyan.bold('Why Does This Matter?'));
@@ -118,6 +162,12 @@ export async function explainCommand(
   console.log(chalk.cyan.bold('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'));
   console.log('');
 
+  if (pattern) {
+    console.log(chalk.bold(`For a ${pattern.name}:`));
+    console.log(chalk.gray(`   ${pattern.remediation}`));
+    console.log('');
+  }
+
   if (targetFunction.suggestions && targetFunction.suggestions.length > 0) {
     console.log(chalk.bold.green('Option 1 (Recommended): Rename to match behavior'));
     console.log('');
@@ -187,6 +237,51 @@ export async function explainCommand(
   console.log('');
 }
 
+/**
+ * Print the drifts behind a function's severity and the penalty matrix,
+ * highlighting the cells that applied
+ */
+function printDirection(
+  direction: { multiplier: number; weightedDisharmony: number; drifts: DirectionalDrift[] },
+  matrix: PenaltyMatrix,
+  severity: string,
+  sizeFactor: number
+): void {
+  const label = (dim: string) => dim.charAt(0).toUpperCase() + dim.slice(1);
+  const drifts = direction.drifts.filter((d) => d.amount >= 0.01);
+
+  if (drifts.length > 0) {
+    console.log(chalk.bold('Direction (intent → execution):'));
+    for (const drift of drifts) {
+      console.log(
+        `   ${`${label(drift.from)} → ${label(drift.to)}`.padEnd(18)}` +
+          `${drift.amount.toFixed(2)} × ${drift.penalty.toFixed(2)}   ` +
+          chalk.gray(DRIFT_DESCRIPTIONS[drift.from][drift.to] ?? '')
+      );
+    }
+    console.log(
+      `   Weighted disharmony: ${direction.weightedDisharmony.toFixed(3)} ` +
+        chalk.gray(
+          `(direction ×${direction.multiplier.toFixed(2)}, size ×${sizeFactor.toFixed(2)}) → ${severity}`
+        )
+    );
+    console.log('');
+  }
+
+  console.log(chalk.bold('Penalty matrix') + chalk.gray(' (rows: intent, columns: execution):'));
+  console.log(
+    chalk.gray(`   ${''.padEnd(10)}${DIMENSIONS.map((dim) => label(dim).padStart(9)).join('')}`)
+  );
+  for (const from of DIMENSIONS) {
+    const cells = DIMENSIONS.map((to) => {
+      const cell = matrix[from][to].toFixed(2).padStart(9);
+      return drifts.some((d) => d.from === from && d.to === to) ? chalk.yellow.bold(cell) : cell;
+    });
+    console.log(`   ${label(from).padEnd(10)}${cells.join('')}`);
+  }
+  console.log('');
+}
+
 /**
  * Generate explanation text based on function analysis
  */
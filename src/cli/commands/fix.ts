@@ -8,6 +8,8 @@ import * as path from 'path';
 import { createPrompter } from '../prompter';
 import { ProjectAnalyzer } from '../../project/project-analyzer';
 import { FileAnalysisResult } from '../../project/project-analyzer';
+import { ConfigLoader } from '../../config/config-loader';
+import { SafeRenamer, RenamePlan } from '../../refactor/safe-rename';
 
 export interface FixOptions {
   threshold?: number;
@@ -59,16 +61,22 @@ export async function fixCommand(
     console.log(chalk.cyan('Analyzing code...'));
     console.log('');
 
-    const analyzer = new ProjectAnalyzer();
+    const rootPath = isDirectory ? targetPath : path.dirname(targetPath);
+    const analyzer = new ProjectAnalyzer(ConfigLoader.loadConfig(targetPath));
     const result = await analyzer.analyzeProject({
-      rootPath: isDirectory ? targetPath : path.dirname(targetPath),
+      rootPath,
       include: isDirectory ? undefined : [path.basename(targetPath)],
       showProgress: false,
     });
 
+    // Renames are applied across the whole project, so callers outside the
+    // target are updated too
+    const renamer = new SafeRenamer();
+    const projectRoot = findProjectRoot(rootPath);
+    const { files: projectFiles } = await analyzer.selectFiles({ rootPath: projectRoot });
+
     // Collect fix candidates
     const candidates: FixCandidate[] = [];
-    const threshold = options.threshold ?? 0.5;
 
     for (const file of result.files) {
       if (file.status !== 'success') {
@@ -76,8 +84,10 @@ export async function fixCommand(
       }
 
       for (const func of file.functions) {
-        // Filter by threshold and severity
-        if (func.disharmony < threshold) {
+        // Filter by threshold (defaults to the configured rule) and severity
+        const belowThreshold =
+          options.threshold !== undefined ? func.disharmony < options.threshold : !func.level;
+        if (belowThreshold) {
           continue;
         }
 
@@ -179,13 +189,13 @@ export async function fixCommand(
           );
           console.log('');
 
-          if (!options.dryRun) {
-            const success = await applyFix(
-              candidate,
-              topSuggestion.name,
-              targetPath
-            );
-            if (success) {
+          const plan = planFix(renamer, candidate, topSuggestion.name, projectFiles);
+          showPlan(plan, projectRoot);
+
+          if (plan.conflicts.length > 0) {
+            skippedCount++;
+          } else if (!options.dryRun) {
+            if (applyFix(plan)) {
               fixedCount++;
               console.log(chalk.green('✅ Fixed!'));
             } else {
@@ -246,12 +256,19 @@ export async function fixCommand(
       const newName = action.replace('Rename to: ', '');
 
       // Show preview
-      console.log(chalk.cyan('Preview:'));
       console.log(
         `  ${chalk.red(candidate.function.name)} → ${chalk.green(newName)}`
       );
       console.log('');
 
+      const plan = planFix(renamer, candidate, newName, projectFiles);
+      showPlan(plan, projectRoot);
+
+      if (plan.conflicts.length > 0) {
+        skippedCount++;
+        continue;
+      }
+
       const confirm = await prompter.confirm('Apply this fix?', true);
       console.log('');
 
@@ -263,8 +280,7 @@ export async function fixCommand(
       }
 
       if (!options.dryRun) {
-        const success = await applyFix(candidate, newName, targetPath);
-        if (success) {
+        if (applyFix(plan)) {
           fixedCount++;
           console.log(chalk.green('✅ Fixed!'));
         } else {
@@ -304,62 +320,90 @@ export async function fixCommand(
 }
 
 /**
- * Apply a fix by renaming a function
+ * Nearest directory at or above startPath that looks like a project root
+ * (has a package.json, .git or harmonizer config), or startPath itself
  */
-async function applyFix(
+function findProjectRoot(startPath: string): string {
+  const markers = [
+    'package.json',
+    '.git',
+    '.harmonizerrc.json',
+    '.harmonizerrc',
+    'harmonizer.config.json',
+  ];
+  let currentPath = startPath;
+
+  while (!markers.some((marker) => fs.existsSync(path.join(currentPath, marker)))) {
+    const parentPath = path.dirname(currentPath);
+    if (parentPath === currentPath) {
+      return startPath;
+    }
+    currentPath = parentPath;
+  }
+
+  return currentPath;
+}
+
+/**
+ * Plan a project-wide rename of a candidate function
+ */
+function planFix(
+  renamer: SafeRenamer,
   candidate: FixCandidate,
   newName: string,
-  rootPath: string
-): Promise<boolean> {
-  try {
-    const filePath = path.join(rootPath, candidate.file);
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const lines = content.split('\n');
-
-    // Find the function declaration line
-    const funcLine = lines[candidate.function.line - 1];
+  projectFiles: string[]
+): RenamePlan {
+  return renamer.planRename(
+    {
+      filePath: candidate.fileResult.filePath,
+      line: candidate.function.line,
+      name: candidate.function.name,
+    },
+    newName,
+    projectFiles
+  );
+}
 
-    if (!funcLine) {
-      return false;
+/**
+ * Print a rename plan as a multi-file diff, or the reasons it was refused
+ */
+function showPlan(plan: RenamePlan, rootPath: string): void {
+  if (plan.conflicts.length > 0) {
+    console.log(chalk.red('❌ Rename refused:'));
+    for (const conflict of plan.conflicts) {
+      console.log(chalk.red(`   ${conflict}`));
     }
+    console.log('');
+    return;
+  }
 
-    // Replace function name
-    // Handle various function declaration patterns
-    const patterns = [
-      // function name()
-      new RegExp(`\\bfunction\\s+${candidate.function.name}\\s*\\(`),
-      // const name = function()
-      new RegExp(`\\bconst\\s+${candidate.function.name}\\s*=\\s*function\\s*\\(`),
-      // let name = function()
-      new RegExp(`\\blet\\s+${candidate.function.name}\\s*=\\s*function\\s*\\(`),
-      // var name = function()
-      new RegExp(`\\bvar\\s+${candidate.function.name}\\s*=\\s*function\\s*\\(`),
-      // const name = () =>
-      new RegExp(`\\bconst\\s+${candidate.function.name}\\s*=\\s*\\(`),
-      // name: function()
-      new RegExp(`\\b${candidate.function.name}\\s*:\\s*function\\s*\\(`),
-      // name() { (method)
-      new RegExp(`\\b${candidate.function.name}\\s*\\(`),
-    ];
-
-    let replaced = false;
-    for (const pattern of patterns) {
-      if (pattern.test(funcLine)) {
-        lines[candidate.function.line - 1] = funcLine.replace(
-          candidate.function.name,
-          newName
-        );
-        replaced = true;
-        break;
-      }
+  console.log(chalk.cyan(`Preview (${plan.changes.length} file(s)):`));
+  for (const line of SafeRenamer.formatDiff(plan, rootPath).split('\n')) {
+    if (line.startsWith('---') || line.startsWith('+++')) {
+      console.log(chalk.bold(line));
+    } else if (line.startsWith('@@')) {
+      console.log(chalk.cyan(line));
+    } else if (line.startsWith('-')) {
+      console.log(chalk.red(line));
+    } else if (line.startsWith('+')) {
+      console.log(chalk.green(line));
+    } else {
+      console.log(chalk.gray(line));
     }
+  }
 
-    if (!replaced) {
-      return false;
-    }
+  for (const warning of plan.warnings) {
+    console.log(chalk.yellow(`⚠️  ${warning}`));
+  }
+  console.log('');
+}
 
-    // Write back
-    fs.writeFileSync(filePath, lines.join('\n'), 'utf-8');
+/**
+ * Apply a rename plan to disk
+ */
+function applyFix(plan: RenamePlan): boolean {
+  try {
+    SafeRenamer.applyPlan(plan);
     return true;
   } catch (error) {
     console.error(
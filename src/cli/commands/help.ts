@@ -43,9 +43,10 @@ function showGeneralHelp(): void {
   console.log(chalk.gray('─'.repeat(60)));
   console.log('');
   console.log(`  ${chalk.cyan('harmonizer [file|dir]')}        Analyze files or directories`);
+  console.log(`  ${chalk.cyan('harmonizer analyze --staged')}  Analyze files staged for commit`);
   console.log(`  ${chalk.cyan('harmonizer --recursive')}       Analyze recursively (alias: -r)`);
   console.log(`  ${chalk.cyan('harmonizer --threshold 0.7')}   Set disharmony threshold`);
-  console.log(`  ${chalk.cyan('harmonizer --format sarif')}    Output format: text|json|sarif|markdown`);
+  console.log(`  ${chalk.cyan('harmonizer --format sarif')}    Output format: text|json|sarif|markdown|html`);
   console.log('');
 
   console.log(chalk.bold('INTERACTIVE COMMANDS'));
@@ -56,13 +57,17 @@ function showGeneralHelp(): void {
   console.log(`  ${chalk.cyan('harmonizer explain file:line')} Deep-dive into an issue`);
   console.log(`  ${chalk.cyan('harmonizer examples')}          Browse usage examples`);
   console.log(`  ${chalk.cyan('harmonizer status')}            Project health dashboard`);
+  console.log(`  ${chalk.cyan('harmonizer suppressions')}      Audit inline suppression comments`);
+  console.log(`  ${chalk.cyan('harmonizer vocab learn')}       Propose vocabulary from your code`);
+  console.log(`  ${chalk.cyan('harmonizer calibrate corpus')}  Tune thresholds on labeled code`);
+  console.log(`  ${chalk.cyan('harmonizer vocab explain id')}  Show how an identifier is scored`);
   console.log('');
 
   console.log(chalk.bold('DEVELOPMENT WORKFLOW'));
   console.log(chalk.gray('─'.repeat(60)));
   console.log('');
   console.log(`  ${chalk.cyan('harmonizer watch [dir]')}       Watch files for changes`);
-  console.log(`  ${chalk.cyan('harmonizer --git-diff main')}   Analyze changed files vs branch`);
+  console.log(`  ${chalk.cyan('harmonizer analyze --git-diff')} Analyze changed files vs branch`);
   console.log(`  ${chalk.cyan('harmonizer install-hooks')}     Set up git pre-commit hooks`);
   console.log(`  ${chalk.cyan('harmonizer --cache')}           Enable caching for speed`);
   console.log('');
@@ -155,10 +160,14 @@ function showGeneralHelp(): void {
 function showCommandHelp(command: string): void {
   const helpTopics: Record<string, () => void> = {
     init: showInitHelp,
+    analyze: showAnalyzeHelp,
     fix: showFixHelp,
     explain: showExplainHelp,
     examples: showExamplesHelp,
     status: showStatusHelp,
+    suppressions: showSuppressionsHelp,
+    calibrate: showCalibrateHelp,
+    vocab: showVocabHelp,
     watch: showWatchHelp,
     'install-hooks': showInstallHooksHelp,
   };
@@ -192,11 +201,34 @@ function showInitHelp(): void {
   console.log('');
 }
 
+function showAnalyzeHelp(): void {
+  console.log('');
+  console.log(chalk.cyan.bold('COMMAND: harmonizer analyze'));
+  console.log('');
+  console.log('Analyze files or directories, optionally only those changed in git');
+  console.log('');
+  console.log(chalk.bold('USAGE:'));
+  console.log(`  ${chalk.cyan('harmonizer analyze [target] [options]')}`);
+  console.log('');
+  console.log(chalk.bold('OPTIONS:'));
+  console.log(`  ${chalk.cyan('--staged')}            Only analyze files staged for commit`);
+  console.log(`  ${chalk.cyan('--git-diff [base]')}   Only analyze files changed since base`);
+  console.log(`  ${chalk.cyan('--fail-on-high')}      Exit with code 1 if HIGH severity found`);
+  console.log(`  ${chalk.cyan('--fail-on-medium')}    Exit with code 1 if MEDIUM severity found`);
+  console.log(`  ${chalk.cyan('--quiet')}             Suppress progress output`);
+  console.log('');
+  console.log(chalk.bold('EXAMPLES:'));
+  console.log(`  ${chalk.white('harmonizer analyze --staged --fail-on-high')}`);
+  console.log(`  ${chalk.white('harmonizer analyze --git-diff origin/main')}`);
+  console.log('');
+}
+
 function showFixHelp(): void {
   console.log('');
   console.log(chalk.cyan.bold('COMMAND: harmonizer fix'));
   console.log('');
   console.log('Interactive refactoring - guides you through fixing disharmonious functions');
+  console.log('Renames update callers, imports and re-exports across the analyzed files.');
   console.log('');
   console.log(chalk.bold('USAGE:'));
   console.log(`  ${chalk.cyan('harmonizer fix [target] [options]')}`);
@@ -204,7 +236,7 @@ function showFixHelp(): void {
   console.log(chalk.bold('OPTIONS:'));
   console.log(`  ${chalk.cyan('--threshold <n>')}     Only fix functions above threshold`);
   console.log(`  ${chalk.cyan('--severity <level>')}  Filter by severity (HIGH|MEDIUM|LOW)`);
-  console.log(`  ${chalk.cyan('--dry-run')}           Show what would be fixed`);
+  console.log(`  ${chalk.cyan('--dry-run')}           Preview renames as a multi-file diff`);
   console.log(`  ${chalk.cyan('--auto-apply')}        Auto-apply top suggestion`);
   console.log('');
   console.log(chalk.bold('EXAMPLES:'));
@@ -272,6 +304,103 @@ function showStatusHelp(): void {
   console.log('');
 }
 
+function showSuppressionsHelp(): void {
+  console.log('');
+  console.log(chalk.cyan.bold('COMMAND: harmonizer suppressions'));
+  console.log('');
+  console.log('List inline suppression comments, their reasons and whether each is still needed');
+  console.log('');
+  console.log(chalk.bold('USAGE:'));
+  console.log(`  ${chalk.cyan('harmonizer suppressions [target] [options]')}`);
+  console.log('');
+  console.log(chalk.bold('SUPPRESSION COMMENTS:'));
+  console.log(`  ${chalk.white('// harmonizer-disable-next-line [rule] -- reason')}`);
+  console.log(
+    `  ${chalk.white('/* harmonizer-disable [rule] -- reason */ ... /* harmonizer-enable */')}`
+  );
+  console.log(`  ${chalk.white('/* harmonizer-disable-file [rule] -- reason */')}`);
+  console.log(`  ${chalk.white('/** @harmonizer-ignore [rule] -- reason */')}  (function JSDoc)`);
+  console.log('');
+  console.log(chalk.bold('OPTIONS:'));
+  console.log(`  ${chalk.cyan('--unused')}          Only list suppressions that silence nothing`);
+  console.log(`  ${chalk.cyan('--fail-on-unused')}  Exit with code 1 if any suppression is unused`);
+  console.log(`  ${chalk.cyan('--json')}            Output as JSON`);
+  console.log('');
+  console.log(chalk.bold('EXAMPLES:'));
+  console.log(`  ${chalk.white('harmonizer suppressions ./src')}`);
+  console.log(`  ${chalk.white('harmonizer suppressions --unused --fail-on-unused')}`);
+  console.log('');
+}
+
+function showCalibrateHelp(): void {
+  console.log('');
+  console.log(chalk.cyan.bold('COMMAND: harmonizer calibrate'));
+  console.log('');
+  console.log('Measure how well disharmony thresholds separate labeled functions and tune them');
+  console.log('');
+  console.log(chalk.bold('USAGE:'));
+  console.log(`  ${chalk.cyan('harmonizer calibrate <corpus.json> [options]')}`);
+  console.log('');
+  console.log(chalk.bold('CORPUS:'));
+  console.log(`  ${chalk.white('{ "samples": [')}`);
+  console.log(
+    `  ${chalk.white('  { "code": "function getUser(id) { db.delete(id) }", "label": "disharmonious" },')}`
+  );
+  console.log(`  ${chalk.white('  { "ref": "src/users.ts:findUser", "label": "harmonious" }')}`);
+  console.log(`  ${chalk.white('] }')}`);
+  console.log('');
+  console.log('  Reports precision, recall, F1 and the confusion matrix for thresholds');
+  console.log('  0.05-1.00, and recommends low/medium/high thresholds.');
+  console.log('');
+  console.log(chalk.bold('OPTIONS:'));
+  console.log(`  ${chalk.cyan('--write')}           Write recommended thresholds to .harmonizerrc`);
+  console.log(`  ${chalk.cyan('--config <file>')}   Config to use (and write with --write)`);
+  console.log(`  ${chalk.cyan('--json')}            Output as JSON`);
+  console.log('');
+  console.log(chalk.bold('EXAMPLES:'));
+  console.log(`  ${chalk.white('harmonizer calibrate corpus.json')}`);
+  console.log(`  ${chalk.white('harmonizer calibrate corpus.json --write')}`);
+  console.log('');
+}
+
+function showVocabHelp(): void {
+  console.log('');
+  console.log(chalk.cyan.bold('COMMAND: harmonizer vocab'));
+  console.log('');
+  console.log('Work with the vocabulary that maps words to LJPW dimensions');
+  console.log('');
+  console.log(chalk.bold('USAGE:'));
+  console.log(`  ${chalk.cyan('harmonizer vocab <command> [arguments] [options]')}`);
+  console.log('');
+  console.log(chalk.bold('COMMANDS:'));
+  console.log(`  ${chalk.cyan('lookup <word>')}         Dimension, weights and source of a word`);
+  console.log(`  ${chalk.cyan('explain <identifier>')}  Token split and per-token dimensions`);
+  console.log(`  ${chalk.cyan('list')}                  List entries by dimension`);
+  console.log(`  ${chalk.cyan('add <word> <entry>')}    Add a custom entry to .harmonizerrc`);
+  console.log(`  ${chalk.cyan('remove <word>')}         Remove a custom entry`);
+  console.log(`  ${chalk.cyan('check')}                 Flag conflicting or shadowed entries`);
+  console.log(`  ${chalk.cyan('learn [directory]')}     Propose entries for unknown verbs`);
+  console.log('');
+  console.log(chalk.bold('OPTIONS:'));
+  console.log(`  ${chalk.cyan('--config <file>')}       Config file to read or edit`);
+  console.log(`  ${chalk.cyan('--json')}                Output JSON`);
+  console.log(`  ${chalk.cyan('--dimension <dim>')}     list: love|justice|power|wisdom`);
+  console.log(`  ${chalk.cyan('--source <source>')}     list: custom|compound|verb|keyword|noun`);
+  console.log(`  ${chalk.cyan('--min-count <n>')}       learn: min functions per verb (3)`);
+  console.log(`  ${chalk.cyan('--output <file>')}       learn: proposal file`);
+  console.log('');
+  console.log(chalk.bold('ENTRIES:'));
+  console.log('  A dimension (power) or weights (power=0.7,wisdom=0.3).');
+  console.log('');
+  console.log(chalk.bold('EXAMPLES:'));
+  console.log(`  ${chalk.white('harmonizer vocab explain parseHTTPResponse')}`);
+  console.log(`  ${chalk.white('harmonizer vocab list --dimension love')}`);
+  console.log(`  ${chalk.white('harmonizer vocab add upsert power=0.8,wisdom=0.2')}`);
+  console.log(`  ${chalk.white('harmonizer vocab learn ./src')}`);
+  console.log(`  ${chalk.white('harmonizer vocab learn --min-count 5 --output vocab.json')}`);
+  console.log('');
+}
+
 function showWatchHelp(): void {
   console.log('');
   console.log(chalk.cyan.bold('COMMAND: harmonizer watch'));
@@ -7,5 +7,16 @@ export { fixCommand } from './fix';
 export { explainCommand } from './explain';
 export { examplesCommand } from './examples';
 export { statusCommand } from './status';
+export { suppressionsCommand } from './suppressions';
+export { calibrateCommand } from './calibrate';
+export {
+  vocabLearnCommand,
+  vocabLookupCommand,
+  vocabExplainCommand,
+  vocabListCommand,
+  vocabAddCommand,
+  vocabRemoveCommand,
+  vocabCheckCommand,
+} from './vocab';
 export { helpCommand } from './help';
 export { tutorialCommand } from './tutorial';
@@ -149,7 +149,7 @@ export async function initCommand(targetDir: string = '.'): Promise<void> {
           `   ${chalk.yellow('⚠')}  Issues found: ${chalk.bold.yellow(result.summary.disharmoniousFunctions.toString())} (${rate}% disharmony rate)`
         );
 
-        // Count by severity
+        // Count reported functions by severity
         let highCount = 0;
         let mediumCount = 0;
         let lowCount = 0;
@@ -157,6 +157,7 @@ export async function initCommand(targetDir: string = '.'): Promise<void> {
         for (const file of result.files) {
           if (file.status === 'success') {
             for (const func of file.functions) {
+              if (func.level === undefined) continue;
               if (func.severity === 'HIGH') highCount++;
               else if (func.severity === 'MEDIUM') mediumCount++;
               else if (func.severity === 'LOW') lowCount++;
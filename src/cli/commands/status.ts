@@ -44,7 +44,7 @@ export async function statusCommand(
   console.log(chalk.cyan('Analyzing project...'));
   console.log('');
 
-  const analyzer = new ProjectAnalyzer();
+  const analyzer = new ProjectAnalyzer(config);
   const result = await analyzer.analyzeProject({
     rootPath: isDirectory ? targetPath : path.dirname(targetPath),
     include: isDirectory ? undefined : [path.basename(targetPath)],
@@ -155,7 +155,7 @@ export async function statusCommand(
 
   for (const file of result.files) {
     if (file.status === 'success' && file.functions.length > 0) {
-      const disharmoniousFuncs = file.functions.filter((f) => f.disharmony > 0.3);
+      const disharmoniousFuncs = file.functions.filter((f) => f.level);
       if (disharmoniousFuncs.length > 0) {
         const avgDisharmony =
           disharmoniousFuncs.reduce((sum, f) => sum + f.disharmony, 0) /
@@ -228,7 +228,7 @@ export async function statusCommand(
 
     for (const file of result.files) {
       if (file.status === 'success') {
-        const disharmonious = file.functions.filter((f) => f.disharmony > 0.3);
+        const disharmonious = file.functions.filter((f) => f.level);
         if (disharmonious.length > 0) {
           console.log(chalk.cyan(`  ${file.relativePath}`));
           for (const func of disharmonious) {
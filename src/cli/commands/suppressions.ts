@@ -0,0 +1,119 @@
+/**
+ * Suppressions report - Audit inline suppression comments
+ */
+
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileAnalysisResult, ProjectAnalyzer } from '../../project/project-analyzer';
+import { ConfigLoader } from '../../config/config-loader';
+
+export interface SuppressionsOptions {
+  unused?: boolean; // Only list suppressions that no longer silence anything
+  json?: boolean;
+  failOnUnused?: boolean; // Exit with code 1 when unused suppressions exist
+  config?: string;
+}
+
+export interface SuppressionEntry {
+  file: string;
+  line: number;
+  kind: NonNullable<FileAnalysisResult['suppressions']>[number]['kind'];
+  rules: string[];
+  reason?: string;
+  functions: string[];
+  used: boolean;
+}
+
+/**
+ * Suppressions report command
+ */
+export async function suppressionsCommand(
+  target: string = '.',
+  options: SuppressionsOptions = {}
+): Promise<void> {
+  const targetPath = path.resolve(target);
+
+  if (!fs.existsSync(targetPath)) {
+    console.log(chalk.red(`❌ Target does not exist: ${targetPath}`));
+    process.exit(2);
+  }
+
+  const isDirectory = fs.statSync(targetPath).isDirectory();
+
+  // Load configuration
+  const config = options.config
+    ? ConfigLoader.loadConfig(path.dirname(options.config))
+    : ConfigLoader.loadConfig(targetPath);
+
+  const analyzer = new ProjectAnalyzer(config);
+  const result = await analyzer.analyzeProject({
+    rootPath: isDirectory ? targetPath : path.dirname(targetPath),
+    include: isDirectory ? undefined : [path.basename(targetPath)],
+    exclude: config.ignore,
+    showProgress: false,
+  });
+
+  const all: SuppressionEntry[] = result.files.flatMap((file) =>
+    (file.suppressions ?? []).map((s) => ({ file: file.relativePath, ...s }))
+  );
+  const entries = options.unused ? all.filter((s) => !s.used) : all;
+  const unusedCount = all.filter((s) => !s.used).length;
+
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2));
+  } else {
+    printReport(entries, all.length, unusedCount);
+  }
+
+  if (options.failOnUnused && unusedCount > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Print suppressions grouped by file
+ */
+function printReport(entries: SuppressionEntry[], total: number, unusedCount: number): void {
+  console.log('');
+  console.log(chalk.cyan.bold('═══════════════════════════════════════════════════════════'));
+  console.log(chalk.cyan.bold('           🔕 Inline Suppressions'));
+  console.log(chalk.cyan.bold('═══════════════════════════════════════════════════════════'));
+  console.log('');
+
+  if (entries.length === 0) {
+    console.log(
+      chalk.green(total === 0 ? '  No suppressions found.' : '  No unused suppressions.')
+    );
+    console.log('');
+    return;
+  }
+
+  let currentFile = '';
+  for (const entry of entries) {
+    if (entry.file !== currentFile) {
+      currentFile = entry.file;
+      console.log(chalk.bold(currentFile));
+    }
+
+    const rules = entry.rules.length > 0 ? entry.rules.join(', ') : 'all rules';
+    const status = entry.used ? chalk.green('used') : chalk.yellow('unused');
+    console.log(`  ${chalk.gray(`${entry.line}:`)} ${entry.kind} (${rules}) ${status}`);
+    console.log(
+      `     ${entry.reason ? chalk.white(`Reason: ${entry.reason}`) : chalk.red('No reason given')}`
+    );
+    if (entry.functions.length > 0) {
+      console.log(chalk.gray(`     Covers: ${entry.functions.join(', ')}`));
+    }
+  }
+
+  console.log('');
+  console.log(chalk.gray('─'.repeat(60)));
+  console.log(
+    `  ${total} suppression(s), ${unusedCount > 0 ? chalk.yellow(`${unusedCount} unused`) : chalk.green('0 unused')}`
+  );
+  if (unusedCount > 0) {
+    console.log(chalk.gray('  Unused suppressions no longer silence anything and can be removed.'));
+  }
+  console.log('');
+}
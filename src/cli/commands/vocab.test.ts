@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  checkCustomVocabulary,
+  vocabAddCommand,
+  vocabListCommand,
+  vocabRemoveCommand,
+} from './vocab';
+
+describe('vocab commands', () => {
+  let dir: string;
+  let configPath: string;
+  let output: string[];
+
+  const readCustom = () => JSON.parse(fs.readFileSync(configPath, 'utf-8')).vocabulary.custom;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'harmonizer-vocab-'));
+    configPath = path.join(dir, '.harmonizerrc.json');
+    fs.writeFileSync(configPath, JSON.stringify({ thresholds: { disharmony: { high: 0.9 } } }));
+
+    output = [];
+    jest.spyOn(console, 'log').mockImplementation((line = '') => output.push(String(line)));
+    jest.spyOn(process, 'exit').mockImplementation((code) => {
+      throw new Error(`exit ${code}`);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('add and remove', () => {
+    it('should round-trip custom entries through the config file', () => {
+      vocabAddCommand('Upsert', 'power', { config: configPath });
+      vocabAddCommand('flush', 'power=0.7,wisdom=0.3', { config: configPath });
+      vocabAddCommand('audit', '{"justice": 1}', { config: configPath });
+
+      expect(readCustom()).toEqual({
+        upsert: 'power',
+        flush: { power: 0.7, wisdom: 0.3 },
+        audit: { justice: 1 },
+      });
+
+      vocabRemoveCommand('UPSERT', { config: configPath });
+      vocabRemoveCommand('upsert', { config: configPath });
+
+      expect(readCustom()).toEqual({ flush: { power: 0.7, wisdom: 0.3 }, audit: { justice: 1 } });
+      expect(output.join('\n')).toMatch(/'upsert' is not a custom entry/);
+      expect(JSON.parse(fs.readFileSync(configPath, 'utf-8')).thresholds).toEqual({
+        disharmony: { high: 0.9 },
+      });
+    });
+
+    it('should reject invalid entries without touching the config', () => {
+      for (const value of ['speed', 'power=fast', '{"power": -1}', '{not json']) {
+        expect(() => vocabAddCommand('flush', value, { config: configPath })).toThrow('exit 2');
+      }
+      expect(JSON.parse(fs.readFileSync(configPath, 'utf-8')).vocabulary).toBeUndefined();
+    });
+  });
+
+  describe('list', () => {
+    it('should filter by dimension and source', () => {
+      vocabListCommand({ json: true, config: configPath, dimension: 'power', source: 'noun' });
+      const entries = JSON.parse(output.join('\n'));
+
+      expect(entries.length).toBeGreaterThan(0);
+      expect(entries.every((e: { dimension: string }) => e.dimension === 'power')).toBe(true);
+      expect(entries.every((e: { source: string }) => e.source === 'noun')).toBe(true);
+    });
+
+    it('should reject an unknown dimension or source', () => {
+      expect(() => vocabListCommand({ config: configPath, dimension: 'speed' as never })).toThrow(
+        'exit 2'
+      );
+      expect(() => vocabListCommand({ config: configPath, source: 'verbs' as never })).toThrow(
+        'exit 2'
+      );
+      expect(output.join('\n')).toMatch(/Unknown source 'verbs'/);
+    });
+  });
+
+  describe('checkCustomVocabulary', () => {
+    it('should sort entries into invalid, conflict, redundant and unreachable', () => {
+      const issues = checkCustomVocabulary({
+        vocabulary: {
+          custom: {
+            _comment: 'ignored' as never,
+            flush: 'power',
+            speedup: 'speed' as never,
+            get: 'power',
+            save: { power: 0.6, wisdom: 0.4 },
+            getUser: 'wisdom',
+          },
+        },
+      });
+
+      expect(issues.map(({ word, kind }) => [word, kind])).toEqual([
+        ['speedup', 'invalid'],
+        ['get', 'conflict'],
+        ['save', 'redundant'],
+        ['getUser', 'unreachable'],
+      ]);
+      expect(issues[1].message).toBe("changes verb 'get' (wisdom) to power");
+    });
+  });
+});
@@ -0,0 +1,451 @@
+/**
+ * Vocabulary commands - Inspect, test, edit and learn the vocabulary
+ */
+
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectAnalyzer } from '../../project/project-analyzer';
+import { VocabularyLearner, VocabularyProposal } from '../../project/vocabulary-learner';
+import { ConfigLoader, HarmonizerConfig } from '../../config/config-loader';
+import {
+  Dimension,
+  DIMENSIONS,
+  VocabularyEntry,
+  VocabularyManager,
+  VocabularyMatch,
+  VocabularySource,
+} from '../../core/vocabulary';
+import { tokenizeIdentifier } from '../../core/tokenizer';
+
+export interface VocabOptions {
+  json?: boolean;
+  config?: string; // Path to .harmonizerrc (default: nearest to the working directory)
+}
+
+export interface VocabListOptions extends VocabOptions {
+  dimension?: Dimension;
+  source?: VocabularySource;
+}
+
+/**
+ * A problem with a `vocabulary.custom` entry
+ */
+export interface VocabularyIssue {
+  word: string;
+  kind: 'invalid' | 'conflict' | 'redundant' | 'unreachable';
+  message: string;
+}
+
+export interface VocabLearnOptions {
+  minCount?: number; // Minimum number of functions using a verb
+  output?: string; // Proposal file (default: harmonizer-vocab-proposal.json in the target)
+  json?: boolean; // Print the proposal to stdout instead of writing a file
+  config?: string;
+}
+
+const SOURCE_LABELS: Record<VocabularySource, string> = {
+  custom: 'custom',
+  compound: 'compound pattern',
+  verb: 'verb',
+  keyword: 'keyword',
+  noun: 'context noun',
+};
+
+export const DEFAULT_PROPOSAL_FILE = 'harmonizer-vocab-proposal.json';
+
+/**
+ * vocab learn - Propose mappings for unknown verbs from how the project uses them
+ */
+export async function vocabLearnCommand(
+  target: string = '.',
+  options: VocabLearnOptions = {}
+): Promise<void> {
+  const targetPath = path.resolve(target);
+
+  if (!fs.existsSync(targetPath) || !fs.statSync(targetPath).isDirectory()) {
+    console.log(chalk.red(`❌ Target is not a directory: ${targetPath}`));
+    process.exit(2);
+  }
+
+  const config = options.config
+    ? ConfigLoader.loadConfig(path.dirname(options.config))
+    : ConfigLoader.loadConfig(targetPath);
+
+  const analyzer = new ProjectAnalyzer(config);
+  const { files } = await analyzer.selectFiles({ rootPath: targetPath, exclude: config.ignore });
+  const proposals = new VocabularyLearner(analyzer.getVocabulary()).learn(
+    files,
+    { minCount: options.minCount },
+    (filePath) => path.relative(targetPath, filePath).split(path.sep).join('/')
+  );
+
+  const proposal = {
+    generatedAt: new Date().toISOString(),
+    filesScanned: files.length,
+    vocabulary: {
+      custom: Object.fromEntries(proposals.map((p) => [p.word, p.entry])),
+    },
+    evidence: Object.fromEntries(
+      proposals.map(({ word, entry: _entry, ...evidence }) => [word, evidence])
+    ),
+  };
+
+  if (options.json) {
+    console.log(JSON.stringify(proposal, null, 2));
+    return;
+  }
+
+  printProposals(proposals, files.length);
+
+  if (proposals.length > 0) {
+    const outputPath = path.resolve(targetPath, options.output ?? DEFAULT_PROPOSAL_FILE);
+    fs.writeFileSync(outputPath, JSON.stringify(proposal, null, 2) + '\n', 'utf-8');
+    console.log(chalk.green(`📄 Proposal written to ${path.relative(process.cwd(), outputPath)}`));
+    console.log(
+      chalk.gray('   Review it, then copy the entries you agree with from vocabulary.custom')
+    );
+    console.log(chalk.gray('   into your .harmonizerrc.'));
+    console.log('');
+  }
+}
+
+/**
+ * Print proposals with their evidence
+ */
+function printProposals(proposals: VocabularyProposal[], filesScanned: number): void {
+  console.log('');
+  console.log(chalk.cyan.bold('═══════════════════════════════════════════════════════════'));
+  console.log(chalk.cyan.bold('           📚 Vocabulary Proposals'));
+  console.log(chalk.cyan.bold('═══════════════════════════════════════════════════════════'));
+  console.log('');
+
+  if (proposals.length === 0) {
+    console.log(chalk.green(`  No frequent unknown verbs in ${filesScanned} file(s).`));
+    console.log('');
+    return;
+  }
+
+  for (const proposal of proposals) {
+    const entry =
+      typeof proposal.entry === 'string' ? proposal.entry : JSON.stringify(proposal.entry);
+    const agreement = `${Math.round(proposal.agreement * 100)}% agree`;
+    console.log(
+      `  ${chalk.bold(proposal.word.padEnd(16))} → ${chalk.white(entry)} ` +
+        chalk.gray(`(${proposal.occurrences} functions, ${agreement})`)
+    );
+    for (const example of proposal.examples.slice(0, 3)) {
+      console.log(chalk.gray(`      ${example}`));
+    }
+  }
+
+  console.log('');
+  console.log(chalk.gray(`  ${proposals.length} proposal(s) from ${filesScanned} file(s)`));
+  console.log('');
+}
+
+/**
+ * vocab lookup - Show the dimension of a word and where it comes from
+ */
+export function vocabLookupCommand(word: string, options: VocabOptions = {}): void {
+  const match = loadVocabulary(options).vocabulary.lookupWord(word);
+
+  if (options.json) {
+    console.log(JSON.stringify({ word, match }, null, 2));
+    return;
+  }
+
+  console.log('');
+  if (!match) {
+    console.log(chalk.yellow(`  '${word}' is not in the vocabulary`));
+    console.log(chalk.gray(`  Add it with: harmonizer vocab add ${word} <dimension>`));
+    console.log('');
+    return;
+  }
+
+  console.log(`  ${chalk.bold(word)} → ${chalk.cyan(match.dimension)}`);
+  console.log(chalk.gray(`  Source:  ${describeSource(match)}`));
+  if (match.word !== word.toLowerCase()) {
+    console.log(chalk.gray(`  Matched: ${match.word}`));
+  }
+  console.log(chalk.gray(`  Weights: ${formatWeights(match.weights)}`));
+  console.log('');
+}
+
+/**
+ * vocab explain - Show how an identifier is split and scored
+ */
+export function vocabExplainCommand(identifier: string, options: VocabOptions = {}): void {
+  const { vocabulary } = loadVocabulary(options);
+  const tokens = tokenizeIdentifier(identifier).map((token) => ({
+    token,
+    match: vocabulary.lookupWord(token),
+  }));
+  const known = tokens.some(({ match }) => match);
+  const coordinates = vocabulary.analyzeText(identifier);
+  const result = {
+    identifier,
+    tokens,
+    coordinates: coordinates.toObject(),
+    dimension: known ? coordinates.getDominantDimension() : null,
+  };
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  console.log('');
+  console.log(`  ${chalk.bold(identifier)}`);
+  console.log('');
+  for (const { token, match } of tokens) {
+    if (!match) {
+      console.log(`    ${token.padEnd(16)} ${chalk.yellow('unknown')}`);
+      continue;
+    }
+    const via = match.word !== token ? chalk.gray(` via '${match.word}'`) : '';
+    console.log(
+      `    ${token.padEnd(16)} ${chalk.cyan(match.dimension.padEnd(8))}` +
+        chalk.gray(` ${describeSource(match)}`) +
+        via
+    );
+  }
+  console.log('');
+  if (result.dimension) {
+    console.log(
+      `  Scores as ${chalk.cyan.bold(result.dimension)}: ${formatWeights(result.coordinates)}`
+    );
+  } else {
+    console.log(chalk.yellow('  No known words: intent falls back to the balanced default'));
+  }
+  console.log('');
+}
+
+/**
+ * vocab list - List vocabulary entries, optionally by dimension or source
+ */
+export function vocabListCommand(options: VocabListOptions = {}): void {
+  const sources = Object.keys(SOURCE_LABELS);
+  if (options.dimension && !DIMENSIONS.includes(options.dimension)) {
+    console.log(chalk.red(`❌ Unknown dimension '${options.dimension}'`));
+    console.log(chalk.gray(`   Use one of: ${DIMENSIONS.join(', ')}`));
+    process.exit(2);
+  }
+  if (options.source && !sources.includes(options.source)) {
+    console.log(chalk.red(`❌ Unknown source '${options.source}'`));
+    console.log(chalk.gray(`   Use one of: ${sources.join(', ')}`));
+    process.exit(2);
+  }
+
+  const entries = loadVocabulary(options)
+    .vocabulary.listEntries()
+    .filter((entry) => !options.dimension || entry.dimension === options.dimension)
+    .filter((entry) => !options.source || entry.source === options.source);
+
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  console.log('');
+  if (entries.length === 0) {
+    console.log(chalk.yellow('  No matching entries'));
+    console.log('');
+  }
+  for (const dimension of DIMENSIONS) {
+    const words = entries.filter((entry) => entry.dimension === dimension);
+    if (words.length === 0) continue;
+
+    console.log(chalk.bold(`${dimension.toUpperCase()} (${words.length})`));
+    for (const entry of words) {
+      const weighted =
+        entry.weights[dimension] < 1 ? chalk.gray(` ${formatWeights(entry.weights)}`) : '';
+      console.log(
+        `  ${entry.word.padEnd(24)}${chalk.gray(describeSource(entry).padEnd(18))}${weighted}`
+      );
+    }
+    console.log('');
+  }
+}
+
+/**
+ * vocab add - Add or replace a custom entry in .harmonizerrc
+ *
+ * @param value - A dimension ("power"), weights ("power=0.7,wisdom=0.3") or JSON
+ */
+export function vocabAddCommand(word: string, value: string, options: VocabOptions = {}): void {
+  const entry = parseEntry(value);
+  if (!entry || !VocabularyManager.toWeights(entry)) {
+    console.log(chalk.red(`❌ Invalid entry '${value}'`));
+    console.log(chalk.gray('   Use a dimension (power) or weights (power=0.7,wisdom=0.3)'));
+    process.exit(2);
+  }
+
+  const key = word.toLowerCase();
+  const configPath = editConfig(options, (config) => {
+    config.vocabulary = {
+      ...config.vocabulary,
+      custom: { ...config.vocabulary?.custom, [key]: entry },
+    };
+  });
+
+  console.log(chalk.green(`✅ Added ${key} → ${JSON.stringify(entry)} to ${configPath}`));
+}
+
+/**
+ * vocab remove - Remove a custom entry from .harmonizerrc
+ */
+export function vocabRemoveCommand(word: string, options: VocabOptions = {}): void {
+  const key = word.toLowerCase();
+  let removed = false;
+  const configPath = editConfig(options, (config) => {
+    const custom = { ...config.vocabulary?.custom };
+    removed = key in custom;
+    delete custom[key];
+    config.vocabulary = { ...config.vocabulary, custom };
+  });
+
+  if (removed) {
+    console.log(chalk.green(`✅ Removed ${key} from ${configPath}`));
+  } else {
+    console.log(chalk.yellow(`'${key}' is not a custom entry in ${configPath}`));
+  }
+}
+
+/**
+ * vocab check - Flag custom entries that are invalid, override built-in
+ * meanings, duplicate them, or can never match a word
+ */
+export function vocabCheckCommand(options: VocabOptions = {}): void {
+  const { config } = loadVocabulary(options);
+  const issues = checkCustomVocabulary(config);
+
+  if (options.json) {
+    console.log(JSON.stringify(issues, null, 2));
+  } else {
+    console.log('');
+    if (issues.length === 0) {
+      console.log(chalk.green('  ✓ No problems with vocabulary.custom'));
+    }
+    for (const issue of issues) {
+      const color =
+        issue.kind === 'redundant'
+          ? chalk.gray
+          : issue.kind === 'conflict'
+            ? chalk.yellow
+            : chalk.red;
+      console.log(`  ${color(issue.kind.padEnd(12))} ${chalk.bold(issue.word)}: ${issue.message}`);
+    }
+    console.log('');
+  }
+
+  if (issues.some((issue) => issue.kind !== 'redundant')) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Check `vocabulary.custom` against the built-in vocabulary and packs
+ */
+export function checkCustomVocabulary(config: HarmonizerConfig): VocabularyIssue[] {
+  const custom = config.vocabulary?.custom ?? {};
+  // Everything except custom entries, to see what each one replaces
+  const reference = new ProjectAnalyzer({
+    ...config,
+    vocabulary: { ...config.vocabulary, custom: {} },
+  }).getVocabulary();
+  const issues: VocabularyIssue[] = [];
+
+  for (const [word, entry] of Object.entries(custom)) {
+    // "_comment"-style keys document the config and are ignored by the analyzer
+    if (word.startsWith('_') || word.startsWith('//')) continue;
+
+    const weights = VocabularyManager.toWeights(entry);
+    if (!weights) {
+      issues.push({
+        word,
+        kind: 'invalid',
+        message: 'not a dimension or a map of non-negative dimension weights',
+      });
+      continue;
+    }
+
+    const key = word.toLowerCase();
+    if (!key.includes('_') && tokenizeIdentifier(word).join(' ') !== key) {
+      issues.push({
+        word,
+        kind: 'unreachable',
+        message: `identifiers are split into words first, so this never matches (${tokenizeIdentifier(word).join(', ')})`,
+      });
+      continue;
+    }
+
+    const builtIn = reference.lookupWord(key);
+    if (!builtIn || builtIn.word !== key) continue;
+
+    const dimension = DIMENSIONS.reduce((best, dim) => (weights[dim] > weights[best] ? dim : best));
+    const replaced = `${describeSource(builtIn)} '${key}' (${builtIn.dimension})`;
+    issues.push(
+      dimension !== builtIn.dimension
+        ? { word, kind: 'conflict', message: `changes ${replaced} to ${dimension}` }
+        : { word, kind: 'redundant', message: `same dimension as ${replaced}` }
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Build the vocabulary the analyzer would use
+ */
+function loadVocabulary(options: VocabOptions): {
+  config: HarmonizerConfig;
+  vocabulary: VocabularyManager;
+} {
+  const config = ConfigLoader.loadConfig(
+    options.config ? path.dirname(path.resolve(options.config)) : process.cwd()
+  );
+  return { config, vocabulary: new ProjectAnalyzer(config).getVocabulary() };
+}
+
+/**
+ * Apply a change to .harmonizerrc and return its path for display
+ */
+function editConfig(options: VocabOptions, change: (config: HarmonizerConfig) => void): string {
+  const configPath = ConfigLoader.updateConfigFile(change, options.config);
+  return path.relative(process.cwd(), configPath) || configPath;
+}
+
+/**
+ * Parse "power", "power=0.7,wisdom=0.3" or a JSON object
+ */
+function parseEntry(value: string): VocabularyEntry | null {
+  if (value.trim().startsWith('{')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!value.includes('=')) {
+    return value as VocabularyEntry;
+  }
+  return Object.fromEntries(
+    value.split(',').map((part) => {
+      const [dim, weight] = part.split('=');
+      return [dim.trim(), Number(weight)];
+    })
+  );
+}
+
+function describeSource(match: VocabularyMatch): string {
+  return match.pack
+    ? `${SOURCE_LABELS[match.source]} (pack: ${match.pack})`
+    : SOURCE_LABELS[match.source];
+}
+
+function formatWeights(weights: Record<Dimension, number>): string {
+  return DIMENSIONS.filter((dim) => weights[dim] > 0)
+    .map((dim) => `${dim} ${weights[dim].toFixed(2)}`)
+    .join(', ');
+}
@@ -11,9 +11,21 @@ import {
   explainCommand,
   examplesCommand,
   statusCommand,
+  suppressionsCommand,
+  calibrateCommand,
+  vocabLearnCommand,
+  vocabLookupCommand,
+  vocabExplainCommand,
+  vocabListCommand,
+  vocabAddCommand,
+  vocabRemoveCommand,
+  vocabCheckCommand,
   helpCommand,
   tutorialCommand,
 } from './commands';
+import type { SuppressionsOptions } from './commands/suppressions';
+import type { CalibrateOptions } from './commands/calibrate';
+import type { VocabLearnOptions, VocabListOptions } from './commands/vocab';
 
 /**
  * Parse and route CLI commands
@@ -78,6 +90,14 @@ async function main() {
         }
         break;
 
+      case 'analyze':
+        {
+          // Full analysis CLI, optionally restricted to git changes (--staged, --git-diff)
+          const { main: v2Main } = await import('./harmonizer-v2');
+          await v2Main(args.slice(1));
+        }
+        break;
+
       case 'explain':
         {
           const target = args[1];
@@ -119,6 +139,108 @@ async function main() {
         }
         break;
 
+      case 'suppressions':
+        {
+          const target = args[1] && !args[1].startsWith('-') ? args[1] : '.';
+          const options: SuppressionsOptions = {
+            unused: args.includes('--unused'),
+            json: args.includes('--json'),
+            failOnUnused: args.includes('--fail-on-unused'),
+          };
+          if (args.includes('--config')) {
+            options.config = args[args.indexOf('--config') + 1];
+          }
+
+          await suppressionsCommand(target, options);
+        }
+        break;
+
+      case 'calibrate':
+        {
+          const corpus = args[1] && !args[1].startsWith('-') ? args[1] : undefined;
+          if (!corpus) {
+            console.error('❌ Usage: harmonizer calibrate <corpus.json>');
+            process.exit(1);
+          }
+          const options: CalibrateOptions = {
+            json: args.includes('--json'),
+            write: args.includes('--write'),
+          };
+          if (args.includes('--config')) {
+            options.config = args[args.indexOf('--config') + 1];
+          }
+
+          await calibrateCommand(corpus, options);
+        }
+        break;
+
+      case 'vocab':
+        {
+          const subcommand = args[1];
+          const valueFlags = ['--output', '--config', '--min-count', '--dimension', '--source'];
+          const positional = args
+            .slice(2)
+            .filter((arg, i, rest) => !arg.startsWith('-') && !valueFlags.includes(rest[i - 1]));
+          const flag = (name: string) =>
+            args.includes(name) ? args[args.indexOf(name) + 1] : undefined;
+          const common = { json: args.includes('--json'), config: flag('--config') };
+
+          switch (subcommand) {
+            case 'learn': {
+              const options: VocabLearnOptions = {
+                output: flag('--output'),
+                json: args.includes('--json'),
+                config: flag('--config'),
+              };
+              if (flag('--min-count') !== undefined) {
+                options.minCount = parseInt(flag('--min-count')!, 10);
+              }
+              await vocabLearnCommand(positional[0] || '.', options);
+              break;
+            }
+
+            case 'lookup':
+            case 'explain':
+            case 'remove':
+              if (!positional[0]) {
+                console.error(`❌ Usage: harmonizer vocab ${subcommand} <word>`);
+                process.exit(1);
+              }
+              if (subcommand === 'lookup') vocabLookupCommand(positional[0], common);
+              if (subcommand === 'explain') vocabExplainCommand(positional[0], common);
+              if (subcommand === 'remove') vocabRemoveCommand(positional[0], common);
+              break;
+
+            case 'list':
+              vocabListCommand({
+                ...common,
+                dimension: flag('--dimension') as VocabListOptions['dimension'],
+                source: flag('--source') as VocabListOptions['source'],
+              });
+              break;
+
+            case 'add':
+              if (positional.length < 2) {
+                console.error('❌ Usage: harmonizer vocab add <word> <dimension|weights>');
+                process.exit(1);
+              }
+              vocabAddCommand(positional[0], positional[1], common);
+              break;
+
+            case 'check':
+              vocabCheckCommand(common);
+              break;
+
+            default:
+              console.error(`❌ Unknown vocab command: ${subcommand ?? '(none)'}`);
+              console.log('');
+              console.log('Run "harmonizer help vocab" for usage information');
+              console.log('');
+              process.exit(1);
+          }
+        }
+        break;
+
       case 'tutorial':
         await tutorialCommand();
         break;
@@ -129,12 +251,15 @@ async function main() {
           const { FileWatcher } = await import('../watch/file-watcher');
           const target = args[1] || '.';
           const targetPath = path.resolve(target);
+          const { ConfigLoader } = await import('../config/config-loader');
+          const config = ConfigLoader.loadConfig(targetPath);
 
           const watcher = new FileWatcher({
             rootPath: targetPath,
             include: ['**/*.js', '**/*.jsx', '**/*.ts', '**/*.tsx'],
-            ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
+            ignore: ConfigLoader.resolveConfig(config).ignore,
             verbose: true,
+            config,
           });
 
           console.log('');
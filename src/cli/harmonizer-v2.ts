@@ -6,10 +6,19 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { ProjectAnalyzer, ProjectConfig } from '../project/project-analyzer';
+import {
+  FileSelection,
+  ProjectAnalyzer,
+  ProjectConfig,
+  VocabularyCoverage,
+} from '../project/project-analyzer';
 import { ConfigLoader } from '../config/config-loader';
+import { DistanceMetric } from '../core/distance-metrics';
+import { AntiPattern } from '../core/anti-patterns';
 import { BaselineManager } from '../ci/baseline-manager';
 import { SarifFormatter } from '../output/sarif-formatter';
+import { HtmlReporter } from '../output/html-reporter';
+import { GitIntegration, FileLineChanges } from '../git/git-integration';
 
 interface CliOptions {
   // Input
@@ -19,9 +28,16 @@ interface CliOptions {
   // Configuration
   config?: string;
 
+  // Git
+  staged: boolean;
+  gitDiff?: string; // Base ref; empty string means the default branch
+  changedLines: boolean;
+
   // Analysis options
   suggestNames: boolean;
-  threshold: number;
+  threshold?: number;
+  metric?: string;
+  debugIgnore: boolean;
 
   // Performance
   parallel: number;
@@ -36,7 +52,7 @@ interface CliOptions {
   exitCode: boolean;
 
   // Output
-  format: 'text' | 'json' | 'sarif' | 'markdown';
+  format: 'text' | 'json' | 'sarif' | 'markdown' | 'html';
   output?: string;
   verbose: boolean;
   quiet: boolean;
@@ -55,8 +71,10 @@ function parseArgs(args: string[]): CliOptions {
   const options: CliOptions = {
     target: '.',
     recursive: false,
+    staged: false,
+    changedLines: false,
     suggestNames: false,
-    threshold: 0.5,
+    debugIgnore: false,
     parallel: 4,
     cache: false,
     incremental: false,
@@ -76,6 +94,11 @@ function parseArgs(args: string[]): CliOptions {
     const arg = args[i];
     const nextArg = args[i + 1];
 
+    // `analyze` is an explicit subcommand for the default behavior
+    if (i === 0 && arg === 'analyze') {
+      continue;
+    }
+
     switch (arg) {
       case '--help':
       case '-h':
@@ -97,14 +120,36 @@ function parseArgs(args: string[]): CliOptions {
       case '-r':
         options.recursive = true;
         break;
+      case '--staged':
+        options.staged = true;
+        break;
+      case '--git-diff':
+        // Base ref is optional; fall back to the default branch
+        if (nextArg && !nextArg.startsWith('-')) {
+          options.gitDiff = nextArg;
+          i++;
+        } else {
+          options.gitDiff = '';
+        }
+        break;
+      case '--changed-lines':
+        options.changedLines = true;
+        break;
       case '--suggest-names':
         options.suggestNames = true;
         break;
+      case '--debug-ignore':
+        options.debugIgnore = true;
+        break;
       case '--threshold':
       case '-t':
         options.threshold = parseFloat(nextArg);
         i++;
         break;
+      case '--metric':
+        options.metric = nextArg;
+        i++;
+        break;
       case '--parallel':
       case '-p':
         options.parallel = parseInt(nextArg, 10);
@@ -138,7 +183,7 @@ function parseArgs(args: string[]): CliOptions {
         break;
       case '--format':
       case '-f':
-        options.format = nextArg as 'text' | 'json' | 'sarif' | 'markdown';
+        options.format = nextArg as CliOptions['format'];
         i++;
         break;
       case '--output':
@@ -176,6 +221,7 @@ Semantic bug detection using LJPW framework
 
 USAGE:
   harmonizer [OPTIONS] [TARGET]
+  harmonizer analyze [OPTIONS] [TARGET]
 
 TARGET:
   File or directory to analyze (default: current directory)
@@ -184,8 +230,20 @@ OPTIONS:
   Analysis:
     --recursive, -r              Analyze directory recursively
     --suggest-names              Suggest better function names
-    --threshold, -t <number>     Disharmony threshold (default: 0.5)
+    --threshold, -t <number>     Disharmony threshold (default: thresholds.disharmony.low)
+    --metric <name>              Disharmony metric: euclidean, cosine, jensen-shannon,
+                                 coupling (default: analysis.distanceMetric)
     --config, -c <path>          Path to configuration file
+    --debug-ignore               List skipped files and the ignore rule behind each
+                                 (.gitignore, config ignore, .harmonizerignore)
+
+  Git:
+    --staged                     Only analyze files staged for commit
+    --git-diff [base]            Only analyze files changed since base (default: main/master)
+    --changed-lines              With --staged/--git-diff, only report functions whose
+                                 lines were changed (marked new or modified). Functions
+                                 are read from the working tree, so with --staged,
+                                 stage or stash other edits to those files first
 
   Performance:
     --parallel, -p <number>      Number of parallel workers (default: 4)
@@ -201,7 +259,7 @@ OPTIONS:
     --exit-code                  Use exit codes (0=pass, 1=fail, 2=error)
 
   Output:
-    --format, -f <format>        Output format: text, json, sarif, markdown
+    --format, -f <format>        Output format: text, json, sarif, markdown, html
     --output, -o <path>          Write output to file
     --verbose                    Show detailed analysis
     --quiet, -q                  Suppress progress output
@@ -224,9 +282,21 @@ EXAMPLES:
   # CI/CD usage with baseline
   harmonizer src/ -r --baseline baseline.json --fail-on-high --exit-code
 
+  # Analyze staged files (used by the pre-commit hook)
+  harmonizer analyze --staged --fail-on-high --quiet
+
+  # Analyze files changed on this branch
+  harmonizer analyze --git-diff origin/main
+
+  # Gate CI on functions touched by this branch only
+  harmonizer analyze --git-diff origin/main --changed-lines --fail-on-high
+
   # Generate SARIF output for GitHub Code Scanning
   harmonizer src/ -r --format sarif --output harmonizer.sarif
 
+  # Generate a self-contained HTML report (works offline)
+  harmonizer src/ -r --format html --output report.html
+
   # Create configuration files
   harmonizer --init
 
@@ -265,8 +335,7 @@ function initConfig(targetDir: string): void {
 /**
  * Main CLI function
  */
-async function main() {
-  const args = process.argv.slice(2);
+async function main(args: string[] = process.argv.slice(2)) {
   const options = parseArgs(args);
 
   // Handle utility commands
@@ -285,11 +354,41 @@ async function main() {
     process.exit(0);
   }
 
+  if (options.changedLines && !options.staged && options.gitDiff === undefined) {
+    console.error('❌ Error: --changed-lines requires --staged or --git-diff');
+    process.exit(2);
+  }
+
   // Load configuration
   const config = options.config
     ? ConfigLoader.loadConfig(path.dirname(options.config))
     : ConfigLoader.loadConfig(options.target);
 
+  // --threshold overrides the reporting threshold from .harmonizerrc; medium and high
+  // are raised to it if needed so the cut-offs stay in order
+  if (options.threshold !== undefined) {
+    const { disharmony } = ConfigLoader.resolveConfig(config).thresholds;
+    const medium = Math.max(disharmony?.medium ?? 0.6, options.threshold);
+    config.thresholds = {
+      ...config.thresholds,
+      disharmony: {
+        low: options.threshold,
+        medium,
+        high: Math.max(disharmony?.high ?? 0.8, medium),
+      },
+    };
+  }
+
+  // --metric overrides analysis.distanceMetric
+  if (options.metric !== undefined) {
+    config.analysis = { ...config.analysis, distanceMetric: options.metric as DistanceMetric };
+    const { errors } = ConfigLoader.validateConfig({ analysis: config.analysis });
+    if (errors.length > 0) {
+      console.error(`❌ Error: ${errors.join(', ')}`);
+      process.exit(2);
+    }
+  }
+
   // Validate target
   const targetPath = path.resolve(options.target);
   if (!fs.existsSync(targetPath)) {
@@ -299,6 +398,20 @@ async function main() {
 
   const isDirectory = fs.statSync(targetPath).isDirectory();
 
+  // Restrict analysis to files (and optionally lines) changed in git, if requested
+  let changedFiles: string[] | null = null;
+  let lineChanges: FileLineChanges[] | null = null;
+  if (options.staged || options.gitDiff !== undefined) {
+    ({ changedFiles, lineChanges } = await getGitChanges(targetPath, isDirectory, options));
+
+    if (changedFiles.length === 0) {
+      if (!options.quiet) {
+        console.log('✅ No changed JavaScript/TypeScript files to analyze');
+      }
+      process.exit(0);
+    }
+  }
+
   if (!options.quiet) {
     console.log('══════════════════════════════════════════════════════════════════');
     console.log('           JavaScript Code Harmonizer v0.2.0                      ');
@@ -312,6 +425,8 @@ async function main() {
     rootPath: isDirectory ? targetPath : path.dirname(targetPath),
     include: isDirectory ? undefined : [path.basename(targetPath)],
     exclude: config.ignore,
+    files: changedFiles,
+    lineChanges,
     parallelism: options.parallel || (config.performance?.parallelism ?? 4),
     cache: options.cache || (config.performance?.cache ?? false),
     cacheDir: path.join(targetPath, '.harmonizer-cache'),
@@ -323,7 +438,11 @@ async function main() {
   };
 
   // Analyze project
-  const analyzer = new ProjectAnalyzer();
+  const analyzer = new ProjectAnalyzer(config);
+
+  if (options.debugIgnore) {
+    printIgnored(await analyzer.selectFiles(projectConfig));
+  }
   const result = await analyzer.analyzeProject(projectConfig);
 
   if (!options.quiet) {
@@ -334,6 +453,11 @@ async function main() {
 
   // Handle baseline comparison
   let exitCode = 0;
+  const failOnHigh = options.failOnHigh || (config.ci?.failOnHigh ?? false);
+  const failOnMedium = options.failOnMedium || (config.ci?.failOnMedium ?? false);
+
+  // --fail-on-* flags imply exit codes
+  const useExitCode = options.exitCode || options.failOnHigh || options.failOnMedium;
 
   if (options.baseline) {
     const comparison = BaselineManager.compare(result, options.baseline);
@@ -343,14 +467,11 @@ async function main() {
       console.log('');
     }
 
-    if (options.exitCode) {
-      exitCode = BaselineManager.getExitCode(
-        comparison,
-        options.failOnHigh || (config.ci?.failOnHigh ?? false),
-        options.failOnMedium || (config.ci?.failOnMedium ?? false),
-        result
-      );
+    if (useExitCode) {
+      exitCode = BaselineManager.getExitCode(comparison, failOnHigh, failOnMedium, result);
     }
+  } else if (useExitCode) {
+    exitCode = BaselineManager.getSeverityExitCode(result, failOnHigh, failOnMedium);
   }
 
   // Save baseline if requested
@@ -380,6 +501,10 @@ async function main() {
       output = formatMarkdown(result, options);
       break;
 
+    case 'html':
+      output = HtmlReporter.generate(result);
+      break;
+
     case 'text':
     default:
       output = formatText(result, options);
@@ -397,11 +522,71 @@ async function main() {
   }
 
   // Exit with appropriate code
-  if (options.exitCode) {
+  if (useExitCode) {
     process.exit(exitCode);
   }
 }
 
+/**
+ * Print the paths the ignore pipeline skipped (to stderr, so report output stays clean)
+ */
+function printIgnored(selection: FileSelection): void {
+  console.error(`🙈 Ignored ${selection.ignored.length} path(s):`);
+  for (const entry of selection.ignored) {
+    console.error(`   ${entry.path}  ← ${entry.source}: ${entry.pattern}`);
+  }
+  console.error(`   ${selection.files.length} file(s) selected for analysis`);
+  console.error('');
+}
+
+/**
+ * Get absolute paths of files changed in git (staged or vs a base ref),
+ * plus changed line ranges when --changed-lines is set
+ */
+async function getGitChanges(
+  targetPath: string,
+  isDirectory: boolean,
+  options: CliOptions
+): Promise<{ changedFiles: string[]; lineChanges: FileLineChanges[] | null }> {
+  const git = new GitIntegration(isDirectory ? targetPath : path.dirname(targetPath));
+
+  if (!(await git.isGitRepo())) {
+    console.error(`❌ Error: Not a git repository: ${targetPath}`);
+    process.exit(2);
+  }
+
+  const diffOptions = {
+    staged: options.staged,
+    base: options.gitDiff || undefined,
+  };
+
+  const changed = await git.getChangedFiles(diffOptions);
+  const changedFiles = changed.map((file) => file.path).filter((file) => fs.existsSync(file));
+  const lineChanges = options.changedLines ? await git.getChangedLines(diffOptions) : null;
+
+  // Staged line numbers are matched against the working tree copy of each file
+  if (lineChanges && options.staged) {
+    const unstaged = new Set(await git.getUnstagedFiles());
+    const mismatched = changedFiles.filter((file) => unstaged.has(file));
+    if (mismatched.length > 0) {
+      console.error(
+        `⚠️  ${mismatched.length} staged file(s) also have unstaged changes; ` +
+          '--changed-lines may mark the wrong functions in:'
+      );
+      mismatched.forEach((file) => console.error(`   ${path.relative(process.cwd(), file)}`));
+    }
+  }
+
+  return { changedFiles, lineChanges };
+}
+
+/**
+ * Function name prefixed with the function that defines it, e.g. `loadUsers › onError`
+ */
+function qualifiedName(func: { name: string; parent?: { name: string } }): string {
+  return func.parent ? `${func.parent.name} › ${func.name}` : func.name;
+}
+
 /**
  * Format results as text
  */
@@ -414,6 +599,7 @@ function formatText(result: any, options: CliOptions): string {
   lines.push(`  Disharmonious functions: ${result.summary.disharmoniousFunctions}`);
   lines.push(`  Average disharmony: ${result.summary.averageDisharmony.toFixed(3)}`);
   lines.push(`  Max disharmony: ${result.summary.maxDisharmony.toFixed(3)}`);
+  lines.push(`  Distance metric: ${result.metric}`);
   lines.push('');
 
   if (result.summary.errorFiles > 0) {
@@ -426,7 +612,7 @@ function formatText(result: any, options: CliOptions): string {
   for (const file of result.files) {
     if (file.status === 'success') {
       for (const func of file.functions) {
-        if (func.disharmony > options.threshold) {
+        if (func.level) {
           disharmoniousFunctions.push({
             ...func,
             file: file.relativePath,
@@ -444,8 +630,17 @@ function formatText(result: any, options: CliOptions): string {
 
     for (const func of disharmoniousFunctions.slice(0, 20)) {
       const icon = func.severity === 'HIGH' ? '❌' : func.severity === 'MEDIUM' ? '⚠️' : '📝';
-      lines.push(`${icon} ${func.file}:${func.line} - ${func.name}`);
+      const change = func.changeStatus ? ` (${func.changeStatus})` : '';
+      lines.push(`${icon} ${func.file}:${func.line} - ${qualifiedName(func)}${change}`);
       lines.push(`   Disharmony: ${func.disharmony.toFixed(3)} [${func.severity}]`);
+      if (func.antiPattern) {
+        lines.push(`   Pattern: ${func.antiPattern.name} (${func.antiPattern.id})`);
+      }
+      if (func.lowConfidence) {
+        lines.push(
+          `   Low confidence (${Math.round(func.confidence * 100)}%): unknown words ${func.unrecognizedTokens.join(', ') || 'none'}`
+        );
+      }
 
       if (options.suggestNames && func.suggestions) {
         lines.push(`   Suggestions: ${func.suggestions.slice(0, 3).map((s: any) => s.name).join(', ')}`);
@@ -463,6 +658,25 @@ function formatText(result: any, options: CliOptions): string {
     lines.push('');
   }
 
+  const coverage: VocabularyCoverage | undefined = result.vocabularyCoverage;
+  if (coverage) {
+    lines.push('VOCABULARY COVERAGE:');
+    lines.push(
+      `  Recognized words: ${(coverage.coverage * 100).toFixed(0)}% (${coverage.recognizedTokens}/${coverage.recognizedTokens + coverage.unrecognizedTokens})`
+    );
+    lines.push(`  Low-confidence functions: ${coverage.lowConfidenceFunctions}`);
+    if (coverage.topUnknown.length > 0) {
+      lines.push(
+        `  Most common unknown words: ${coverage.topUnknown
+          .slice(0, 10)
+          .map((entry) => `${entry.word} (${entry.count})`)
+          .join(', ')}`
+      );
+      lines.push('  Add them under vocabulary.custom in .harmonizerrc to improve accuracy.');
+    }
+    lines.push('');
+  }
+
   return lines.join('\n');
 }
 
@@ -484,6 +698,7 @@ function formatMarkdown(result: any, options: CliOptions): string {
   lines.push(`- **Disharmonious functions**: ${result.summary.disharmoniousFunctions}`);
   lines.push(`- **Average disharmony**: ${result.summary.averageDisharmony.toFixed(3)}`);
   lines.push(`- **Max disharmony**: ${result.summary.maxDisharmony.toFixed(3)}`);
+  lines.push(`- **Distance metric**: ${result.metric}`);
   lines.push('');
 
   // Show disharmonious functions
@@ -491,7 +706,7 @@ function formatMarkdown(result: any, options: CliOptions): string {
   for (const file of result.files) {
     if (file.status === 'success') {
       for (const func of file.functions) {
-        if (func.disharmony > options.threshold) {
+        if (func.level) {
           disharmoniousFunctions.push({
             ...func,
             file: file.relativePath,
@@ -507,17 +722,42 @@ function formatMarkdown(result: any, options: CliOptions): string {
 
     disharmoniousFunctions.sort((a, b) => b.disharmony - a.disharmony);
 
-    lines.push('| File | Function | Line | Disharmony | Severity |');
-    lines.push('|------|----------|------|------------|----------|');
+    if (options.changedLines) {
+      lines.push('| File | Function | Line | Change | Pattern | Disharmony | Severity |');
+      lines.push('|------|----------|------|--------|---------|------------|----------|');
+    } else {
+      lines.push('| File | Function | Line | Pattern | Disharmony | Severity |');
+      lines.push('|------|----------|------|---------|------------|----------|');
+    }
 
     for (const func of disharmoniousFunctions) {
       const icon = func.severity === 'HIGH' ? '❌' : func.severity === 'MEDIUM' ? '⚠️' : '📝';
+      const change = options.changedLines ? ` ${func.changeStatus ?? ''} |` : '';
+      const doubt = func.lowConfidence ? ' (low confidence)' : '';
+      const pattern = func.antiPattern?.name ?? '';
       lines.push(
-        `| ${func.file} | \`${func.name}\` | ${func.line} | ${func.disharmony.toFixed(3)} | ${icon} ${func.severity} |`
+        `| ${func.file} | \`${qualifiedName(func)}\` | ${func.line} |${change} ${pattern} | ${func.disharmony.toFixed(3)}${doubt} | ${icon} ${func.severity} |`
       );
     }
 
     lines.push('');
+
+    // Each anti-pattern found, once
+    const patterns = new Map<string, AntiPattern>(
+      disharmoniousFunctions
+        .filter((func) => func.antiPattern)
+        .map((func) => [func.antiPattern.id, func.antiPattern])
+    );
+    if (patterns.size > 0) {
+      lines.push('### Anti-patterns');
+      lines.push('');
+      for (const pattern of patterns.values()) {
+        lines.push(
+          `- **${pattern.name}** (\`${pattern.id}\`): ${pattern.description} ${pattern.remediation}`
+        );
+      }
+      lines.push('');
+    }
   } else {
     lines.push('## ✅ No Issues Found');
     lines.push('');
@@ -525,6 +765,25 @@ function formatMarkdown(result: any, options: CliOptions): string {
     lines.push('');
   }
 
+  const coverage: VocabularyCoverage | undefined = result.vocabularyCoverage;
+  if (coverage) {
+    lines.push('## Vocabulary Coverage');
+    lines.push('');
+    lines.push(
+      `- **Recognized words**: ${(coverage.coverage * 100).toFixed(0)}% (${coverage.recognizedTokens}/${coverage.recognizedTokens + coverage.unrecognizedTokens})`
+    );
+    lines.push(`- **Low-confidence functions**: ${coverage.lowConfidenceFunctions}`);
+    if (coverage.topUnknown.length > 0) {
+      lines.push('');
+      lines.push('| Unknown word | Functions |');
+      lines.push('|--------------|-----------|');
+      for (const { word, count } of coverage.topUnknown) {
+        lines.push(`| ${word} | ${count} |`);
+      }
+    }
+    lines.push('');
+  }
+
   return lines.join('\n');
 }
 
@@ -8,11 +8,19 @@
  */
 
 import * as fs from 'fs';
-import * as path from 'path';
 import { SemanticEngine } from '../core/engine';
 import { ASTSemanticParser } from '../parser/ast-parser';
 import { SemanticNamingEngine } from '../naming/semantic-naming';
 import { ICEAnalysisResult } from '../core/coordinates';
+import { AntiPattern, classifyAntiPattern } from '../core/anti-patterns';
+import {
+  calculateDirectionalPenalty,
+  DirectionalDrift,
+  DRIFT_DESCRIPTIONS,
+  PenaltyMatrix,
+  PenaltyMatrixConfig,
+  resolvePenaltyMatrix,
+} from '../core/penalty-matrix';
 
 /**
  * Analysis configuration
@@ -23,6 +31,7 @@ export interface HarmonizerConfig {
   topSuggestions?: number;
   format?: 'text' | 'json';
   verbose?: boolean;
+  penaltyMatrix?: PenaltyMatrixConfig; // Overrides for the intent → execution drift weights
 }
 
 /**
@@ -46,7 +55,9 @@ export interface FileAnalysisResult {
 export interface FunctionAnalysisResult {
   name: string;
   line?: number;
+  parent?: { name: string; line: number }; // Enclosing function, for nested functions and callbacks
   disharmony: number;
+  weightedDisharmony: number; // Disharmony × direction penalty × size factor, for severity
   severity: string;
   intent: {
     coordinates: string;
@@ -60,12 +71,23 @@ export interface FunctionAnalysisResult {
     name: string;
     similarity: number;
   }>;
+  typeSignals?: Array<{
+    leg: 'intent' | 'execution';
+    contradicts: boolean;
+    explanation: string;
+  }>;
   trajectory?: {
     love: { intent: number; execution: number; delta: number };
     justice: { intent: number; execution: number; delta: number };
     power: { intent: number; execution: number; delta: number };
     wisdom: { intent: number; execution: number; delta: number };
   };
+  direction?: {
+    multiplier: number;
+    drifts: DirectionalDrift[];
+  };
+  antiPattern?: AntiPattern; // Named drift pattern, for disharmonious functions
+  magnitude?: ICEAnalysisResult['magnitude']; // Raw intent and execution intensity
   baselines?: {
     robustness: number;
     effectiveness: number;
@@ -85,6 +107,7 @@ export class CodeHarmonizer {
   private parser: ASTSemanticParser;
   private namingEngine: SemanticNamingEngine;
   private config: Required<HarmonizerConfig>;
+  private penaltyMatrix: PenaltyMatrix;
 
   constructor(config: HarmonizerConfig = {}) {
     this.config = {
@@ -93,7 +116,9 @@ export class CodeHarmonizer {
       topSuggestions: config.topSuggestions ?? 3,
       format: config.format ?? 'text',
       verbose: config.verbose ?? false,
+      penaltyMatrix: config.penaltyMatrix ?? {},
     };
+    this.penaltyMatrix = resolvePenaltyMatrix(this.config.penaltyMatrix);
 
     this.engine = new SemanticEngine();
     this.parser = new ASTSemanticParser(this.engine.getVocabulary());
@@ -105,7 +130,7 @@ export class CodeHarmonizer {
    */
   async analyzeFile(filePath: string): Promise<FileAnalysisResult> {
     const code = fs.readFileSync(filePath, 'utf-8');
-    const functions = this.parser.extractFunctions(code);
+    const functions = this.parser.extractFunctions(code, filePath);
 
     const results: FunctionAnalysisResult[] = [];
     let totalDisharmony = 0;
@@ -118,17 +143,36 @@ export class CodeHarmonizer {
     };
 
     for (const { node, metadata } of functions) {
+      // Anonymous callbacks have no name to judge
+      if (metadata.unnamed) {
+        continue;
+      }
+
       const parseResult = this.parser.analyzeFunction(node, metadata);
 
       // Perform ICE analysis
       const iceAnalysis = this.engine.performICEAnalysis(
         parseResult.intent,
-        ['javascript', 'function', path.basename(filePath)],
-        parseResult.execution
+        parseResult.context,
+        parseResult.execution,
+        parseResult.typeSignals
       );
 
+      // Calculate trajectory, and weigh which way it drifts
+      const trajectory = this.calculateTrajectory(iceAnalysis);
+      const deltas = {
+        love: trajectory.love.delta,
+        justice: trajectory.justice.delta,
+        power: trajectory.power.delta,
+        wisdom: trajectory.wisdom.delta,
+      };
+      const direction = calculateDirectionalPenalty(deltas, this.penaltyMatrix);
+      const weightedDisharmony =
+        iceAnalysis.disharmony * direction.multiplier * iceAnalysis.magnitude.sizeFactor;
+      const severity = this.calculateSeverity(weightedDisharmony);
+
       totalDisharmony += iceAnalysis.disharmony;
-      severityCounts[iceAnalysis.severity]++;
+      severityCounts[severity]++;
 
       // Generate naming suggestions if requested
       let suggestions;
@@ -144,14 +188,13 @@ export class CodeHarmonizer {
         }));
       }
 
-      // Calculate trajectory
-      const trajectory = this.calculateTrajectory(iceAnalysis);
-
       results.push({
         name: metadata.name,
         line: metadata.location?.start.line,
+        parent: metadata.parent,
         disharmony: iceAnalysis.disharmony,
-        severity: iceAnalysis.severity,
+        weightedDisharmony,
+        severity,
         intent: {
           coordinates: iceAnalysis.intent.toString(),
           dominant: iceAnalysis.intent.getDominantDimension(),
@@ -161,7 +204,16 @@ export class CodeHarmonizer {
           dominant: iceAnalysis.execution.getDominantDimension(),
         },
         suggestions,
+        typeSignals: iceAnalysis.typeSignals?.map(({ leg, contradicts, explanation }) => ({
+          leg,
+          contradicts,
+          explanation,
+        })),
         trajectory,
+        direction,
+        magnitude: iceAnalysis.magnitude,
+        antiPattern:
+          iceAnalysis.disharmony > this.config.threshold ? classifyAntiPattern(deltas) : undefined,
       });
     }
 
@@ -208,6 +260,17 @@ export class CodeHarmonizer {
     };
   }
 
+  /**
+   * Severity of a direction-weighted disharmony, on the engine's scale
+   */
+  private calculateSeverity(disharmony: number): ICEAnalysisResult['severity'] {
+    if (disharmony <= this.engine.getThreshold('excellent')) return 'excellent';
+    if (disharmony <= this.engine.getThreshold('low')) return 'low';
+    if (disharmony <= this.engine.getThreshold('medium')) return 'medium';
+    if (disharmony <= this.engine.getThreshold('high')) return 'high';
+    return 'critical';
+  }
+
   /**
    * Format results as text
    */
@@ -232,12 +295,24 @@ export class CodeHarmonizer {
     lines.push('─'.repeat(70));
     lines.push('');
 
+    // Nested functions are listed under the function that defines them
+    const depths = new Map<string, number>();
+    for (const func of result.functions) {
+      const parentDepth = func.parent ? depths.get(`${func.parent.name}:${func.parent.line}`) : -1;
+      depths.set(`${func.name}:${func.line}`, (parentDepth ?? -1) + 1);
+    }
+
     for (const func of result.functions) {
       const status = func.disharmony <= this.config.threshold ? '✅' : '⚠️ ';
       const severityEmoji = this.getSeverityEmoji(func.severity);
+      const indent = '   '.repeat(depths.get(`${func.name}:${func.line}`) ?? 0);
+      const start = lines.length;
 
       lines.push(`${status} ${func.name}${func.line ? `:${func.line}` : ''}`);
       lines.push(`   Disharmony: ${func.disharmony.toFixed(3)} ${severityEmoji} ${func.severity.toUpperCase()}`);
+      if (func.antiPattern) {
+        lines.push(`   Pattern:    ${func.antiPattern.name} (${func.antiPattern.id})`);
+      }
 
       if (this.config.verbose) {
         lines.push(`   Intent:     ${func.intent.coordinates}`);
@@ -264,6 +339,31 @@ export class CodeHarmonizer {
         }
 
         lines.push('   └────────────────────────────────────────────────────────┘');
+
+        const [drift] = func.direction?.drifts ?? [];
+        if (drift) {
+          const from = drift.from.charAt(0).toUpperCase() + drift.from.slice(1);
+          const to = drift.to.charAt(0).toUpperCase() + drift.to.slice(1);
+          lines.push(
+            `   Direction:  ${from} → ${to} ×${drift.penalty.toFixed(2)} (${DRIFT_DESCRIPTIONS[drift.from][drift.to]})`
+          );
+          lines.push(`   Weighted:   ${func.weightedDisharmony.toFixed(3)}`);
+        }
+        if (func.magnitude) {
+          const { execution, sizeFactor } = func.magnitude;
+          const total = Object.values(execution).reduce((sum, value) => sum + value, 0);
+          lines.push(
+            `   Magnitude:  ${total.toFixed(1)} execution weight (size ×${sizeFactor.toFixed(2)})`
+          );
+        }
+      }
+
+      if (func.typeSignals && func.typeSignals.length > 0) {
+        lines.push('');
+        lines.push('   🔤 TYPE EVIDENCE:');
+        for (const signal of func.typeSignals) {
+          lines.push(`      ${signal.contradicts ? '⚠️' : '✓'} ${signal.explanation}`);
+        }
       }
 
       if (func.suggestions && func.suggestions.length > 0) {
@@ -274,6 +374,9 @@ export class CodeHarmonizer {
         });
       }
 
+      for (let i = start; i < lines.length; i++) {
+        lines[i] = indent + lines[i];
+      }
       lines.push('');
     }
 
@@ -6,6 +6,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import ignore, { Ignore } from 'ignore';
+import { Dimension, DIMENSIONS, VocabularyEntry, VocabularyManager } from '../core/vocabulary';
+import { isPackPath } from '../core/vocabulary-packs';
+import { DISTANCE_METRICS, DistanceMetric } from '../core/distance-metrics';
+import { PenaltyMatrixConfig } from '../core/penalty-matrix';
 
 export interface ThresholdConfig {
   low: number;
@@ -13,10 +17,12 @@ export interface ThresholdConfig {
   high: number;
 }
 
+export type RuleLevel = 'off' | 'warn' | 'error';
+
 export interface RuleConfig {
-  'semantic-naming': 'off' | 'warn' | 'error';
-  'ice-analysis': 'off' | 'warn' | 'error';
-  'disharmony-threshold': 'off' | 'warn' | 'error';
+  'semantic-naming': RuleLevel;
+  'ice-analysis': RuleLevel;
+  'disharmony-threshold': RuleLevel;
 }
 
 export interface HarmonizerConfig {
@@ -38,10 +44,13 @@ export interface HarmonizerConfig {
   rules?: Partial<RuleConfig>;
 
   /**
-   * Custom vocabulary extensions
+   * Custom vocabulary extensions: a dimension ("power") or a weighted
+   * distribution ({ "power": 0.7, "wisdom": 0.3 }) per word
    */
   vocabulary?: {
-    custom?: Record<string, 'love' | 'justice' | 'power' | 'wisdom'>;
+    custom?: Record<string, VocabularyEntry>;
+    abbreviations?: Record<string, string>; // e.g. { "txn": "transaction" }
+    packs?: string[]; // Bundled pack names ("react") or paths to pack modules
   };
 
   /**
@@ -50,7 +59,14 @@ export interface HarmonizerConfig {
   analysis?: {
     suggestNames?: boolean;
     topSuggestions?: number;
-    minConfidence?: number;
+    minConfidence?: number; // Minimum similarity for rename suggestions
+    confidenceThreshold?: number; // Below this, findings rest on too few known words
+    lowConfidence?: 'flag' | 'hide'; // Mark low-confidence findings, or don't report them
+    distanceMetric?: DistanceMetric; // How intent-execution disharmony is measured
+    penaltyMatrix?: PenaltyMatrixConfig; // Intent → execution drift weights for severity
+    interprocedural?: boolean; // Fold callee execution into callers
+    callDepth?: number; // How many call levels to follow
+    callDecay?: number; // Weight multiplier per call level (0-1)
   };
 
   /**
@@ -112,11 +128,20 @@ export const DEFAULT_CONFIG: Required<HarmonizerConfig> = {
   },
   vocabulary: {
     custom: {},
+    abbreviations: {},
+    packs: [],
   },
   analysis: {
     suggestNames: false,
     topSuggestions: 5,
     minConfidence: 0.7,
+    confidenceThreshold: 0.5,
+    lowConfidence: 'flag',
+    distanceMetric: 'euclidean',
+    penaltyMatrix: {},
+    interprocedural: true,
+    callDepth: 3,
+    callDecay: 0.5,
   },
   performance: {
     parallelism: 4,
@@ -157,6 +182,15 @@ export class ConfigLoader {
       const content = fs.readFileSync(configPath, 'utf-8');
       const userConfig = JSON.parse(content) as HarmonizerConfig;
 
+      // Pack paths are relative to the config file, not the working directory
+      if (Array.isArray(userConfig.vocabulary?.packs)) {
+        userConfig.vocabulary.packs = userConfig.vocabulary.packs.map((pack) =>
+          typeof pack === 'string' && isPackPath(pack)
+            ? path.resolve(path.dirname(configPath), pack)
+            : pack
+        );
+      }
+
       // Merge with defaults
       return this.mergeConfig(DEFAULT_CONFIG, userConfig);
     } catch (error) {
@@ -167,10 +201,17 @@ export class ConfigLoader {
     }
   }
 
+  /**
+   * Resolve a (possibly partial) configuration against the defaults
+   */
+  static resolveConfig(config: HarmonizerConfig = {}): Required<HarmonizerConfig> {
+    return this.mergeConfig(DEFAULT_CONFIG, config);
+  }
+
   /**
    * Find .harmonizerrc.json file by walking up the directory tree
    */
-  private static findConfigFile(startPath: string): string | null {
+  static findConfigFile(startPath: string): string | null {
     const configNames = ['.harmonizerrc.json', '.harmonizerrc', 'harmonizer.config.json'];
 
     let currentPath = path.resolve(startPath);
@@ -194,6 +235,27 @@ export class ConfigLoader {
     return null;
   }
 
+  /**
+   * Apply a change to a configuration file as written (not merged with the
+   * defaults) and save it. Without a path, the nearest config file is used,
+   * or .harmonizerrc.json is created in the working directory.
+   *
+   * @returns Path of the file written
+   */
+  static updateConfigFile(change: (config: HarmonizerConfig) => void, configPath?: string): string {
+    const target = configPath
+      ? path.resolve(configPath)
+      : (this.findConfigFile(process.cwd()) ?? path.join(process.cwd(), '.harmonizerrc.json'));
+
+    const config: HarmonizerConfig = fs.existsSync(target)
+      ? JSON.parse(fs.readFileSync(target, 'utf-8'))
+      : {};
+    change(config);
+    fs.writeFileSync(target, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+
+    return target;
+  }
+
   /**
    * Load .harmonizerignore file
    */
@@ -217,9 +279,9 @@ export class ConfigLoader {
   }
 
   /**
-   * Find .harmonizerignore file
+   * Find .harmonizerignore file by walking up the directory tree
    */
-  private static findIgnoreFile(startPath: string): string | null {
+  static findIgnoreFile(startPath: string): string | null {
     let currentPath = path.resolve(startPath);
 
     while (true) {
@@ -266,6 +328,11 @@ export class ConfigLoader {
           ...defaults.vocabulary.custom,
           ...(user.vocabulary?.custom || {}),
         },
+        abbreviations: {
+          ...defaults.vocabulary.abbreviations,
+          ...(user.vocabulary?.abbreviations || {}),
+        },
+        packs: user.vocabulary?.packs || defaults.vocabulary.packs,
       },
       analysis: {
         ...defaults.analysis,
@@ -321,6 +388,79 @@ export class ConfigLoader {
       errors.push('analysis.minConfidence must be between 0 and 1');
     }
 
+    if (
+      config.analysis?.confidenceThreshold !== undefined &&
+      (config.analysis.confidenceThreshold < 0 || config.analysis.confidenceThreshold > 1)
+    ) {
+      errors.push('analysis.confidenceThreshold must be between 0 and 1');
+    }
+
+    if (
+      config.analysis?.lowConfidence !== undefined &&
+      !['flag', 'hide'].includes(config.analysis.lowConfidence)
+    ) {
+      errors.push("analysis.lowConfidence must be 'flag' or 'hide'");
+    }
+
+    if (
+      config.analysis?.distanceMetric !== undefined &&
+      !Object.keys(DISTANCE_METRICS).includes(config.analysis.distanceMetric)
+    ) {
+      errors.push(
+        `analysis.distanceMetric must be one of: ${Object.keys(DISTANCE_METRICS).join(', ')}`
+      );
+    }
+
+    for (const [from, row] of Object.entries(config.analysis?.penaltyMatrix ?? {})) {
+      if (typeof row !== 'object' || row === null) {
+        errors.push(`analysis.penaltyMatrix.${from} must map execution dimensions to penalties`);
+        continue;
+      }
+      for (const [to, penalty] of Object.entries(row)) {
+        if (!DIMENSIONS.includes(from as Dimension) || !DIMENSIONS.includes(to as Dimension)) {
+          errors.push(
+            `analysis.penaltyMatrix.${from}.${to}: rows and columns must be love, justice, power or wisdom`
+          );
+        } else if (typeof penalty !== 'number' || !(penalty >= 0)) {
+          errors.push(`analysis.penaltyMatrix.${from}.${to} must be a non-negative number`);
+        }
+      }
+    }
+
+    if (
+      config.analysis?.callDecay !== undefined &&
+      (config.analysis.callDecay < 0 || config.analysis.callDecay > 1)
+    ) {
+      errors.push('analysis.callDecay must be between 0 and 1');
+    }
+
+    if (config.analysis?.callDepth !== undefined && config.analysis.callDepth < 0) {
+      errors.push('analysis.callDepth must be >= 0');
+    }
+
+    // Validate weighted vocabulary entries
+    for (const [word, entry] of Object.entries(config.vocabulary?.custom ?? {})) {
+      if (typeof entry === 'object' && !VocabularyManager.toWeights(entry)) {
+        errors.push(
+          `vocabulary.custom.${word} must map love/justice/power/wisdom to non-negative weights`
+        );
+      }
+    }
+
+    if (
+      config.vocabulary?.packs !== undefined &&
+      (!Array.isArray(config.vocabulary.packs) ||
+        config.vocabulary.packs.some((pack) => typeof pack !== 'string'))
+    ) {
+      errors.push('vocabulary.packs must be an array of pack names or paths');
+    }
+
+    for (const [short, expansion] of Object.entries(config.vocabulary?.abbreviations ?? {})) {
+      if (typeof expansion !== 'string' || !/^[a-z]+$/i.test(expansion)) {
+        errors.push(`vocabulary.abbreviations.${short} must expand to a single word`);
+      }
+    }
+
     return {
       valid: errors.length === 0,
       errors,
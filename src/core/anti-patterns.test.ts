@@ -0,0 +1,37 @@
+import { ANTI_PATTERNS, classifyAntiPattern, getAntiPattern } from './anti-patterns';
+import { DIMENSIONS } from './vocabulary';
+
+describe('anti-patterns', () => {
+  it('should name every pair of distinct dimensions once, with unique IDs', () => {
+    const pairs = ANTI_PATTERNS.map(({ from, to }) => `${from}>${to}`);
+    const expected = DIMENSIONS.flatMap((from) =>
+      DIMENSIONS.filter((to) => to !== from).map((to) => `${from}>${to}`)
+    );
+
+    expect(pairs.sort()).toEqual(expected.sort());
+    expect(new Set(ANTI_PATTERNS.map(({ id }) => id)).size).toBe(ANTI_PATTERNS.length);
+  });
+
+  it('should classify by the largest drift', () => {
+    const pattern = classifyAntiPattern({ love: 0.1, justice: 0, power: 0.4, wisdom: -0.5 });
+
+    expect(pattern?.id).toBe('hidden-mutation');
+    expect(getAntiPattern('hidden-mutation')).toBe(pattern);
+  });
+
+  it('should tell a silent validator from a reckless checker', () => {
+    expect(classifyAntiPattern({ love: 0, justice: -0.5, power: 0, wisdom: 0.5 })?.id).toBe(
+      'silent-validator'
+    );
+    expect(classifyAntiPattern({ love: 0, justice: -0.5, power: 0.5, wisdom: 0 })?.id).toBe(
+      'reckless-checker'
+    );
+  });
+
+  it('should not name drift below the minimum', () => {
+    expect(
+      classifyAntiPattern({ love: 0.05, justice: 0, power: 0, wisdom: -0.05 })
+    ).toBeUndefined();
+    expect(classifyAntiPattern({ love: 0, justice: 0, power: 0, wisdom: 0 })).toBeUndefined();
+  });
+});
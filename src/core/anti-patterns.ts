@@ -0,0 +1,171 @@
+/**
+ * Named anti-patterns for intent-execution drift
+ *
+ * A finding is classified by its largest drift: the dimension the name
+ * promises but the body falls short on, and the dimension the body does
+ * instead (see splitDrift). Each pair of dimensions is one anti-pattern with
+ * a stable ID, used as the SARIF rule ID.
+ */
+
+import { Dimension } from './vocabulary';
+import { splitDrift } from './penalty-matrix';
+
+export interface AntiPattern {
+  id: string; // Stable rule ID, e.g. "hidden-mutation"
+  name: string;
+  from: Dimension; // What the name promises
+  to: Dimension; // What the body does instead
+  description: string;
+  remediation: string;
+}
+
+/**
+ * Smallest drift (share of the LJPW distribution) that gets a name
+ */
+export const MIN_ANTI_PATTERN_DRIFT = 0.1;
+
+export const ANTI_PATTERNS: readonly AntiPattern[] = [
+  {
+    id: 'hidden-mutation',
+    name: 'Hidden Mutation',
+    from: 'wisdom',
+    to: 'power',
+    description:
+      'The name promises a read or a computation, but the body changes state. Callers will ' +
+      'treat it as safe to call repeatedly, cache or skip.',
+    remediation:
+      'Move the write into its own function named for the change (deleteX, updateX), or ' +
+      'rename this one after what it changes.',
+  },
+  {
+    id: 'chatty-getter',
+    name: 'Chatty Getter',
+    from: 'wisdom',
+    to: 'love',
+    description:
+      'The name promises to return information, but the body mostly sends, logs or notifies.',
+    remediation:
+      'Move the messaging to the caller or an explicit notifyX/logX function, or name the ' +
+      'function after the communication.',
+  },
+  {
+    id: 'judging-getter',
+    name: 'Judging Getter',
+    from: 'wisdom',
+    to: 'justice',
+    description:
+      'The name promises a lookup, but the body mostly validates or enforces rules, and may ' +
+      'throw where callers expect data.',
+    remediation:
+      'Split the checks into a validateX/assertX function, or say so in the name (requireX, ' +
+      'getValidX).',
+  },
+  {
+    id: 'reckless-checker',
+    name: 'Reckless Checker',
+    from: 'justice',
+    to: 'power',
+    description:
+      'The name promises a check, but the body changes state, so checking twice is no ' +
+      'longer harmless.',
+    remediation:
+      'Keep validation free of side effects: return the verdict and let the caller act on ' +
+      'it, or rename to the action (ensureX, repairX).',
+  },
+  {
+    id: 'silent-validator',
+    name: 'Silent Validator',
+    from: 'justice',
+    to: 'wisdom',
+    description:
+      'The name promises validation, but the body only reads or computes. Nothing is ' +
+      'enforced, so invalid input passes through.',
+    remediation:
+      'Enforce the rule (throw, or return a result the caller must check), or rename to what ' +
+      'it computes.',
+  },
+  {
+    id: 'noisy-validator',
+    name: 'Noisy Validator',
+    from: 'justice',
+    to: 'love',
+    description: 'The name promises validation, but the body mostly reports or notifies.',
+    remediation: 'Return the verdict and report it from the caller, or rename to reportX.',
+  },
+  {
+    id: 'read-only-mutator',
+    name: 'Read-Only Mutator',
+    from: 'power',
+    to: 'wisdom',
+    description:
+      'The name promises an action, but the body only reads or computes. Callers may rely on ' +
+      'a change that never happens.',
+    remediation: 'Make sure the action happens, or rename to the query (getX, computeX).',
+  },
+  {
+    id: 'narrating-mutator',
+    name: 'Narrating Mutator',
+    from: 'power',
+    to: 'love',
+    description: 'The name promises an action, but most of the body logs, emits or notifies.',
+    remediation:
+      'Move logging and notifications behind a helper or an event, or name the function ' +
+      'after the communication (notifyX).',
+  },
+  {
+    id: 'hesitant-mutator',
+    name: 'Hesitant Mutator',
+    from: 'power',
+    to: 'justice',
+    description:
+      'The name promises an action, but the body mostly checks preconditions. The action ' +
+      'itself may be elsewhere, or missing.',
+    remediation:
+      'Extract the checks into validateX and keep the action visible here, or rename to the ' +
+      'check.',
+  },
+  {
+    id: 'meddling-messenger',
+    name: 'Meddling Messenger',
+    from: 'love',
+    to: 'power',
+    description: 'The name promises communication (send, notify, log), but the body changes state.',
+    remediation: 'Separate the state change from the messaging, or rename to the change.',
+  },
+  {
+    id: 'quiet-messenger',
+    name: 'Quiet Messenger',
+    from: 'love',
+    to: 'wisdom',
+    description:
+      'The name promises communication, but the body only reads or computes. Nothing is sent.',
+    remediation: 'Make sure the message goes out, or rename to the computation (buildX, formatX).',
+  },
+  {
+    id: 'strict-messenger',
+    name: 'Strict Messenger',
+    from: 'love',
+    to: 'justice',
+    description: 'The name promises communication, but the body mostly validates.',
+    remediation: 'Validate before calling the messenger, or rename to the check.',
+  },
+];
+
+/**
+ * Look up an anti-pattern by rule ID
+ */
+export function getAntiPattern(id: string): AntiPattern | undefined {
+  return ANTI_PATTERNS.find((pattern) => pattern.id === id);
+}
+
+/**
+ * Name the largest drift in per-dimension deltas (execution - intent), if it
+ * is large enough to matter
+ */
+export function classifyAntiPattern(deltas: Record<Dimension, number>): AntiPattern | undefined {
+  const [drift] = splitDrift(deltas);
+  if (!drift || drift.amount < MIN_ANTI_PATTERN_DRIFT) {
+    return undefined;
+  }
+  return ANTI_PATTERNS.find((pattern) => pattern.from === drift.from && pattern.to === drift.to);
+}
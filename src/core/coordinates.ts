@@ -8,6 +8,9 @@
  * - Wisdom (W): Knowledge, information, understanding
  */
 
+import type { Dimension } from './vocabulary';
+import type { DistanceMetric } from './distance-metrics';
+
 /**
  * Immutable 4D semantic vector in LJPW space
  * All values are normalized to [0,1] range and sum to 1.0
@@ -204,8 +207,15 @@ export class Coordinates {
 /**
  * Semantic analysis result
  */
+/**
+ * Unnormalized weight per dimension: the summed vocabulary weights of the
+ * words behind a set of coordinates, before normalization drops the size
+ */
+export type DimensionIntensity = Record<Dimension, number>;
+
 export interface SemanticResult {
   coordinates: Coordinates;
+  intensity: DimensionIntensity;
   clarity: number; // 0-1, how focused
   dominantDimension: 'love' | 'justice' | 'power' | 'wisdom';
   distanceFromAnchor: number;
@@ -219,12 +229,25 @@ export interface ICEAnalysisResult {
   intent: Coordinates;
   context: Coordinates;
   execution: Coordinates;
+  ownExecution?: Coordinates; // Execution of the body alone, before callee effects were folded in
+  inheritedEffects?: InheritedEffect[];
+  typeSignals?: TypeSignal[]; // Evidence from TypeScript type annotations
   intentExecutionDistance: number;
   iceCoherence: number; // 0-1
   iceBalance: number; // proximity to anchor
   benevolenceScore: number;
   disharmony: number; // same as intentExecutionDistance
+  magnitude: {
+    intent: DimensionIntensity;
+    execution: DimensionIntensity; // The body's own words; callee effects change direction, not size
+    sizeFactor: number; // Severity multiplier for large bodies (1 up to MAGNITUDE.LARGE_EXECUTION)
+    estimated?: boolean; // Set when only coordinates were available, assuming a typical size
+  };
+  metric: DistanceMetric; // How intentExecutionDistance was measured
   severity: 'excellent' | 'low' | 'medium' | 'high' | 'critical';
+  confidence?: number; // 0-1, how much of the intent and execution the vocabulary recognized
+  recognizedTokens?: number; // Distinct intent and execution words found in the vocabulary
+  unrecognizedTokens?: string[]; // Distinct intent and execution words it doesn't know
 
   // LJPW Mathematical Baselines metrics
   baselines?: {
@@ -238,6 +261,31 @@ export interface ICEAnalysisResult {
   };
 }
 
+/**
+ * Intent or execution evidence taken from a TypeScript type annotation
+ */
+export interface TypeSignal {
+  leg: 'intent' | 'execution';
+  source: 'return' | 'parameter';
+  type: string; // Annotation as written, e.g. Promise<User>
+  concept: string; // Concept added to the leg's concept cluster
+  dimension: Dimension;
+  contradicts: boolean; // Whether the type works against what the name promises
+  explanation: string;
+}
+
+/**
+ * Execution inherited from a called function (interprocedural analysis)
+ */
+export interface InheritedEffect {
+  callee: string;
+  location: string; // file:line of the callee
+  depth: number; // 1 for direct calls
+  weight: number; // Depth-decayed weight of the callee's execution
+  execution: Coordinates; // Callee's own execution
+  sideEffects: string[];
+}
+
 /**
  * Function analysis result
  */
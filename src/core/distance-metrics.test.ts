@@ -0,0 +1,68 @@
+import { Coordinates } from './coordinates';
+import { DISTANCE_METRICS, DistanceMetric, getDistanceMetric } from './distance-metrics';
+import { DISHARMONY_THRESHOLDS, SemanticEngine } from './engine';
+import { ConfigLoader } from '../config/config-loader';
+
+const metrics = Object.keys(DISTANCE_METRICS) as DistanceMetric[];
+
+describe('distance metrics', () => {
+  it('should be zero for identical profiles and positive otherwise', () => {
+    const a = new Coordinates(0.5, 0.2, 0.2, 0.1);
+    const b = new Coordinates(0.1, 0.2, 0.6, 0.1);
+
+    for (const name of metrics) {
+      const { distance } = getDistanceMetric(name);
+      expect([name, distance(a, a)]).toEqual([name, expect.closeTo(0, 10)]);
+      expect([name, distance(a, b) > 0]).toEqual([name, true]);
+    }
+  });
+
+  it('should reach their maximum for disjoint profiles', () => {
+    const love = Coordinates.love();
+    const power = Coordinates.power();
+
+    expect(getDistanceMetric('euclidean').distance(love, power)).toBeCloseTo(Math.SQRT2);
+    expect(getDistanceMetric('cosine').distance(love, power)).toBeCloseTo(1);
+    expect(getDistanceMetric('jensen-shannon').distance(love, power)).toBeCloseTo(1);
+  });
+
+  it('should count reinforcing dimensions as closer than dimensions in tension', () => {
+    const { distance } = getDistanceMetric('coupling');
+
+    // Justice ↔ Wisdom reinforce each other; Power ↔ Wisdom are in tension
+    expect(distance(Coordinates.justice(), Coordinates.wisdom())).toBeLessThan(
+      distance(Coordinates.power(), Coordinates.wisdom())
+    );
+  });
+
+  it('should reject unknown metrics in the engine and in config', () => {
+    expect(() => getDistanceMetric('manhattan' as DistanceMetric)).toThrow(
+      "Unknown distance metric 'manhattan'"
+    );
+    for (const name of ['constructor', 'toString']) {
+      expect(() => getDistanceMetric(name as DistanceMetric)).toThrow(
+        `Unknown distance metric '${name}'`
+      );
+    }
+    expect(
+      ConfigLoader.validateConfig({ analysis: { distanceMetric: 'manhattan' as DistanceMetric } })
+        .errors
+    ).toEqual([
+      'analysis.distanceMetric must be one of: euclidean, cosine, jensen-shannon, coupling',
+    ]);
+  });
+});
+
+describe('SemanticEngine distance metric', () => {
+  it('should record the metric and scale thresholds to it', () => {
+    const engine = new SemanticEngine(undefined, { metric: 'cosine' });
+    const result = engine.performICEAnalysis(['get', 'user'], [], ['delete', 'remove']);
+
+    expect(result.metric).toBe('cosine');
+    expect(result.disharmony).toBeCloseTo(1 - result.intent.cosineSimilarity(result.execution));
+    expect(engine.getThreshold('medium')).toBeCloseTo(
+      DISHARMONY_THRESHOLDS.MEDIUM * DISTANCE_METRICS.cosine.thresholdScale
+    );
+    expect(new SemanticEngine().performICEAnalysis(['get'], [], ['read']).metric).toBe('euclidean');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Distance metrics for intent-execution disharmony
+ *
+ * Disharmony thresholds (DISHARMONY_THRESHOLDS and `thresholds.disharmony`)
+ * are written for the Euclidean metric. Every metric carries the factor that
+ * maps them onto its own scale, fitted on random LJPW distributions over the
+ * 0.3-0.8 Euclidean range the thresholds sit in.
+ */
+
+import type { Coordinates } from './coordinates';
+import { COUPLING_MATRIX } from './ljpw-baselines';
+
+export type DistanceMetric = 'euclidean' | 'cosine' | 'jensen-shannon' | 'coupling';
+
+export interface DistanceMetricDefinition {
+  name: DistanceMetric;
+  description: string;
+  thresholdScale: number; // Euclidean threshold × scale = threshold for this metric
+  distance(a: Coordinates, b: Coordinates): number;
+}
+
+/**
+ * Coupling matrix as rows in L, J, P, W order: COUPLING[i][j] = κ from i to j
+ */
+const COUPLING = (['L', 'J', 'P', 'W'] as const).map((from) =>
+  (['L', 'J', 'P', 'W'] as const).map(
+    (to) => COUPLING_MATRIX[`${from}${to}` as keyof typeof COUPLING_MATRIX]
+  )
+);
+
+export const DISTANCE_METRICS: Record<DistanceMetric, DistanceMetricDefinition> = {
+  euclidean: {
+    name: 'euclidean',
+    description: 'Straight-line distance between the normalized LJPW vectors',
+    thresholdScale: 1,
+    distance: (a, b) => a.distanceTo(b),
+  },
+
+  cosine: {
+    name: 'cosine',
+    description: '1 - cosine similarity: the angle between the profiles, ignoring spread',
+    thresholdScale: 0.65,
+    distance: (a, b) => Math.max(0, 1 - a.cosineSimilarity(b)),
+  },
+
+  'jensen-shannon': {
+    name: 'jensen-shannon',
+    description: 'Jensen-Shannon distance (base 2) between the LJPW distributions',
+    thresholdScale: 0.9,
+    distance: (a, b) => {
+      const p = a.toArray();
+      const q = b.toArray();
+      const m = p.map((value, i) => (value + q[i]) / 2);
+      const divergence = (klDivergence(p, m) + klDivergence(q, m)) / 2;
+      return Math.sqrt(Math.max(0, divergence));
+    },
+  },
+
+  coupling: {
+    name: 'coupling',
+    description:
+      'Mahalanobis-style distance through the coupling matrix: differences between ' +
+      'dimensions that reinforce each other count less than differences in tension',
+    thresholdScale: 0.57,
+    distance: (a, b) => {
+      const q = b.toArray();
+      const diff = a.toArray().map((value, i) => value - q[i]);
+      // ||Cᵀd||, i.e. sqrt(dᵀ C Cᵀ d)
+      const coupled = [0, 1, 2, 3].map((j) =>
+        diff.reduce((sum, value, i) => sum + value * COUPLING[i][j], 0)
+      );
+      return Math.sqrt(coupled.reduce((sum, value) => sum + value * value, 0));
+    },
+  },
+};
+
+/**
+ * Look up a metric by name
+ *
+ * @throws Error for an unknown metric
+ */
+export function getDistanceMetric(name: DistanceMetric = 'euclidean'): DistanceMetricDefinition {
+  if (!Object.prototype.hasOwnProperty.call(DISTANCE_METRICS, name)) {
+    throw new Error(
+      `Unknown distance metric '${name}' (expected ${Object.keys(DISTANCE_METRICS).join(', ')})`
+    );
+  }
+  return DISTANCE_METRICS[name];
+}
+
+/**
+ * KL divergence in bits between two distributions over the same dimensions
+ */
+function klDivergence(p: number[], q: number[]): number {
+  return p.reduce((sum, value, i) => (value > 0 ? sum + value * Math.log2(value / q[i]) : sum), 0);
+}
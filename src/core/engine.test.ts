@@ -0,0 +1,52 @@
+import { Coordinates } from './coordinates';
+import { MAGNITUDE, SemanticEngine } from './engine';
+
+const SEVERITIES = ['excellent', 'low', 'medium', 'high', 'critical'];
+
+describe('SemanticEngine magnitude', () => {
+  const engine = new SemanticEngine();
+  const repeat = (concepts: string[], times: number) =>
+    Array.from({ length: times }, () => concepts).flat();
+
+  it('should keep raw intensity alongside normalized coordinates', () => {
+    const one = engine.analyzeConceptCluster(['save']);
+    const three = engine.analyzeConceptCluster(['save', 'save', 'save']);
+
+    expect(three.coordinates.distanceTo(one.coordinates)).toBeCloseTo(0);
+    expect(three.intensity.power).toBeCloseTo(one.intensity.power * 3);
+  });
+
+  it('should weigh a large mixed body more than a small one with the same profile', () => {
+    const body = ['save', 'delete', 'log', 'validate'];
+    const small = engine.performICEAnalysis(['get', 'user'], [], body);
+    const large = engine.performICEAnalysis(['get', 'user'], [], repeat(body, 20));
+
+    expect(large.disharmony).toBeCloseTo(small.disharmony);
+    expect(small.magnitude.sizeFactor).toBe(1);
+    expect(large.magnitude.sizeFactor).toBeGreaterThan(1);
+    expect(large.magnitude.sizeFactor).toBeLessThanOrEqual(MAGNITUDE.MAX_SIZE_FACTOR);
+    expect(SEVERITIES.indexOf(large.severity)).toBeGreaterThanOrEqual(
+      SEVERITIES.indexOf(small.severity)
+    );
+  });
+
+  it('should base the LJPW baselines on true magnitude', () => {
+    const body = ['save', 'log', 'validate', 'calculate'];
+    const small = engine.performICEAnalysis(['process'], [], body);
+    const large = engine.performICEAnalysis(['process'], [], repeat(body, 5));
+
+    expect(large.baselines!.effectiveness).toBeGreaterThan(small.baselines!.effectiveness);
+    expect(large.baselines!.effectiveness).toBeLessThan(1);
+  });
+
+  it('should assume a typical size when only coordinates are known', () => {
+    const result = engine.analyzeICECoordinates(
+      Coordinates.wisdom(),
+      Coordinates.anchor(),
+      Coordinates.power()
+    );
+
+    expect(result.magnitude).toMatchObject({ sizeFactor: 1, estimated: true });
+    expect(result.magnitude.execution.power).toBe(MAGNITUDE.TYPICAL_EXECUTION);
+  });
+});
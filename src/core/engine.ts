@@ -5,15 +5,23 @@
  * using the LJPW framework and ICE (Intent-Context-Execution) methodology.
  */
 
-import { Coordinates, ICEAnalysisResult, SemanticResult } from './coordinates';
-import { VocabularyManager } from './vocabulary';
+import {
+  Coordinates,
+  DimensionIntensity,
+  ICEAnalysisResult,
+  SemanticResult,
+  TypeSignal,
+} from './coordinates';
+import { DIMENSIONS, VocabularyManager } from './vocabulary';
 import { LJPWBaselines, AbsoluteCoordinates } from './ljpw-baselines';
+import { DistanceMetric, DistanceMetricDefinition, getDistanceMetric } from './distance-metrics';
 
 // Re-export VocabularyManager for convenience
 export { VocabularyManager };
 
 /**
- * Severity thresholds for disharmony scores
+ * Severity thresholds for disharmony scores (Euclidean; other metrics scale
+ * them by their thresholdScale)
  */
 export const DISHARMONY_THRESHOLDS = {
   EXCELLENT: 0.3, // Code says what it means
@@ -23,6 +31,22 @@ export const DISHARMONY_THRESHOLDS = {
   CRITICAL: Infinity, // Beyond high
 } as const;
 
+/**
+ * Scale of raw dimension intensities (summed vocabulary weights), fitted on
+ * this project's own functions: a median body weighs about 9, the 90th
+ * percentile about 30
+ */
+export const MAGNITUDE = {
+  SATURATION: 2, // Intensity at which a dimension is 63% expressed in the baselines
+  TYPICAL_EXECUTION: 8, // Assumed body size when only coordinates are known
+  LARGE_EXECUTION: 24, // Bodies above this get a severity size factor of +0.25 per doubling
+  MAX_SIZE_FACTOR: 1.5,
+} as const;
+
+export interface SemanticEngineOptions {
+  metric?: DistanceMetric; // Intent-execution distance (default: euclidean)
+}
+
 /**
  * SemanticAnalyzer - Analyzes concept clusters and calculates semantic metrics
  */
@@ -70,12 +94,20 @@ export class SemanticAnalyzer {
 
   /**
    * Analyze a cluster of concepts and return semantic result
+   *
+   * @param context - Score the cluster as the Context leg, where role nouns
+   *                  (`UserValidator`, `httpClient`) count too
    */
-  analyzeConceptCluster(concepts: string[], vocabulary: VocabularyManager): SemanticResult {
+  analyzeConceptCluster(
+    concepts: string[],
+    vocabulary: VocabularyManager,
+    context = false
+  ): SemanticResult {
     if (concepts.length === 0) {
       const defaultCoords = Coordinates.anchor();
       return {
         coordinates: defaultCoords,
+        intensity: { love: 0, justice: 0, power: 0, wisdom: 0 },
         clarity: 0,
         dominantDimension: 'wisdom',
         distanceFromAnchor: defaultCoords.distanceFromAnchor(),
@@ -84,13 +116,25 @@ export class SemanticAnalyzer {
     }
 
     // Analyze each concept
-    const coordinatesList = concepts.map((concept) => vocabulary.analyzeText(concept));
+    const coordinatesList = concepts.map((concept) =>
+      context ? vocabulary.analyzeContext(concept) : vocabulary.analyzeText(concept)
+    );
 
     // Calculate centroid
     const centroid = this.calculateCentroid(coordinatesList);
 
+    // Keep the raw weight the centroid normalizes away
+    const intensity = { love: 0, justice: 0, power: 0, wisdom: 0 };
+    for (const concept of concepts) {
+      const counts = context
+        ? vocabulary.countContextDimensions(concept)
+        : vocabulary.countDimensions(concept);
+      DIMENSIONS.forEach((dim) => (intensity[dim] += counts[dim]));
+    }
+
     return {
       coordinates: centroid,
+      intensity,
       clarity: centroid.getSemanticClarity(),
       dominantDimension: centroid.getDominantDimension(),
       distanceFromAnchor: centroid.distanceFromAnchor(),
@@ -109,9 +153,11 @@ export class SemanticAnalyzer {
  */
 export class ICEAnalyzer {
   private analyzer: SemanticAnalyzer;
+  private metric: DistanceMetricDefinition;
 
-  constructor() {
+  constructor(metric: DistanceMetric = 'euclidean') {
     this.analyzer = new SemanticAnalyzer();
+    this.metric = getDistanceMetric(metric);
   }
 
   /**
@@ -130,15 +176,70 @@ export class ICEAnalyzer {
   ): ICEAnalysisResult {
     // Analyze each component
     const intentResult = this.analyzer.analyzeConceptCluster(intentConcepts, vocabulary);
-    const contextResult = this.analyzer.analyzeConceptCluster(contextConcepts, vocabulary);
+    const contextResult = this.analyzer.analyzeConceptCluster(contextConcepts, vocabulary, true);
     const executionResult = this.analyzer.analyzeConceptCluster(executionConcepts, vocabulary);
 
-    const intent = intentResult.coordinates;
-    const context = contextResult.coordinates;
-    const execution = executionResult.coordinates;
+    // Confidence: how much of the name and body the vocabulary actually understood
+    const intentCoverage = vocabulary.analyzeCoverage(intentConcepts);
+    const executionCoverage = vocabulary.analyzeCoverage(executionConcepts);
+    const recognized = new Set([...intentCoverage.recognized, ...executionCoverage.recognized]);
+    const unrecognized = new Set([
+      ...intentCoverage.unrecognized,
+      ...executionCoverage.unrecognized,
+    ]);
+
+    return {
+      ...this.analyzeCoordinates(
+        intentResult.coordinates,
+        contextResult.coordinates,
+        executionResult.coordinates,
+        { intent: intentResult.intensity, execution: executionResult.intensity }
+      ),
+      confidence: Math.min(
+        this.calculateEvidence(intentCoverage),
+        this.calculateEvidence(executionCoverage)
+      ),
+      recognizedTokens: recognized.size,
+      unrecognizedTokens: [...unrecognized],
+    };
+  }
+
+  /**
+   * Evidence for one leg: 0 when no word was recognized (its coordinates are
+   * just the balanced default), otherwise 0.5-1 by the share recognized
+   */
+  private calculateEvidence(coverage: { recognized: string[]; unrecognized: string[] }): number {
+    const { recognized, unrecognized } = coverage;
+    if (recognized.length === 0) {
+      return 0;
+    }
+    return 0.5 + (0.5 * recognized.length) / (recognized.length + unrecognized.length);
+  }
 
+  /**
+   * Perform ICE analysis on already-computed coordinates
+   * (e.g. execution adjusted with the effects of called functions)
+   *
+   * @param intensity - Raw intent and execution intensities; without them a
+   *                    typical-sized function is assumed
+   */
+  analyzeCoordinates(
+    intent: Coordinates,
+    context: Coordinates,
+    execution: Coordinates,
+    intensity?: { intent: DimensionIntensity; execution: DimensionIntensity }
+  ): ICEAnalysisResult {
     // Calculate Intent-Execution distance (primary disharmony metric)
-    const intentExecutionDistance = intent.distanceTo(execution);
+    const intentExecutionDistance = this.metric.distance(intent, execution);
+
+    const magnitude = intensity
+      ? { ...intensity, sizeFactor: this.calculateSizeFactor(intensity.execution) }
+      : {
+          intent: this.estimateIntensity(intent, 1),
+          execution: this.estimateIntensity(execution, MAGNITUDE.TYPICAL_EXECUTION),
+          sizeFactor: 1,
+          estimated: true,
+        };
 
     // Calculate ICE coherence (how well all three align)
     const iceCoherence = this.calculateICECoherence(intent, context, execution);
@@ -149,11 +250,11 @@ export class ICEAnalyzer {
     // Calculate benevolence score (measure of positive intent)
     const benevolenceScore = this.calculateBenevolenceScore(intent, execution);
 
-    // Determine severity
-    const severity = this.calculateSeverity(intentExecutionDistance);
+    // Determine severity, weighing large bodies more
+    const severity = this.calculateSeverity(intentExecutionDistance * magnitude.sizeFactor);
 
     // Calculate LJPW Mathematical Baselines
-    const baselines = this.calculateBaselines(execution);
+    const baselines = this.calculateBaselines(magnitude.execution);
 
     return {
       intent,
@@ -164,6 +265,8 @@ export class ICEAnalyzer {
       iceBalance,
       benevolenceScore,
       disharmony: intentExecutionDistance,
+      magnitude,
+      metric: this.metric.name,
       severity,
       baselines,
     };
@@ -224,28 +327,53 @@ export class ICEAnalyzer {
    * Determine severity level based on disharmony score
    */
   private calculateSeverity(disharmony: number): ICEAnalysisResult['severity'] {
-    if (disharmony <= DISHARMONY_THRESHOLDS.EXCELLENT) return 'excellent';
-    if (disharmony <= DISHARMONY_THRESHOLDS.LOW) return 'low';
-    if (disharmony <= DISHARMONY_THRESHOLDS.MEDIUM) return 'medium';
-    if (disharmony <= DISHARMONY_THRESHOLDS.HIGH) return 'high';
+    const scale = this.metric.thresholdScale;
+    if (disharmony <= DISHARMONY_THRESHOLDS.EXCELLENT * scale) return 'excellent';
+    if (disharmony <= DISHARMONY_THRESHOLDS.LOW * scale) return 'low';
+    if (disharmony <= DISHARMONY_THRESHOLDS.MEDIUM * scale) return 'medium';
+    if (disharmony <= DISHARMONY_THRESHOLDS.HIGH * scale) return 'high';
     return 'critical';
   }
 
   /**
-   * Calculate LJPW Mathematical Baselines for the execution coordinates
+   * Severity multiplier for the size of the body: 1 up to LARGE_EXECUTION,
+   * then +0.25 per doubling, capped at MAX_SIZE_FACTOR
+   */
+  private calculateSizeFactor(execution: DimensionIntensity): number {
+    const total = DIMENSIONS.reduce((sum, dim) => sum + execution[dim], 0);
+    if (total <= MAGNITUDE.LARGE_EXECUTION) return 1;
+    return Math.min(
+      MAGNITUDE.MAX_SIZE_FACTOR,
+      1 + 0.25 * Math.log2(total / MAGNITUDE.LARGE_EXECUTION)
+    );
+  }
+
+  /**
+   * Intensities for coordinates whose raw counts are unknown
+   */
+  private estimateIntensity(coordinates: Coordinates, total: number): DimensionIntensity {
+    return {
+      love: coordinates.love * total,
+      justice: coordinates.justice * total,
+      power: coordinates.power * total,
+      wisdom: coordinates.wisdom * total,
+    };
+  }
+
+  /**
+   * Calculate LJPW Mathematical Baselines for the execution intensity
    *
-   * Note: We use execution coordinates as the primary measure of code quality,
-   * since that's what the code actually does (vs what it promises to do).
+   * Note: We use execution as the primary measure of code quality, since
+   * that's what the code actually does (vs what it promises to do).
    */
-  private calculateBaselines(execution: Coordinates): ICEAnalysisResult['baselines'] {
-    // Convert normalized coordinates to absolute coordinates
-    // The Coordinates class normalizes to sum=1.0, but baselines use absolute values
-    // We scale back up by 4 to get meaningful absolute values
+  private calculateBaselines(execution: DimensionIntensity): ICEAnalysisResult['baselines'] {
+    // Absolute coordinates saturate with magnitude: none is 0, a couple of
+    // words about 0.6, and the anchor (1) is a fully expressed dimension
     const absoluteCoords: AbsoluteCoordinates = {
-      love: execution.love * 4,
-      justice: execution.justice * 4,
-      power: execution.power * 4,
-      wisdom: execution.wisdom * 4,
+      love: 1 - Math.exp(-execution.love / MAGNITUDE.SATURATION),
+      justice: 1 - Math.exp(-execution.justice / MAGNITUDE.SATURATION),
+      power: 1 - Math.exp(-execution.power / MAGNITUDE.SATURATION),
+      wisdom: 1 - Math.exp(-execution.wisdom / MAGNITUDE.SATURATION),
     };
 
     const compositeScore = LJPWBaselines.compositeScore(absoluteCoords);
@@ -269,32 +397,58 @@ export class SemanticEngine {
   private vocabulary: VocabularyManager;
   private semanticAnalyzer: SemanticAnalyzer;
   private iceAnalyzer: ICEAnalyzer;
+  private metric: DistanceMetricDefinition;
 
   /**
    * The Anchor Point - represents perfect logical harmony (1,1,1,1)
    */
   readonly ANCHOR_POINT = Coordinates.anchor();
 
-  constructor(customVocabulary?: Record<string, any>) {
-    this.vocabulary = new VocabularyManager(customVocabulary);
+  constructor(
+    customVocabulary?: Record<string, any> | VocabularyManager,
+    options: SemanticEngineOptions = {}
+  ) {
+    // Accept a shared VocabularyManager so parser and engine see the same words
+    this.vocabulary =
+      customVocabulary instanceof VocabularyManager
+        ? customVocabulary
+        : new VocabularyManager(customVocabulary);
     this.semanticAnalyzer = new SemanticAnalyzer();
-    this.iceAnalyzer = new ICEAnalyzer();
+    this.metric = getDistanceMetric(options.metric);
+    this.iceAnalyzer = new ICEAnalyzer(this.metric.name);
   }
 
   /**
    * Perform ICE analysis (main analysis method)
+   *
+   * @param typeSignals - Type annotation evidence already included in the concepts,
+   *                      attached to the result so it can be explained
    */
   performICEAnalysis(
     intentConcepts: string[],
     contextConcepts: string[],
-    executionConcepts: string[]
+    executionConcepts: string[],
+    typeSignals?: TypeSignal[]
   ): ICEAnalysisResult {
-    return this.iceAnalyzer.performICEAnalysis(
+    const result = this.iceAnalyzer.performICEAnalysis(
       intentConcepts,
       contextConcepts,
       executionConcepts,
       this.vocabulary
     );
+    return typeSignals?.length ? { ...result, typeSignals } : result;
+  }
+
+  /**
+   * Perform ICE analysis on precomputed Intent, Context and Execution coordinates
+   */
+  analyzeICECoordinates(
+    intent: Coordinates,
+    context: Coordinates,
+    execution: Coordinates,
+    intensity?: { intent: DimensionIntensity; execution: DimensionIntensity }
+  ): ICEAnalysisResult {
+    return this.iceAnalyzer.analyzeCoordinates(intent, context, execution, intensity);
   }
 
   /**
@@ -318,6 +472,13 @@ export class SemanticEngine {
     return this.vocabulary;
   }
 
+  /**
+   * Get the intent-execution distance metric
+   */
+  getMetric(): DistanceMetricDefinition {
+    return this.metric;
+  }
+
   /**
    * Calculate semantic similarity between two text strings
    * Returns 0 (completely different) to 1 (identical meaning)
@@ -336,7 +497,7 @@ export class SemanticEngine {
   isHarmonious(
     functionName: string,
     implementationConcepts: string[],
-    threshold: number = DISHARMONY_THRESHOLDS.EXCELLENT
+    threshold: number = this.getThreshold('excellent')
   ): boolean {
     const intent = this.analyzeText(functionName);
     const execution = this.semanticAnalyzer.analyzeConceptCluster(
@@ -344,15 +505,18 @@ export class SemanticEngine {
       this.vocabulary
     );
 
-    const disharmony = intent.distanceTo(execution.coordinates);
+    const disharmony = this.metric.distance(intent, execution.coordinates);
     return disharmony <= threshold;
   }
 
   /**
-   * Get disharmony threshold for a severity level
+   * Get disharmony threshold for a severity level, scaled to the metric
    */
   getThreshold(severity: 'excellent' | 'low' | 'medium' | 'high'): number {
-    return DISHARMONY_THRESHOLDS[severity.toUpperCase() as keyof typeof DISHARMONY_THRESHOLDS];
+    return (
+      DISHARMONY_THRESHOLDS[severity.toUpperCase() as keyof typeof DISHARMONY_THRESHOLDS] *
+      this.metric.thresholdScale
+    );
   }
 
   /**
@@ -0,0 +1,68 @@
+import {
+  calculateDirectionalPenalty,
+  DEFAULT_PENALTY_MATRIX,
+  resolvePenaltyMatrix,
+} from './penalty-matrix';
+import { ConfigLoader } from '../config/config-loader';
+
+describe('penalty matrix', () => {
+  it('should rank hidden mutation above extra logging at the same distance', () => {
+    // Wisdom-named, executes Power
+    const hiddenMutation = calculateDirectionalPenalty({
+      love: 0,
+      justice: 0,
+      power: 0.6,
+      wisdom: -0.6,
+    });
+    // Power-named, also logs
+    const extraLogging = calculateDirectionalPenalty({
+      love: 0.6,
+      justice: 0,
+      power: -0.6,
+      wisdom: 0,
+    });
+
+    expect(hiddenMutation.multiplier).toBeCloseTo(DEFAULT_PENALTY_MATRIX.wisdom.power);
+    expect(extraLogging.multiplier).toBeCloseTo(DEFAULT_PENALTY_MATRIX.power.love);
+    expect(hiddenMutation.multiplier).toBeGreaterThan(extraLogging.multiplier);
+  });
+
+  it('should share each shortfall over the surpluses in proportion', () => {
+    const { multiplier, drifts } = calculateDirectionalPenalty({
+      love: 0.1,
+      justice: 0,
+      power: 0.3,
+      wisdom: -0.4,
+    });
+
+    expect(drifts.map(({ from, to, amount }) => [from, to, amount])).toEqual([
+      ['wisdom', 'power', expect.closeTo(0.3, 10)],
+      ['wisdom', 'love', expect.closeTo(0.1, 10)],
+    ]);
+    expect(multiplier).toBeCloseTo((0.3 * 1.5 + 0.1 * 0.9) / 0.4);
+  });
+
+  it('should be neutral without drift', () => {
+    const result = calculateDirectionalPenalty({ love: 0, justice: 0, power: 0, wisdom: 0 });
+
+    expect(result).toEqual({ multiplier: 1, drifts: [] });
+  });
+
+  it('should fill overrides in over the defaults', () => {
+    const matrix = resolvePenaltyMatrix({ justice: { power: 2 } });
+
+    expect(matrix.justice).toEqual({ ...DEFAULT_PENALTY_MATRIX.justice, power: 2 });
+    expect(matrix.wisdom).toEqual(DEFAULT_PENALTY_MATRIX.wisdom);
+  });
+
+  it('should reject unknown dimensions and negative penalties in config', () => {
+    const { errors } = ConfigLoader.validateConfig({
+      analysis: { penaltyMatrix: { wisdom: { power: -1 }, speed: { love: 1 } } as never },
+    });
+
+    expect(errors).toEqual([
+      'analysis.penaltyMatrix.wisdom.power must be a non-negative number',
+      'analysis.penaltyMatrix.speed.love: rows and columns must be love, justice, power or wisdom',
+    ]);
+  });
+});
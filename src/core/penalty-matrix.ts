@@ -0,0 +1,116 @@
+/**
+ * Directional penalties for intent-execution drift
+ *
+ * Distance treats every mismatch alike, but direction matters: a Wisdom-named
+ * function that executes Power (`getUser` deleting rows) hides a mutation from
+ * its callers, while a Power-named function that also reads or logs just does
+ * a little more than it says. The penalty matrix weights drift from each
+ * intent dimension (row) to each execution dimension (column); 1 is neutral.
+ *
+ * Drift is read from the trajectory deltas: dimensions where execution falls
+ * short of intent are what the name promised, dimensions where it exceeds
+ * intent are what the body does instead. Each shortfall is shared out over
+ * the surpluses in proportion to their size.
+ */
+
+import { Dimension, DIMENSIONS } from './vocabulary';
+
+export type PenaltyMatrix = Record<Dimension, Record<Dimension, number>>;
+
+/**
+ * Configured overrides: any subset of rows and cells
+ */
+export type PenaltyMatrixConfig = Partial<Record<Dimension, Partial<Record<Dimension, number>>>>;
+
+export const DEFAULT_PENALTY_MATRIX: PenaltyMatrix = {
+  love: { love: 1, justice: 0.8, power: 1.2, wisdom: 0.7 },
+  justice: { love: 1, justice: 1, power: 1.4, wisdom: 0.7 },
+  power: { love: 0.6, justice: 0.6, power: 1, wisdom: 0.6 },
+  wisdom: { love: 0.9, justice: 0.8, power: 1.5, wisdom: 1 },
+};
+
+/**
+ * What drift from one dimension to another usually means in code
+ */
+export const DRIFT_DESCRIPTIONS: Record<Dimension, Partial<Record<Dimension, string>>> = {
+  love: {
+    justice: 'communication that also validates',
+    power: 'communication that also mutates state',
+    wisdom: 'communication that also computes',
+  },
+  justice: {
+    love: 'validation that also communicates',
+    power: 'validation with side effects',
+    wisdom: 'validation that also computes',
+  },
+  power: {
+    love: 'extra logging or notification',
+    justice: 'checks before acting',
+    wisdom: 'reads before writing',
+  },
+  wisdom: {
+    love: 'a query that also communicates',
+    justice: 'a query that also validates',
+    power: 'hidden mutation behind a query name',
+  },
+};
+
+export interface DirectionalDrift {
+  from: Dimension; // Intent dimension the execution falls short on
+  to: Dimension; // Execution dimension it goes to instead
+  amount: number;
+  penalty: number;
+}
+
+export interface DirectionalPenalty {
+  multiplier: number; // Drift-weighted average penalty, applied to the disharmony
+  drifts: DirectionalDrift[]; // Largest weighted drift first
+}
+
+/**
+ * Fill configured overrides in over the default matrix
+ */
+export function resolvePenaltyMatrix(overrides: PenaltyMatrixConfig = {}): PenaltyMatrix {
+  return Object.fromEntries(
+    DIMENSIONS.map((from) => [from, { ...DEFAULT_PENALTY_MATRIX[from], ...overrides[from] }])
+  ) as PenaltyMatrix;
+}
+
+/**
+ * Split per-dimension deltas (execution - intent) into drifts from each
+ * dimension execution falls short on to each dimension it exceeds, largest first
+ */
+export function splitDrift(
+  deltas: Record<Dimension, number>
+): Array<Omit<DirectionalDrift, 'penalty'>> {
+  const surplus = DIMENSIONS.filter((dim) => deltas[dim] > 0);
+  const totalSurplus = surplus.reduce((sum, dim) => sum + deltas[dim], 0);
+
+  return DIMENSIONS.filter((dim) => deltas[dim] < 0)
+    .flatMap((from) =>
+      surplus.map((to) => ({ from, to, amount: (-deltas[from] * deltas[to]) / totalSurplus }))
+    )
+    .sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Weigh the drift described by per-dimension deltas (execution - intent).
+ * Without drift the multiplier is 1.
+ */
+export function calculateDirectionalPenalty(
+  deltas: Record<Dimension, number>,
+  matrix: PenaltyMatrix = DEFAULT_PENALTY_MATRIX
+): DirectionalPenalty {
+  const drifts: DirectionalDrift[] = splitDrift(deltas).map((drift) => ({
+    ...drift,
+    penalty: matrix[drift.from][drift.to],
+  }));
+
+  const total = drifts.reduce((sum, drift) => sum + drift.amount, 0);
+  const weighted = drifts.reduce((sum, drift) => sum + drift.amount * drift.penalty, 0);
+
+  return {
+    multiplier: total > 1e-9 ? weighted / total : 1,
+    drifts: drifts.sort((a, b) => b.amount * b.penalty - a.amount * a.penalty),
+  };
+}
@@ -0,0 +1,84 @@
+import { Lemmatizer, tokenizeIdentifier } from './tokenizer';
+import { VocabularyManager } from './vocabulary';
+
+describe('tokenizeIdentifier', () => {
+  it('should split camelCase, acronyms, separators and digits', () => {
+    expect(tokenizeIdentifier('parseHTTPResponse')).toEqual(['parse', 'http', 'response']);
+    expect(tokenizeIdentifier('XMLParser')).toEqual(['xml', 'parser']);
+    expect(tokenizeIdentifier('get_user-by_id')).toEqual(['get', 'user', 'by', 'id']);
+    expect(tokenizeIdentifier('init2Cache')).toEqual(['init', 'cache']);
+  });
+});
+
+describe('Lemmatizer', () => {
+  it('should propose the word itself first', () => {
+    expect(new Lemmatizer().candidates('validating')[0]).toBe('validating');
+  });
+
+  it('should honour custom abbreviations over the defaults', () => {
+    const lemmatizer = new Lemmatizer({ txn: 'transaction', res: 'resource' });
+
+    expect(lemmatizer.candidates('txn')).toContain('transaction');
+    expect(lemmatizer.candidates('res')).toContain('resource');
+    expect(lemmatizer.candidates('res')).not.toContain('response');
+  });
+});
+
+describe('VocabularyManager morphology', () => {
+  const vocab = new VocabularyManager();
+
+  it('should resolve inflections and derivations to their base verb', () => {
+    for (const word of ['validates', 'validated', 'validating']) {
+      expect([word, vocab.getLemma(word)]).toEqual([word, 'validate']);
+    }
+    expect(vocab.getLemma('calculation')).toBe('calculate');
+    expect(vocab.getLemma('deletion')).toBe('delete');
+    expect(vocab.getLemma('stopped')).toBe('stop');
+    expect(vocab.getLemma('emitted')).toBe('emit');
+  });
+
+  it('should strip re-, pre- and un- prefixes', () => {
+    expect(vocab.getLemma('revalidate')).toBe('validate');
+    expect(vocab.getLemma('preload')).toBe('load');
+    expect(vocab.getLemma('unpublished')).toBe('publish');
+    expect(vocab.getDimension('preload')).toBe('wisdom');
+  });
+
+  it('should only accept a stripped form that is a verb', () => {
+    for (const word of ['letters', 'retry', 'recall', 'recalled', 'preview']) {
+      expect([word, vocab.getLemma(word)]).toEqual([word, null]);
+    }
+    expect(vocab.lookupWord('preview')).toBeNull();
+    expect(vocab.getLemma('retries')).toBeNull();
+  });
+
+  it('should never respell a word into a keyword or an unknown form', () => {
+    for (const word of ['four', 'your', 'promise']) {
+      expect([word, vocab.lookupWord(word)]).toEqual([word, null]);
+    }
+    expect(vocab.getContextWeights('four')).toBeNull();
+  });
+
+  it('should expand abbreviations and fold British spellings', () => {
+    expect(vocab.getLemma('calc')).toBe('calculate');
+    expect(vocab.getLemma('rm')).toBe('remove');
+    expect(vocab.getLemma('del')).toBe('delete');
+    expect(vocab.getLemma('normalise')).toBe('normalize');
+    expect(vocab.getLemma('analyse')).toBe('analyze');
+  });
+
+  it('should prefer an exact entry over a derived one', () => {
+    expect(vocab.getLemma('render')).toBe('render');
+    expect(vocab.getLemma('zzzqx')).toBeNull();
+  });
+
+  it('should use configured abbreviations', () => {
+    const custom = new VocabularyManager(
+      { transaction: 'justice' },
+      { abbreviations: { txn: 'transaction' } }
+    );
+
+    expect(custom.getDimension('txn')).toBe('justice');
+    expect(custom.analyzeText('commitTxn').toObject().justice).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Identifier tokenizer and lemmatizer
+ *
+ * Splits identifiers into lowercase words and reduces inflected, prefixed,
+ * abbreviated or British-spelled words to base forms the vocabulary knows:
+ * `parseHTTPResponse` → parse, http, response; `revalidated` → validate;
+ * `cfg` → config; `normalise` → normalize.
+ */
+
+/**
+ * Common programming abbreviations and their expansions
+ */
+export const DEFAULT_ABBREVIATIONS: Record<string, string> = {
+  arg: 'argument',
+  args: 'arguments',
+  arr: 'array',
+  attr: 'attribute',
+  auth: 'authenticate',
+  btn: 'button',
+  calc: 'calculate',
+  cb: 'callback',
+  cfg: 'config',
+  cmd: 'command',
+  cnt: 'count',
+  conf: 'config',
+  conn: 'connect',
+  conv: 'convert',
+  ctx: 'context',
+  db: 'database',
+  del: 'delete',
+  dest: 'destination',
+  dst: 'destination',
+  elem: 'element',
+  env: 'environment',
+  err: 'error',
+  eval: 'evaluate',
+  exec: 'execute',
+  fmt: 'format',
+  fn: 'function',
+  gen: 'generate',
+  idx: 'index',
+  impl: 'implement',
+  info: 'information',
+  init: 'initialize',
+  len: 'length',
+  mgr: 'manager',
+  msg: 'message',
+  num: 'number',
+  obj: 'object',
+  param: 'parameter',
+  params: 'parameters',
+  prev: 'previous',
+  proc: 'process',
+  repo: 'repository',
+  req: 'request',
+  res: 'response',
+  rm: 'remove',
+  src: 'source',
+  str: 'string',
+  tmp: 'temporary',
+  upd: 'update',
+  util: 'utility',
+  val: 'value',
+  verif: 'verify',
+};
+
+/**
+ * Words that carry no meaning of their own; not counted as unrecognized when
+ * measuring vocabulary coverage
+ */
+export const STOP_WORDS = new Set([
+  // Function words
+  'a',
+  'an',
+  'and',
+  'as',
+  'at',
+  'be',
+  'by',
+  'can',
+  'for',
+  'from',
+  'has',
+  'in',
+  'into',
+  'is',
+  'it',
+  'its',
+  'of',
+  'on',
+  'or',
+  'the',
+  'this',
+  'to',
+  'with',
+  // Structural markers the parser emits next to a mapped synonym
+  'assign',
+  'callback',
+  'conditional',
+  'loop',
+]);
+
+/**
+ * Prefixes that keep a verb's meaning (revalidate, preload, unpublish)
+ */
+const PREFIXES = ['re', 'pre', 'un'];
+
+/**
+ * Words that only look prefixed: stripping them lands on an unrelated verb
+ * (recall is not calling again, preview is not viewing)
+ */
+const NOT_PREFIXED = new Set([
+  'prefix',
+  'present',
+  'preview',
+  'recall',
+  'recollect',
+  'resort',
+  'retry',
+]);
+
+/**
+ * Suffixes and the endings to try in their place, longest first
+ */
+const SUFFIX_RULES: Array<[string, string[]]> = [
+  ['ications', ['y']],
+  ['ication', ['y']],
+  ['ations', ['ate', 'e', '']],
+  ['ation', ['ate', 'e', '']],
+  ['ments', ['']],
+  ['ment', ['']],
+  ['ings', ['', 'e']],
+  ['ing', ['', 'e']],
+  ['ions', ['e', '']],
+  ['ion', ['e', '']],
+  ['able', ['', 'e']],
+  ['ible', ['', 'e']],
+  ['ers', ['e', '']],
+  ['ors', ['e', '']],
+  ['ies', ['y']],
+  ['ied', ['y']],
+  ['er', ['e', '']],
+  ['or', ['e', '']],
+  ['ed', ['', 'e']],
+  ['es', ['']],
+  ['al', ['e', '']],
+  ['s', ['']],
+];
+
+/**
+ * British spellings folded to American ones
+ */
+const SPELLING_RULES: Array<[RegExp, string]> = [
+  [/isation/, 'ization'],
+  [/is(e|es|ed|er|ers|ing)$/, 'iz$1'],
+  [/ys(e|es|ed|er|ers|ing)$/, 'yz$1'],
+  [/our(s?)$/, 'or$1'],
+  [/ence$/, 'ense'],
+  [/tre$/, 'ter'],
+  [/ogue$/, 'og'],
+];
+
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Split an identifier or phrase into lowercase words: camelCase, PascalCase,
+ * snake_case, kebab-case, acronyms (HTTPResponse → http, response) and
+ * letter/digit boundaries (init2 → init). Purely numeric parts are dropped.
+ */
+export function tokenizeIdentifier(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .replace(/([A-Za-z])(\d)/g, '$1 $2')
+    .replace(/(\d)([A-Za-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word.length > 0 && !/^\d+$/.test(word))
+    .map((word) => word.toLowerCase());
+}
+
+/**
+ * Lemmatizer - Proposes base forms for a word
+ */
+export class Lemmatizer {
+  private abbreviations: Map<string, string>;
+
+  /**
+   * @param abbreviations - Extra abbreviations; these override the defaults
+   */
+  constructor(abbreviations: Record<string, string> = {}) {
+    this.abbreviations = new Map(
+      Object.entries({ ...DEFAULT_ABBREVIATIONS, ...abbreviations }).map(([short, long]) => [
+        short.toLowerCase(),
+        long.toLowerCase(),
+      ])
+    );
+  }
+
+  /**
+   * Candidate base forms of a lowercase word, most literal first. The word
+   * itself is always the first candidate.
+   */
+  candidates(word: string): string[] {
+    const results: string[] = [];
+    const add = (candidate: string) => {
+      if (!results.includes(candidate)) results.push(candidate);
+    };
+
+    const expand = (base: string) => {
+      for (const form of [base, ...this.stems(base)]) {
+        add(form);
+        const expanded = this.abbreviations.get(form);
+        if (expanded) add(expanded);
+      }
+    };
+
+    expand(word);
+
+    const folded = this.fold(word);
+    if (folded !== word) expand(folded);
+
+    const lexicalized = [word, ...this.stems(word)].some((base) => NOT_PREFIXED.has(base));
+    for (const prefix of lexicalized ? [] : PREFIXES) {
+      const rest = word.slice(prefix.length);
+      if (word.startsWith(prefix) && rest.length >= MIN_STEM_LENGTH) {
+        expand(rest);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Whether a candidate was reached by stripping a suffix or prefix or by
+   * respelling, rather than being the word itself or its expansion
+   */
+  isDerived(word: string, candidate: string): boolean {
+    return candidate !== word && candidate !== this.abbreviations.get(word);
+  }
+
+  /**
+   * The first candidate accepted by `isKnown`, or null
+   */
+  lemmatize(word: string, isKnown: (candidate: string) => boolean): string | null {
+    return this.candidates(word).find(isKnown) ?? null;
+  }
+
+  /**
+   * American spelling of a British-spelled word
+   */
+  private fold(word: string): string {
+    return SPELLING_RULES.reduce(
+      (w, [pattern, replacement]) => w.replace(pattern, replacement),
+      word
+    );
+  }
+
+  /**
+   * Stems from stripping one inflectional or derivational suffix
+   */
+  private stems(word: string): string[] {
+    const stems: string[] = [];
+
+    for (const [suffix, endings] of SUFFIX_RULES) {
+      if (!word.endsWith(suffix)) continue;
+      const stem = word.slice(0, -suffix.length);
+      if (stem.length < MIN_STEM_LENGTH - 1) continue;
+
+      for (const ending of endings) {
+        const candidate = stem + ending;
+        if (candidate.length >= MIN_STEM_LENGTH) stems.push(candidate);
+      }
+      // mapped → map, running → run
+      if (/([b-df-hj-np-tv-z])\1$/.test(stem) && stem.length > MIN_STEM_LENGTH) {
+        stems.push(stem.slice(0, -1));
+      }
+    }
+
+    return stems;
+  }
+}
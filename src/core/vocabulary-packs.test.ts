@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BUNDLED_PACKS, loadVocabularyPack } from './vocabulary-packs';
+import { VocabularyManager } from './vocabulary';
+import { ConfigLoader } from '../config/config-loader';
+
+describe('vocabulary packs', () => {
+  it('should add bundled domain words to the vocabulary', () => {
+    const plain = new VocabularyManager();
+    const vocab = new VocabularyManager(undefined, {
+      packs: [BUNDLED_PACKS['data-access'], BUNDLED_PACKS.react],
+    });
+
+    expect(plain.getDimension('upsert')).toBeNull();
+    expect(vocab.getDimension('upsert')).toBe('power');
+    expect(vocab.getDimension('upserted')).toBe('power');
+    expect(vocab.analyzeText('useEffect').toObject().power).toBeGreaterThan(0);
+  });
+
+  it('should match compounds over adjacent words of an identifier', () => {
+    const plain = new VocabularyManager();
+    const vocab = new VocabularyManager(undefined, {
+      packs: [BUNDLED_PACKS.react, BUNDLED_PACKS.testing],
+    });
+
+    expect(plain.countDimensions('useEffect')).toEqual({
+      love: 0,
+      justice: 0,
+      power: 0,
+      wisdom: 0,
+    });
+    expect(vocab.countDimensions('useEffect')).toEqual({
+      love: 0,
+      justice: 0,
+      power: 1,
+      wisdom: 0,
+    });
+    expect(vocab.countDimensions('useStateOnce').wisdom).toBe(1);
+    expect(vocab.analyzeCoverage(['beforeEach', 'toHaveBeenCalled']).recognized).toEqual([
+      'before_each',
+      'to_have_been_called',
+    ]);
+  });
+
+  it('should not conflict with each other or the built-in vocabulary', () => {
+    const vocab = new VocabularyManager(undefined, { packs: Object.values(BUNDLED_PACKS) });
+
+    expect(vocab.getWarnings()).toEqual([]);
+  });
+
+  it('should apply custom > later pack > earlier pack > built-in, warning on conflicts', () => {
+    const vocab = new VocabularyManager(
+      { enqueue: 'love' },
+      {
+        packs: [
+          { name: 'first', verbs: { upsert: 'power', get: 'power' } },
+          {
+            name: 'second',
+            verbs: { upsert: 'justice', enqueue: 'wisdom', bogus: 'speed' as never },
+          },
+        ],
+      }
+    );
+
+    expect(vocab.getDimension('upsert')).toBe('justice');
+    expect(vocab.getDimension('enqueue')).toBe('love');
+    expect(vocab.getWarnings()).toEqual([
+      "Pack 'first' maps 'get' to power, overriding the built-in vocabulary (wisdom)",
+      "Pack 'second' maps 'upsert' to justice, overriding pack 'first' (power)",
+      "Pack 'second' has an invalid entry for 'bogus'",
+    ]);
+  });
+
+  describe('loading', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'harmonizer-packs-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load packs by name or path, relative to the config file', () => {
+      fs.writeFileSync(
+        path.join(dir, 'billing.json'),
+        JSON.stringify({ verbs: { invoice: 'power' } })
+      );
+      fs.writeFileSync(
+        path.join(dir, '.harmonizerrc.json'),
+        JSON.stringify({ vocabulary: { packs: ['redux', './billing.json'] } })
+      );
+
+      const specs = ConfigLoader.loadConfig(dir).vocabulary?.packs ?? [];
+      const packs = specs.map((spec) => loadVocabularyPack(spec));
+
+      expect(specs[1]).toBe(path.join(dir, 'billing.json'));
+      expect(packs.map((pack) => pack.name)).toEqual(['redux', 'billing']);
+    });
+
+    it('should load TypeScript packs', () => {
+      fs.writeFileSync(
+        path.join(dir, 'billing.ts'),
+        "const verbs: Record<string, string> = { invoice: 'power' };\nexport default { verbs };\n"
+      );
+
+      expect(loadVocabularyPack('./billing.ts', dir)).toEqual({
+        name: 'billing',
+        verbs: { invoice: 'power' },
+      });
+    });
+
+    it('should reject unknown packs', () => {
+      expect(() => loadVocabularyPack('angular')).toThrow(/Unknown vocabulary pack 'angular'/);
+      expect(() => loadVocabularyPack('./missing.json', dir)).toThrow(/not found/);
+
+      fs.writeFileSync(path.join(dir, 'billing.yaml'), 'verbs: {}');
+      expect(() => loadVocabularyPack('./billing.yaml', dir)).toThrow(/must be a .json, .js/);
+    });
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Vocabulary packs
+ *
+ * Domain vocabularies that can be switched on with `vocabulary.packs` in
+ * .harmonizerrc. A pack is either one of the bundled packs below (by name) or
+ * a JSON/JS/TS module exporting the same shape (by path).
+ *
+ * Precedence, highest first: `vocabulary.custom`, packs (later packs win over
+ * earlier ones), then the built-in vocabulary.
+ */
+
+import * as fs from 'fs';
+import { createRequire } from 'module';
+import * as path from 'path';
+import { VocabularyEntry } from './vocabulary';
+
+/**
+ * A domain vocabulary. Every section maps words to a dimension or a weighted
+ * distribution; the sections only differ in how the word is reported.
+ */
+export interface VocabularyPack {
+  name: string;
+  description?: string;
+  verbs?: Record<string, VocabularyEntry>;
+  compounds?: Record<string, VocabularyEntry>; // snake_case phrases, e.g. use_effect
+  keywords?: Record<string, VocabularyEntry>; // Framework nouns and identifiers
+}
+
+/**
+ * Packs shipped with the harmonizer
+ */
+export const BUNDLED_PACKS: Record<string, VocabularyPack> = {
+  react: {
+    name: 'react',
+    description: 'React components and hooks',
+    verbs: {
+      use: { wisdom: 0.6, love: 0.4 },
+      memo: 'wisdom',
+      memoize: 'wisdom',
+      mount: { power: 0.6, love: 0.4 },
+      unmount: 'power',
+      hydrate: { power: 0.6, wisdom: 0.4 },
+      rerender: { love: 0.6, power: 0.4 },
+      forward: 'love',
+      toggle: 'power',
+    },
+    compounds: {
+      use_state: 'wisdom',
+      use_ref: 'wisdom',
+      use_memo: 'wisdom',
+      use_effect: 'power',
+      use_layout_effect: 'power',
+      use_reducer: 'power',
+      use_callback: 'love',
+      use_context: 'love',
+      set_state: 'power',
+    },
+    keywords: {
+      state: 'wisdom',
+      ref: 'wisdom',
+      effect: 'power',
+      props: 'love',
+      children: 'love',
+      component: 'love',
+      hook: 'love',
+    },
+  },
+
+  redux: {
+    name: 'redux',
+    description: 'Redux stores, reducers and middleware',
+    verbs: {
+      reduce: { power: 0.6, wisdom: 0.4 },
+      combine: 'love',
+      replay: 'power',
+      undo: 'power',
+      redo: 'power',
+    },
+    compounds: {
+      create_store: 'power',
+      create_slice: 'justice',
+      create_action: 'power',
+      combine_reducers: 'love',
+      map_state_to_props: 'love',
+      map_dispatch_to_props: 'love',
+    },
+    keywords: {
+      action: 'power',
+      payload: 'wisdom',
+      state: 'wisdom',
+      slice: 'justice',
+      thunk: 'power',
+      saga: 'power',
+      epic: 'power',
+    },
+  },
+
+  express: {
+    name: 'express',
+    description: 'Express/Node HTTP servers',
+    verbs: {
+      route: 'love',
+      respond: 'love',
+      reply: 'love',
+      redirect: 'love',
+      serve: 'love',
+      proxy: 'love',
+      next: 'love',
+    },
+    compounds: {
+      send_json: 'love',
+      send_status: 'love',
+      send_file: 'love',
+      use_middleware: 'love',
+      handle_request: 'love',
+    },
+    keywords: {
+      router: 'love',
+      endpoint: 'love',
+      server: 'love',
+      cors: 'justice',
+      session: 'wisdom',
+      cookie: 'wisdom',
+    },
+  },
+
+  testing: {
+    name: 'testing',
+    description: 'Jest, Mocha and Vitest suites',
+    verbs: {
+      describe: 'wisdom',
+      mock: 'power',
+      stub: 'power',
+      spy: 'wisdom',
+      setup: 'power',
+      teardown: 'power',
+      should: 'justice',
+    },
+    compounds: {
+      before_each: 'power',
+      after_each: 'power',
+      before_all: 'power',
+      after_all: 'power',
+      to_equal: 'justice',
+      to_be: 'justice',
+      to_throw: 'justice',
+      to_have_been_called: 'justice',
+    },
+    keywords: {
+      fixture: 'wisdom',
+      snapshot: 'wisdom',
+      suite: 'justice',
+      spec: 'justice',
+      expectation: 'justice',
+    },
+  },
+
+  'data-access': {
+    name: 'data-access',
+    description: 'Databases, ORMs, queues and migrations',
+    verbs: {
+      upsert: 'power',
+      enqueue: 'power',
+      dequeue: { power: 0.6, wisdom: 0.4 },
+      migrate: 'power',
+      seed: 'power',
+      commit: 'power',
+      rollback: { power: 0.6, justice: 0.4 },
+      truncate: 'power',
+      flush: 'power',
+      hydrate: { power: 0.6, wisdom: 0.4 },
+      paginate: 'wisdom',
+      populate: { wisdom: 0.6, power: 0.4 },
+    },
+    compounds: {
+      find_one: 'wisdom',
+      find_or_create: 'power',
+      bulk_insert: 'power',
+      begin_transaction: 'justice',
+    },
+    keywords: {
+      transaction: 'justice',
+      migration: 'power',
+      schema: 'justice',
+      cursor: 'wisdom',
+      row: 'wisdom',
+      table: 'wisdom',
+      queue: 'love',
+    },
+  },
+};
+
+/**
+ * File types a pack can be loaded from; TypeScript packs need ts-node
+ */
+const PACK_EXTENSIONS = ['.json', '.js', '.cjs', '.ts'];
+
+/**
+ * Load a pack by bundled name or by path to a JSON, JS or TS module. Module
+ * packs may use a default export or export the pack object itself.
+ *
+ * @param baseDir - Directory relative paths are resolved against
+ * @throws Error if the pack can't be found or doesn't look like a pack
+ */
+export function loadVocabularyPack(spec: string, baseDir: string = process.cwd()): VocabularyPack {
+  if (BUNDLED_PACKS[spec]) {
+    return BUNDLED_PACKS[spec];
+  }
+
+  if (!isPackPath(spec)) {
+    throw new Error(
+      `Unknown vocabulary pack '${spec}' (bundled packs: ${Object.keys(BUNDLED_PACKS).join(', ')})`
+    );
+  }
+
+  const packPath = path.resolve(baseDir, spec);
+  if (!fs.existsSync(packPath)) {
+    throw new Error(`Vocabulary pack not found: ${packPath}`);
+  }
+
+  const extension = path.extname(packPath);
+  if (!PACK_EXTENSIONS.includes(extension)) {
+    throw new Error(`Vocabulary pack must be a ${PACK_EXTENSIONS.join(', ')} file: ${packPath}`);
+  }
+
+  const loaded =
+    extension === '.json' ? JSON.parse(fs.readFileSync(packPath, 'utf-8')) : loadModule(packPath);
+  const pack = loaded?.default ?? loaded;
+
+  if (!pack || typeof pack !== 'object' || !(pack.verbs || pack.compounds || pack.keywords)) {
+    throw new Error(`${packPath} does not export verbs, compounds or keywords`);
+  }
+
+  return { ...pack, name: pack.name ?? path.basename(packPath, path.extname(packPath)) };
+}
+
+/**
+ * Load a JS or TS module, registering the project's ts-node (resolved from the
+ * pack's directory) for TypeScript unless something already compiles .ts
+ *
+ * @throws Error if a TypeScript pack is loaded without ts-node installed
+ */
+function loadModule(modulePath: string): unknown {
+  const load = createRequire(modulePath);
+
+  if (path.extname(modulePath) === '.ts' && !load.extensions?.['.ts']) {
+    let tsNode: { register(options: object): unknown };
+    try {
+      tsNode = load('ts-node');
+    } catch {
+      throw new Error(
+        `${modulePath} is a TypeScript pack, which needs ts-node installed ` +
+          '(npm install --save-dev ts-node); or compile it to .js'
+      );
+    }
+    tsNode.register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } });
+  }
+
+  return load(modulePath);
+}
+
+/**
+ * Whether a `vocabulary.packs` entry is a file path rather than a bundled name
+ */
+export function isPackPath(spec: string): boolean {
+  return /[\\/]/.test(spec) || PACK_EXTENSIONS.includes(path.extname(spec));
+}
@@ -0,0 +1,117 @@
+import { PROGRAMMING_VERBS, VocabularyManager, WEIGHTED_VERBS } from './vocabulary';
+import { BUNDLED_PACKS } from './vocabulary-packs';
+import { ConfigLoader } from '../config/config-loader';
+
+describe('VocabularyManager', () => {
+  describe('weighted entries', () => {
+    it('should spread a weighted verb across dimensions', () => {
+      const vocab = new VocabularyManager();
+
+      expect(vocab.getWeights('save')).toEqual({ love: 0, justice: 0, power: 0.7, wisdom: 0.3 });
+      expect(vocab.getDimension('save')).toBe('power');
+      expect(vocab.analyzeText('save').toObject()).toEqual({
+        love: 0,
+        justice: 0,
+        power: 0.7,
+        wisdom: 0.3,
+      });
+    });
+
+    it('should keep the single-dimension mapping as the dominant weight', () => {
+      const vocab = new VocabularyManager();
+
+      for (const verb of Object.keys(WEIGHTED_VERBS).filter((v) => v in PROGRAMMING_VERBS)) {
+        expect([verb, vocab.getDimension(verb)]).toEqual([verb, PROGRAMMING_VERBS[verb]]);
+      }
+    });
+
+    it('should accept either form in custom vocabulary and normalize weights', () => {
+      const vocab = new VocabularyManager({
+        flush: 'power',
+        reconcile: { justice: 3, love: 1 },
+        bogus: { speed: 1 } as never,
+      });
+
+      expect(vocab.getDimension('flush')).toBe('power');
+      expect(vocab.getWeights('reconcile')).toEqual({
+        love: 0.25,
+        justice: 0.75,
+        power: 0,
+        wisdom: 0,
+      });
+      expect(vocab.getWeights('bogus')).toBeNull();
+    });
+
+    it('should reject invalid weighted entries in config validation', () => {
+      const { errors } = ConfigLoader.validateConfig({
+        vocabulary: { custom: { ok: 'love', broken: { power: -1 } } },
+      });
+
+      expect(errors).toEqual([
+        'vocabulary.custom.broken must map love/justice/power/wisdom to non-negative weights',
+      ]);
+    });
+  });
+
+  describe('context nouns', () => {
+    it('should count role nouns for Context only', () => {
+      const vocab = new VocabularyManager();
+
+      expect(vocab.getWeights('controller')).toBeNull();
+      expect(vocab.analyzeText('getController').getDominantDimension()).toBe('wisdom');
+      expect(vocab.analyzeText('fetchService').toObject()).toEqual(
+        vocab.analyzeText('fetch').toObject()
+      );
+      expect(vocab.getContextWeights('controller')).toMatchObject({ power: 1 });
+      expect(vocab.analyzeContext('UserValidator').getDominantDimension()).toBe('justice');
+    });
+
+    it('should resolve plural role nouns, such as directory names, in Context', () => {
+      const vocab = new VocabularyManager();
+
+      expect(vocab.getContextWeights('services')).toEqual(vocab.getContextWeights('service'));
+      expect(vocab.getContextWeights('controllers')).toMatchObject({ power: 1 });
+      expect(vocab.analyzeContext('src/services/user').getDominantDimension()).toBe('power');
+      expect(vocab.getWeights('services')).toBeNull();
+    });
+
+    it('should let custom vocabulary override a role noun in Context', () => {
+      const vocab = new VocabularyManager({ handler: 'power' });
+
+      expect(vocab.getContextWeights('handler')).toMatchObject({ power: 1 });
+      expect(vocab.lookupWord('controller')).toMatchObject({ source: 'noun', dimension: 'power' });
+    });
+  });
+
+  describe('lookupWord', () => {
+    it('should report the source and the matched base form', () => {
+      const vocab = new VocabularyManager({ fetch: 'power' }, { packs: [BUNDLED_PACKS.react] });
+
+      expect(vocab.lookupWord('fetch')).toMatchObject({ source: 'custom', dimension: 'power' });
+      expect(vocab.lookupWord('validated')).toMatchObject({ word: 'validate', source: 'verb' });
+      expect(vocab.lookupWord('use_effect')).toMatchObject({ source: 'compound', pack: 'react' });
+      expect(vocab.lookupWord('zzz')).toBeNull();
+    });
+
+    it('should list each word once with precedence applied', () => {
+      const entries = new VocabularyManager({ fetch: 'power' }).listEntries();
+      const fetch = entries.filter((entry) => entry.word === 'fetch');
+
+      expect(fetch).toEqual([expect.objectContaining({ source: 'custom', dimension: 'power' })]);
+      expect(entries.map((entry) => entry.word)).toEqual(
+        [...entries.map((entry) => entry.word)].sort()
+      );
+    });
+  });
+
+  describe('stats', () => {
+    it('should report ambiguous words, most ambiguous first', () => {
+      const stats = new VocabularyManager({ juggle: { love: 1, power: 1 } }).getVocabularyStats();
+
+      expect(stats.totalCustom).toBe(1);
+      expect(stats.ambiguity.weightedWords).toBe(Object.keys(WEIGHTED_VERBS).length + 1);
+      expect(stats.ambiguity.mostAmbiguous[0]).toMatchObject({ word: 'handle', ambiguity: 0.5 });
+      expect(stats.ambiguity.averageAmbiguity).toBeGreaterThan(0);
+    });
+  });
+});
@@ -6,9 +6,27 @@
  */
 
 import { Coordinates } from './coordinates';
+import { Lemmatizer, STOP_WORDS, tokenizeIdentifier } from './tokenizer';
+import type { VocabularyPack } from './vocabulary-packs';
 
 export type Dimension = 'love' | 'justice' | 'power' | 'wisdom';
 
+/**
+ * All LJPW dimensions in canonical order
+ */
+export const DIMENSIONS: readonly Dimension[] = ['love', 'justice', 'power', 'wisdom'];
+
+/**
+ * A weighted LJPW distribution, e.g. { power: 0.7, wisdom: 0.3 }.
+ * Weights are normalized to sum to 1 when loaded.
+ */
+export type DimensionWeights = Partial<Record<Dimension, number>>;
+
+/**
+ * A vocabulary entry: a single dimension or a weighted distribution
+ */
+export type VocabularyEntry = Dimension | DimensionWeights;
+
 /**
  * Programming verbs mapped to LJPW dimensions
  * Total: 190+ verbs across 4 dimensions
@@ -230,6 +248,32 @@ export const PROGRAMMING_VERBS: Record<string, Dimension> = {
   catch: 'love',
 };
 
+/**
+ * Verbs that genuinely span several dimensions. These distributions take
+ * precedence over the single dimension in PROGRAMMING_VERBS, which stays the
+ * dominant one (e.g. `save` still reads as Power, with some Wisdom).
+ */
+export const WEIGHTED_VERBS: Record<string, DimensionWeights> = {
+  save: { power: 0.7, wisdom: 0.3 },
+  store: { power: 0.7, wisdom: 0.3 },
+  persist: { power: 0.7, wisdom: 0.3 },
+  sync: { power: 0.5, justice: 0.3, love: 0.2 },
+  process: { power: 0.6, wisdom: 0.4 },
+  handle: { love: 0.5, power: 0.3, justice: 0.2 },
+  load: { wisdom: 0.7, power: 0.3 },
+  fetch: { wisdom: 0.8, love: 0.2 },
+  send: { love: 0.7, power: 0.3 },
+  merge: { love: 0.6, power: 0.4 },
+  resolve: { wisdom: 0.6, justice: 0.4 },
+  parse: { wisdom: 0.7, justice: 0.3 },
+  format: { justice: 0.6, love: 0.4 },
+  sort: { justice: 0.6, power: 0.4 },
+  apply: { power: 0.7, justice: 0.3 },
+  transform: { power: 0.7, wisdom: 0.3 },
+  convert: { power: 0.7, wisdom: 0.3 },
+  render: { love: 0.6, power: 0.4 },
+};
+
 /**
  * Compound patterns for context-specific mappings
  * These override single-verb mappings when the full pattern matches
@@ -328,65 +372,394 @@ export const LANGUAGE_KEYWORDS: Record<string, Dimension> = {
   with: 'love',
 };
 
+/**
+ * Role nouns found in class, file and module names, mapped to dimensions.
+ * Used only for the Context leg of ICE analysis (e.g. `UserValidator`, `httpClient.ts`),
+ * so `getController` is still read as a plain getter.
+ */
+export const CONTEXT_NOUNS: Record<string, Dimension> = {
+  // Wisdom (data and knowledge holders)
+  repository: 'wisdom',
+  repo: 'wisdom',
+  model: 'wisdom',
+  entity: 'wisdom',
+  dto: 'wisdom',
+  reader: 'wisdom',
+  parser: 'wisdom',
+  selector: 'wisdom',
+  getter: 'wisdom',
+  config: 'wisdom',
+  cache: 'wisdom',
+  calculator: 'wisdom',
+  analyzer: 'wisdom',
+  util: 'wisdom',
+  utils: 'wisdom',
+  helper: 'wisdom',
+  helpers: 'wisdom',
+
+  // Justice (rules and correctness)
+  validator: 'justice',
+  validation: 'justice',
+  schema: 'justice',
+  guard: 'justice',
+  policy: 'justice',
+  rule: 'justice',
+  rules: 'justice',
+  checker: 'justice',
+  auth: 'justice',
+  permission: 'justice',
+  spec: 'justice',
+
+  // Power (actors that change state)
+  service: 'power',
+  manager: 'power',
+  controller: 'power',
+  command: 'power',
+  worker: 'power',
+  job: 'power',
+  processor: 'power',
+  writer: 'power',
+  builder: 'power',
+  factory: 'power',
+  generator: 'power',
+  reducer: 'power',
+  mutation: 'power',
+  migration: 'power',
+
+  // Love (connection and communication)
+  client: 'love',
+  http: 'love',
+  api: 'love',
+  socket: 'love',
+  network: 'love',
+  adapter: 'love',
+  bridge: 'love',
+  connection: 'love',
+  middleware: 'love',
+  listener: 'love',
+  handler: 'love',
+  callback: 'love',
+  emitter: 'love',
+  event: 'love',
+  events: 'love',
+  notifier: 'love',
+  logger: 'love',
+  component: 'love',
+  view: 'love',
+  public: 'love',
+};
+
+/**
+ * Where a vocabulary entry comes from: `vocabulary.custom`, or the kind of
+ * built-in (or pack) table that defines it
+ */
+export type VocabularySource = 'custom' | 'compound' | 'verb' | 'keyword' | 'noun';
+
+/**
+ * A resolved vocabulary entry
+ */
+export interface VocabularyMatch {
+  word: string; // Entry that matched, e.g. 'validate' for 'revalidated'
+  weights: Record<Dimension, number>;
+  dimension: Dimension;
+  source: VocabularySource;
+  pack?: string; // Set when the entry comes from a vocabulary pack
+}
+
+const BUILT_IN_TABLES: Array<[VocabularySource, Record<string, VocabularyEntry>]> = [
+  ['compound', COMPOUND_PATTERNS],
+  ['verb', WEIGHTED_VERBS],
+  ['verb', PROGRAMMING_VERBS],
+  ['keyword', LANGUAGE_KEYWORDS],
+];
+
 /**
  * VocabularyManager - Central authority for semantic mappings
  */
 export class VocabularyManager {
-  private verbCache: Map<string, Dimension> = new Map();
+  private weightCache: Map<string, Record<Dimension, number> | null> = new Map();
+  private contextWeightCache: Map<string, Record<Dimension, number> | null> = new Map();
   private textAnalysisCache: Map<string, Coordinates> = new Map();
-  private customVocabulary: Map<string, Dimension> = new Map();
+  private contextAnalysisCache: Map<string, Coordinates> = new Map();
+  private customVocabulary: Map<string, Record<Dimension, number>> = new Map();
+  private packVocabulary: Map<
+    string,
+    { weights: Record<Dimension, number>; source: VocabularySource; pack: string }
+  > = new Map();
+  private warnings: string[] = [];
+  private lemmatizer: Lemmatizer;
+  private maxCompoundWords = 1;
 
-  constructor(customVocabulary?: Record<string, Dimension>) {
+  /**
+   * @param customVocabulary - Extra words, overriding packs and built-in mappings
+   * @param options.abbreviations - Extra abbreviations (e.g. `{ txn: 'transaction' }`)
+   * @param options.packs - Domain vocabulary packs; later packs override earlier ones
+   */
+  constructor(
+    customVocabulary?: Record<string, VocabularyEntry>,
+    options: { abbreviations?: Record<string, string>; packs?: VocabularyPack[] } = {}
+  ) {
+    this.lemmatizer = new Lemmatizer(options.abbreviations);
+    (options.packs ?? []).forEach((pack) => this.addPack(pack));
     if (customVocabulary) {
-      Object.entries(customVocabulary).forEach(([word, dim]) => {
-        this.customVocabulary.set(word.toLowerCase(), dim);
+      Object.entries(customVocabulary).forEach(([word, entry]) => {
+        // Skip comment keys and anything that isn't a dimension or distribution
+        const weights = VocabularyManager.toWeights(entry);
+        if (weights) {
+          this.customVocabulary.set(word.toLowerCase(), weights);
+        }
       });
     }
+
+    const words = [
+      ...Object.keys(COMPOUND_PATTERNS),
+      ...this.packVocabulary.keys(),
+      ...this.customVocabulary.keys(),
+    ];
+    this.maxCompoundWords = Math.max(1, ...words.map((word) => word.split('_').length));
   }
 
   /**
-   * Get the dimension for a word (verb, keyword, or custom)
-   * Returns null if word is not in vocabulary
+   * Merge a pack's entries, recording a warning wherever it changes the
+   * dominant dimension of a word from the built-ins or an earlier pack
    */
-  getDimension(word: string): Dimension | null {
+  private addPack(pack: VocabularyPack): void {
+    const sections: Array<[VocabularySource, Record<string, VocabularyEntry> | undefined]> = [
+      ['keyword', pack.keywords],
+      ['verb', pack.verbs],
+      ['compound', pack.compounds],
+    ];
+
+    for (const [source, section] of sections) {
+      for (const [word, entry] of Object.entries(section ?? {})) {
+        const key = word.toLowerCase();
+        const weights = VocabularyManager.toWeights(entry);
+        if (!weights) {
+          this.warnings.push(`Pack '${pack.name}' has an invalid entry for '${word}'`);
+          continue;
+        }
+
+        const previous = this.packVocabulary.get(key);
+        const existing = previous?.weights ?? this.findBuiltIn(key)?.weights;
+        const dimension = VocabularyManager.dominant(weights);
+        if (existing && VocabularyManager.dominant(existing) !== dimension) {
+          const overridden = previous ? `pack '${previous.pack}'` : 'the built-in vocabulary';
+          this.warnings.push(
+            `Pack '${pack.name}' maps '${key}' to ${dimension}, overriding ${overridden} ` +
+              `(${VocabularyManager.dominant(existing)})`
+          );
+        }
+
+        this.packVocabulary.set(key, { weights, source, pack: pack.name });
+      }
+    }
+  }
+
+  /**
+   * Conflicts and invalid entries found while merging vocabulary packs
+   */
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+
+  /**
+   * Normalize a vocabulary entry to weights summing to 1, or null if invalid
+   */
+  static toWeights(entry: unknown): Record<Dimension, number> | null {
+    if (typeof entry === 'string') {
+      return DIMENSIONS.includes(entry as Dimension)
+        ? { love: 0, justice: 0, power: 0, wisdom: 0, [entry]: 1 }
+        : null;
+    }
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      return null;
+    }
+
+    const values = Object.entries(entry as Record<string, unknown>);
+    const valid = values.every(
+      ([dim, weight]) =>
+        DIMENSIONS.includes(dim as Dimension) &&
+        typeof weight === 'number' &&
+        Number.isFinite(weight) &&
+        weight >= 0
+    );
+    const total = values.reduce((sum, [, weight]) => sum + (weight as number), 0);
+    if (!valid || total <= 0) {
+      return null;
+    }
+
+    const weights = { love: 0, justice: 0, power: 0, wisdom: 0 };
+    for (const [dim, weight] of values) {
+      weights[dim as Dimension] = (weight as number) / total;
+    }
+    return weights;
+  }
+
+  /**
+   * Get the weighted LJPW distribution for a word (custom, compound, verb or
+   * keyword). Returns null if word is not in vocabulary
+   */
+  getWeights(word: string): Record<Dimension, number> | null {
     const lowerWord = word.toLowerCase();
 
     // Check cache first
-    if (this.verbCache.has(lowerWord)) {
-      return this.verbCache.get(lowerWord)!;
+    if (this.weightCache.has(lowerWord)) {
+      return this.weightCache.get(lowerWord)!;
     }
 
-    // Check custom vocabulary
-    if (this.customVocabulary.has(lowerWord)) {
-      const dim = this.customVocabulary.get(lowerWord)!;
-      this.verbCache.set(lowerWord, dim);
-      return dim;
+    // Exact match first, then inflected, prefixed, abbreviated or British forms
+    const weights =
+      this.resolve(lowerWord, (candidate) => this.findEntry(candidate))?.weights ?? null;
+
+    this.weightCache.set(lowerWord, weights);
+    return weights;
+  }
+
+  /**
+   * Get the weighted LJPW distribution for a word in the Context leg: the
+   * vocabulary, plus role nouns. Returns null if the word is neither
+   */
+  getContextWeights(word: string): Record<Dimension, number> | null {
+    const lowerWord = word.toLowerCase();
+
+    if (this.contextWeightCache.has(lowerWord)) {
+      return this.contextWeightCache.get(lowerWord)!;
     }
 
-    // Check compound patterns
-    if (lowerWord in COMPOUND_PATTERNS) {
-      const dim = COMPOUND_PATTERNS[lowerWord];
-      this.verbCache.set(lowerWord, dim);
-      return dim;
+    const weights =
+      this.resolve(
+        lowerWord,
+        (candidate) => this.findEntry(candidate) ?? this.findContextNoun(candidate)
+      )?.weights ?? null;
+
+    this.contextWeightCache.set(lowerWord, weights);
+    return weights;
+  }
+
+  /**
+   * Get the base form a word resolves to in the vocabulary, e.g.
+   * 'revalidated' → 'validate'. Returns null if the word is unknown.
+   */
+  getLemma(word: string): string | null {
+    return this.resolve(word.toLowerCase(), (candidate) => this.findEntry(candidate))?.word ?? null;
+  }
+
+  /**
+   * Resolve a word to the entry that gives it meaning, and where that entry
+   * comes from (role nouns included). Follows the same morphology as getWeights.
+   */
+  lookupWord(word: string): VocabularyMatch | null {
+    return this.resolve(
+      word.toLowerCase(),
+      (candidate) => this.findEntry(candidate) ?? this.findContextNoun(candidate)
+    );
+  }
+
+  /**
+   * Every entry in effect (custom, packs and built-ins, after precedence),
+   * sorted by word
+   */
+  listEntries(): VocabularyMatch[] {
+    const words = new Set([
+      ...BUILT_IN_TABLES.flatMap(([, table]) => Object.keys(table)),
+      ...Object.keys(CONTEXT_NOUNS),
+      ...this.packVocabulary.keys(),
+      ...this.customVocabulary.keys(),
+    ]);
+    return [...words]
+      .sort()
+      .map((word) => this.findEntry(word) ?? this.findContextNoun(word))
+      .filter((match): match is VocabularyMatch => match !== null);
+  }
+
+  /**
+   * First candidate form of a word that `find` knows. A form reached by
+   * stripping a suffix or prefix, or by respelling, only counts when it is a
+   * verb (built-in, pack or custom) or, where `find` looks them up, a role
+   * noun: `services` is a service, but `letters` is not the keyword `let`
+   * and `four` is not `for`.
+   */
+  private resolve(
+    word: string,
+    find: (candidate: string) => VocabularyMatch | null
+  ): VocabularyMatch | null {
+    for (const candidate of this.lemmatizer.candidates(word)) {
+      const match = find(candidate);
+      if (!match) continue;
+      if (!this.lemmatizer.isDerived(word, candidate)) return match;
+      if (['verb', 'custom', 'noun'].includes(match.source)) return match;
     }
+    return null;
+  }
 
-    // Check programming verbs
-    if (lowerWord in PROGRAMMING_VERBS) {
-      const dim = PROGRAMMING_VERBS[lowerWord];
-      this.verbCache.set(lowerWord, dim);
-      return dim;
+  /**
+   * Exact lookup: custom words, then packs, then the built-in tables
+   */
+  private findEntry(word: string): VocabularyMatch | null {
+    const custom = this.customVocabulary.get(word);
+    if (custom) {
+      return {
+        word,
+        weights: custom,
+        dimension: VocabularyManager.dominant(custom),
+        source: 'custom',
+      };
     }
 
-    // Check language keywords
-    if (lowerWord in LANGUAGE_KEYWORDS) {
-      const dim = LANGUAGE_KEYWORDS[lowerWord];
-      this.verbCache.set(lowerWord, dim);
-      return dim;
+    const packed = this.packVocabulary.get(word);
+    if (packed) {
+      return { word, ...packed, dimension: VocabularyManager.dominant(packed.weights) };
     }
 
+    return this.findBuiltIn(word);
+  }
+
+  /**
+   * Exact lookup in the built-in vocabulary only
+   */
+  private findBuiltIn(word: string): VocabularyMatch | null {
+    for (const [source, table] of BUILT_IN_TABLES) {
+      const weights = Object.prototype.hasOwnProperty.call(table, word)
+        ? VocabularyManager.toWeights(table[word])
+        : null;
+      if (weights) {
+        return { word, weights, dimension: VocabularyManager.dominant(weights), source };
+      }
+    }
     return null;
   }
 
+  /**
+   * Exact lookup in the role nouns only
+   */
+  private findContextNoun(word: string): VocabularyMatch | null {
+    if (!Object.prototype.hasOwnProperty.call(CONTEXT_NOUNS, word)) {
+      return null;
+    }
+    const weights = VocabularyManager.toWeights(CONTEXT_NOUNS[word])!;
+    return { word, weights, dimension: CONTEXT_NOUNS[word], source: 'noun' };
+  }
+
+  /**
+   * Get the dominant dimension for a word (verb, keyword, or custom)
+   * Returns null if word is not in vocabulary
+   */
+  getDimension(word: string): Dimension | null {
+    const weights = this.getWeights(word);
+    if (!weights) {
+      return null;
+    }
+
+    return VocabularyManager.dominant(weights);
+  }
+
+  /**
+   * The highest-weighted dimension; ties go to the earlier one in canonical order
+   */
+  private static dominant(weights: Record<Dimension, number>): Dimension {
+    return DIMENSIONS.reduce((best, dim) => (weights[dim] > weights[best] ? dim : best));
+  }
+
   /**
    * Analyze text and return semantic coordinates
    * Counts occurrences of each dimension and normalizes
@@ -397,23 +770,7 @@ export class VocabularyManager {
       return this.textAnalysisCache.get(text)!;
     }
 
-    // Extract words (split on non-alphanumeric, underscore, or camelCase boundaries)
-    const words = this.extractWords(text);
-
-    // Count dimension occurrences
-    const counts = {
-      love: 0,
-      justice: 0,
-      power: 0,
-      wisdom: 0,
-    };
-
-    for (const word of words) {
-      const dim = this.getDimension(word);
-      if (dim) {
-        counts[dim]++;
-      }
-    }
+    const counts = this.countDimensions(text);
 
     // Create coordinates (will auto-normalize)
     const coords = new Coordinates(counts.love, counts.justice, counts.power, counts.wisdom);
@@ -425,28 +782,81 @@ export class VocabularyManager {
   }
 
   /**
-   * Extract individual words from text
-   * Handles snake_case, camelCase, and regular spaces
+   * Analyze text as Context (class, file and module names), where role nouns
+   * count too
    */
-  private extractWords(text: string): string[] {
-    // Split on underscores, spaces, and camelCase boundaries
-    const words: string[] = [];
+  analyzeContext(text: string): Coordinates {
+    if (this.contextAnalysisCache.has(text)) {
+      return this.contextAnalysisCache.get(text)!;
+    }
 
-    // Handle snake_case
-    let current = text.replace(/_/g, ' ');
+    const counts = this.countContextDimensions(text);
+    const coords = new Coordinates(counts.love, counts.justice, counts.power, counts.wisdom);
+    this.contextAnalysisCache.set(text, coords);
 
-    // Handle camelCase and PascalCase
-    current = current.replace(/([a-z])([A-Z])/g, '$1 $2');
-    current = current.replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2');
+    return coords;
+  }
+
+  /**
+   * Sum the weights of the words in text the vocabulary knows, per dimension.
+   * Unlike analyzeText this keeps magnitude: two known words weigh twice one.
+   */
+  countDimensions(text: string): Record<Dimension, number> {
+    return this.sumWeights(text, (word) => this.getWeights(word));
+  }
 
-    // Split on whitespace and filter empty strings
-    const parts = current.split(/\s+/).filter((w) => w.length > 0);
+  /**
+   * countDimensions for the Context leg, with role nouns
+   */
+  countContextDimensions(text: string): Record<Dimension, number> {
+    return this.sumWeights(text, (word) => this.getContextWeights(word));
+  }
 
-    for (const part of parts) {
-      words.push(part.toLowerCase());
+  /**
+   * Sum the per-dimension weights of the words in text, as resolved by getWeights
+   */
+  private sumWeights(
+    text: string,
+    getWeights: (word: string) => Record<Dimension, number> | null
+  ): Record<Dimension, number> {
+    const counts = { love: 0, justice: 0, power: 0, wisdom: 0 };
+
+    // Split on non-alphanumeric, underscore, or camelCase boundaries
+    for (const word of this.extractWords(text)) {
+      const weights = getWeights(word);
+      if (weights) {
+        DIMENSIONS.forEach((dim) => (counts[dim] += weights[dim]));
+      }
     }
 
-    return words;
+    return counts;
+  }
+
+  /**
+   * Extract individual words from text
+   * Handles snake_case, camelCase, acronyms, digits and regular spaces
+   */
+  private extractWords(text: string): string[] {
+    return this.groupCompounds(tokenizeIdentifier(text));
+  }
+
+  /**
+   * Join runs of adjacent words that form a known compound, longest first:
+   * use, effect, cleanup → use_effect, cleanup
+   */
+  private groupCompounds(words: string[]): string[] {
+    const grouped: string[] = [];
+
+    for (let start = 0; start < words.length; ) {
+      let end = Math.min(words.length, start + this.maxCompoundWords);
+      while (end > start + 1 && !this.findEntry(words.slice(start, end).join('_'))) {
+        end--;
+      }
+      grouped.push(words.slice(start, end).join('_'));
+      start = end;
+    }
+
+    return grouped;
   }
 
   /**
@@ -464,9 +874,9 @@ export class VocabularyManager {
     for (const concept of concepts) {
       const words = this.extractWords(concept);
       for (const word of words) {
-        const dim = this.getDimension(word);
-        if (dim) {
-          allCounts[dim]++;
+        const weights = this.getWeights(word);
+        if (weights) {
+          DIMENSIONS.forEach((dim) => (allCounts[dim] += weights[dim]));
         }
       }
     }
@@ -474,12 +884,35 @@ export class VocabularyManager {
     return new Coordinates(allCounts.love, allCounts.justice, allCounts.power, allCounts.wisdom);
   }
 
+  /**
+   * Split concepts into distinct words the vocabulary recognizes and words it
+   * does not. Stop words, single letters and numbers are left out of both.
+   */
+  analyzeCoverage(concepts: string[]): { recognized: string[]; unrecognized: string[] } {
+    const recognized = new Set<string>();
+    const unrecognized = new Set<string>();
+
+    for (const concept of concepts) {
+      for (const word of this.extractWords(concept)) {
+        if (this.getWeights(word)) {
+          recognized.add(word);
+        } else if (word.length > 1 && !STOP_WORDS.has(word)) {
+          unrecognized.add(word);
+        }
+      }
+    }
+
+    return { recognized: [...recognized], unrecognized: [...unrecognized] };
+  }
+
   /**
    * Clear caches (useful for testing or when vocabulary changes)
    */
   clearCache(): void {
-    this.verbCache.clear();
+    this.weightCache.clear();
+    this.contextWeightCache.clear();
     this.textAnalysisCache.clear();
+    this.contextAnalysisCache.clear();
   }
 
   /**
@@ -493,12 +926,23 @@ export class VocabularyManager {
 
   /**
    * Get statistics about the vocabulary
+   *
+   * Ambiguity of a word is 1 minus its dominant weight: 0 for single-dimension
+   * words, approaching 0.75 for an even four-way split.
    */
   getVocabularyStats(): {
     totalVerbs: number;
     totalCompoundPatterns: number;
     totalKeywords: number;
+    totalContextNouns: number;
+    totalCustom: number;
+    totalPackEntries: number;
     verbsPerDimension: Record<Dimension, number>;
+    ambiguity: {
+      weightedWords: number;
+      averageAmbiguity: number;
+      mostAmbiguous: Array<{ word: string; ambiguity: number; weights: Record<Dimension, number> }>;
+    };
   } {
     const verbsPerDimension = {
       love: 0,
@@ -511,11 +955,39 @@ export class VocabularyManager {
       verbsPerDimension[dim]++;
     });
 
+    const words = new Set([
+      ...Object.keys(PROGRAMMING_VERBS),
+      ...Object.keys(WEIGHTED_VERBS),
+      ...Object.keys(COMPOUND_PATTERNS),
+      ...Object.keys(LANGUAGE_KEYWORDS),
+      ...Object.keys(CONTEXT_NOUNS),
+      ...this.packVocabulary.keys(),
+      ...this.customVocabulary.keys(),
+    ]);
+    const scored = [...words].map((word) => {
+      const weights = this.getContextWeights(word)!;
+      return { word, ambiguity: 1 - Math.max(...DIMENSIONS.map((d) => weights[d])), weights };
+    });
+    const weighted = scored
+      .filter((entry) => entry.ambiguity > 0)
+      .sort((a, b) => b.ambiguity - a.ambiguity || a.word.localeCompare(b.word));
+
     return {
       totalVerbs: Object.keys(PROGRAMMING_VERBS).length,
       totalCompoundPatterns: Object.keys(COMPOUND_PATTERNS).length,
       totalKeywords: Object.keys(LANGUAGE_KEYWORDS).length,
+      totalContextNouns: Object.keys(CONTEXT_NOUNS).length,
+      totalCustom: this.customVocabulary.size,
+      totalPackEntries: this.packVocabulary.size,
       verbsPerDimension,
+      ambiguity: {
+        weightedWords: weighted.length,
+        averageAmbiguity:
+          scored.length > 0
+            ? scored.reduce((sum, entry) => sum + entry.ambiguity, 0) / scored.length
+            : 0,
+        mostAmbiguous: weighted.slice(0, 10),
+      },
     };
   }
 }
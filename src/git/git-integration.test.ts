@@ -0,0 +1,133 @@
+import * as path from 'path';
+import { GitIntegration, FileLineChanges } from './git-integration';
+
+const ROOT = path.resolve('/repo');
+
+const DIFF = `diff --git a/src/user.js b/src/user.js
+index 1111111..2222222 100644
+--- a/src/user.js
++++ b/src/user.js
+@@ -10,2 +10,3 @@ function getUser(id) {
+-  return db.find(id);
+-}
++  db.delete(id);
++  return null;
++}
+@@ -40 +41,0 @@ function saveUser(user) {
+-  log(user);
+@@ -60,0 +61,5 @@ function saveUser(user) {
++function extra() {
++  return 1;
++}
++
++
+diff --git a/src/new.ts b/src/new.ts
+new file mode 100644
+index 0000000..3333333
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1,4 @@
++export function hello() {
++  return 'hi';
++}
++
+`;
+
+describe('GitIntegration.parseUnifiedDiff', () => {
+  const files = GitIntegration.parseUnifiedDiff(DIFF, ROOT);
+
+  it('should produce one entry per file with absolute paths', () => {
+    expect(files.map((f) => f.path)).toEqual([
+      path.join(ROOT, 'src/user.js'),
+      path.join(ROOT, 'src/new.ts'),
+    ]);
+  });
+
+  it('should record added line ranges from hunk headers', () => {
+    expect(files[0].addedRanges).toEqual([
+      { start: 10, end: 12 },
+      { start: 61, end: 65 },
+    ]);
+  });
+
+  it('should record pure deletions as deletion points', () => {
+    expect(files[0].deletionPoints).toEqual([41]);
+  });
+
+  it('should detect new files', () => {
+    expect(files[0].isNewFile).toBe(false);
+    expect(files[1].isNewFile).toBe(true);
+    expect(files[1].addedRanges).toEqual([{ start: 1, end: 4 }]);
+  });
+
+  it('should not mistake added lines that look like headers for a new file', () => {
+    const diff = [
+      'diff --git a/src/counter.js b/src/counter.js',
+      '--- a/src/counter.js',
+      '+++ b/src/counter.js',
+      '@@ -3,0 +4,3 @@ function count(i) {',
+      '+++ i;',
+      '+diff --git a/x b/x',
+      '+++ b/src/other.js',
+      '@@ -9 +12 @@ function reset() {',
+      '--- i;',
+      '+i = 0;',
+    ].join('\n');
+
+    expect(GitIntegration.parseUnifiedDiff(diff, ROOT)).toEqual([
+      {
+        path: path.join(ROOT, 'src/counter.js'),
+        isNewFile: false,
+        addedRanges: [
+          { start: 4, end: 6 },
+          { start: 12, end: 12 },
+        ],
+        deletionPoints: [],
+      },
+    ]);
+  });
+
+  it('should return nothing for an empty diff', () => {
+    expect(GitIntegration.parseUnifiedDiff('', ROOT)).toEqual([]);
+  });
+});
+
+describe('GitIntegration.classifyRange', () => {
+  const changes: FileLineChanges = {
+    path: path.join(ROOT, 'src/user.js'),
+    isNewFile: false,
+    addedRanges: [
+      { start: 10, end: 12 },
+      { start: 61, end: 65 },
+    ],
+    deletionPoints: [41],
+  };
+
+  it('should mark functions entirely inside an added range as new', () => {
+    expect(GitIntegration.classifyRange(61, 63, changes)).toBe('new');
+  });
+
+  it('should mark functions partially overlapping a change as modified', () => {
+    expect(GitIntegration.classifyRange(8, 20, changes)).toBe('modified');
+  });
+
+  it('should mark functions containing a deletion as modified', () => {
+    expect(GitIntegration.classifyRange(38, 45, changes)).toBe('modified');
+  });
+
+  it('should not count a deletion right after the last line', () => {
+    expect(GitIntegration.classifyRange(30, 41, changes)).toBe('untouched');
+  });
+
+  it('should mark functions outside all changes as untouched', () => {
+    expect(GitIntegration.classifyRange(20, 30, changes)).toBe('untouched');
+  });
+
+  it('should mark every function in a new file as new', () => {
+    expect(GitIntegration.classifyRange(1, 3, { ...changes, isNewFile: true })).toBe('new');
+  });
+
+  it('should treat files without changes as untouched', () => {
+    expect(GitIntegration.classifyRange(1, 3, undefined)).toBe('untouched');
+  });
+});
@@ -44,6 +44,29 @@ export interface ChangedFile {
   deletions: number;
 }
 
+/**
+ * Inclusive range of line numbers in the new version of a file
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Line-level changes for a single file, parsed from unified diff hunks
+ */
+export interface FileLineChanges {
+  path: string;
+  isNewFile: boolean;
+  addedRanges: LineRange[]; // Lines added or rewritten
+  deletionPoints: number[]; // Pure deletions happened after these lines
+}
+
+/**
+ * How a function relates to the current change
+ */
+export type ChangeStatus = 'new' | 'modified' | 'untouched';
+
 /**
  * Git Integration Manager
  */
@@ -105,23 +128,17 @@ export class GitIntegration {
    * Get files changed compared to base branch
    */
   async getChangedFiles(options: GitDiffOptions = {}): Promise<ChangedFile[]> {
-    const { base, commit, staged = false, unstaged: _unstaged = true } = options;
-
-    let diffTarget = commit;
-
-    if (!diffTarget) {
-      if (staged) {
-        diffTarget = '--cached';
-      } else if (base) {
-        diffTarget = `${base}...HEAD`;
-      } else {
-        const defaultBranch = await this.getDefaultBranch();
-        diffTarget = `${defaultBranch}...HEAD`;
-      }
-    }
+    const diffTarget = await this.resolveDiffTarget(options);
 
     try {
-      const diff = await this.git.diff(['--numstat', diffTarget]);
+      // git reports paths relative to the repository root, not the cwd
+      const repoRoot = await this.getRepoRoot();
+      const diff = await this.git.diff([
+        '--numstat',
+        '--no-renames',
+        '--diff-filter=ACM',
+        diffTarget,
+      ]);
       const lines = diff.split('\n').filter((line) => line.trim());
 
       const changedFiles: ChangedFile[] = [];
@@ -142,7 +159,7 @@ export class GitIntegration {
           // Filter for JavaScript/TypeScript files
           if (this.isAnalyzableFile(filePath)) {
             changedFiles.push({
-              path: path.resolve(this.rootPath, filePath),
+              path: path.resolve(repoRoot, filePath),
               status,
               insertions,
               deletions,
@@ -158,6 +175,175 @@ export class GitIntegration {
     }
   }
 
+  /**
+   * Get changed line ranges per file compared to base branch
+   */
+  async getChangedLines(options: GitDiffOptions = {}): Promise<FileLineChanges[]> {
+    const diffTarget = await this.resolveDiffTarget(options);
+
+    try {
+      const repoRoot = await this.getRepoRoot();
+      const diff = await this.git.diff([
+        '--unified=0',
+        '--no-renames',
+        '--diff-filter=ACM',
+        '--src-prefix=a/',
+        '--dst-prefix=b/',
+        diffTarget,
+      ]);
+
+      return GitIntegration.parseUnifiedDiff(diff, repoRoot).filter((file) =>
+        this.isAnalyzableFile(file.path)
+      );
+    } catch (error) {
+      console.warn('Failed to get git diff:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Parse unified diff output into per-file changed line ranges
+   *
+   * Expects zero-context hunks (`git diff --unified=0`) so that every hunk
+   * covers only lines that actually changed.
+   */
+  static parseUnifiedDiff(diff: string, rootPath: string): FileLineChanges[] {
+    const files: FileLineChanges[] = [];
+    let current: FileLineChanges | null = null;
+    let isNewFile = false;
+    // Lines left in the current hunk; headers are only read outside hunks,
+    // since an added line can itself start with '++ ' or 'diff --git '
+    let oldRemaining = 0;
+    let newRemaining = 0;
+
+    for (const line of diff.split('\n')) {
+      if (oldRemaining > 0 || newRemaining > 0) {
+        if (line.startsWith('+')) {
+          newRemaining--;
+        } else if (line.startsWith('-')) {
+          oldRemaining--;
+        } else if (line.startsWith(' ')) {
+          oldRemaining--;
+          newRemaining--;
+        }
+        continue;
+      }
+
+      if (line.startsWith('diff --git ')) {
+        current = null;
+        isNewFile = false;
+        continue;
+      }
+
+      if (line.startsWith('new file mode') || line === '--- /dev/null') {
+        isNewFile = true;
+        continue;
+      }
+
+      if (line.startsWith('+++ ')) {
+        const target = line.substring(4).trim();
+        if (target === '/dev/null') {
+          current = null;
+          continue;
+        }
+
+        current = {
+          path: path.resolve(rootPath, target.replace(/^b\//, '')),
+          isNewFile,
+          addedRanges: [],
+          deletionPoints: [],
+        };
+        files.push(current);
+        continue;
+      }
+
+      const hunk = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+      if (hunk) {
+        const oldCount = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+        const newStart = parseInt(hunk[3], 10);
+        const newCount = hunk[4] === undefined ? 1 : parseInt(hunk[4], 10);
+
+        if (current && newCount > 0) {
+          current.addedRanges.push({ start: newStart, end: newStart + newCount - 1 });
+        } else if (current && oldCount > 0) {
+          current.deletionPoints.push(newStart);
+        }
+        oldRemaining = oldCount;
+        newRemaining = newCount;
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Classify a line range (e.g. a function body) against a file's changes
+   *
+   * - new: the whole range was added (or the file itself is new)
+   * - modified: some lines in the range were added, rewritten or deleted
+   * - untouched: the change does not reach the range
+   */
+  static classifyRange(start: number, end: number, changes?: FileLineChanges): ChangeStatus {
+    if (!changes) {
+      return 'untouched';
+    }
+
+    if (changes.isNewFile) {
+      return 'new';
+    }
+
+    const overlapping = changes.addedRanges.filter((r) => r.start <= end && start <= r.end);
+
+    if (overlapping.some((r) => r.start <= start && end <= r.end)) {
+      return 'new';
+    }
+
+    if (overlapping.length > 0) {
+      return 'modified';
+    }
+
+    // A deletion after line p removed code between p and p + 1
+    if (changes.deletionPoints.some((p) => p >= start && p < end)) {
+      return 'modified';
+    }
+
+    return 'untouched';
+  }
+
+  /**
+   * Resolve the `git diff` target for the given options
+   */
+  private async resolveDiffTarget(options: GitDiffOptions): Promise<string> {
+    const { base, commit, staged = false } = options;
+
+    if (commit) {
+      return commit;
+    }
+
+    if (staged) {
+      return '--cached';
+    }
+
+    if (base) {
+      return `${base}...HEAD`;
+    }
+
+    const defaultBranch = await this.getDefaultBranch();
+    return `${defaultBranch}...HEAD`;
+  }
+
+  /**
+   * Get the top-level directory of the repository
+   */
+  async getRepoRoot(): Promise<string> {
+    try {
+      const root = await this.git.revparse(['--show-toplevel']);
+      return root.trim();
+    } catch {
+      return this.rootPath;
+    }
+  }
+
   /**
    * Get git blame information for a file at a specific line
    */
@@ -221,6 +407,22 @@ export class GitIntegration {
     }
   }
 
+  /**
+   * Absolute paths of files whose working tree differs from the index
+   */
+  async getUnstagedFiles(): Promise<string[]> {
+    try {
+      const repoRoot = await this.getRepoRoot();
+      const output = await this.git.diff(['--name-only']);
+      return output
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => path.resolve(repoRoot, line.trim()));
+    } catch {
+      return [];
+    }
+  }
+
   /**
    * Check if file has uncommitted changes
    */
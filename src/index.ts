@@ -23,7 +23,10 @@ export {
 export {
   Coordinates,
   type SemanticResult,
+  type DimensionIntensity,
   type ICEAnalysisResult,
+  type InheritedEffect,
+  type TypeSignal,
   type FunctionAnalysis,
 } from './core/coordinates';
 
@@ -39,13 +42,49 @@ export {
 } from './core/ljpw-baselines';
 
 // Vocabulary and semantic engine
-export { VocabularyManager, PROGRAMMING_VERBS, COMPOUND_PATTERNS, type Dimension } from './core/vocabulary';
+export {
+  VocabularyManager,
+  PROGRAMMING_VERBS,
+  WEIGHTED_VERBS,
+  COMPOUND_PATTERNS,
+  type Dimension,
+  type DimensionWeights,
+  type VocabularyEntry,
+} from './core/vocabulary';
+export { Lemmatizer, tokenizeIdentifier, DEFAULT_ABBREVIATIONS } from './core/tokenizer';
+export { BUNDLED_PACKS, loadVocabularyPack, type VocabularyPack } from './core/vocabulary-packs';
 export {
   SemanticEngine,
   SemanticAnalyzer,
   ICEAnalyzer,
   DISHARMONY_THRESHOLDS,
+  MAGNITUDE,
+  type SemanticEngineOptions,
 } from './core/engine';
+export {
+  DISTANCE_METRICS,
+  getDistanceMetric,
+  type DistanceMetric,
+  type DistanceMetricDefinition,
+} from './core/distance-metrics';
+export {
+  DEFAULT_PENALTY_MATRIX,
+  DRIFT_DESCRIPTIONS,
+  resolvePenaltyMatrix,
+  splitDrift,
+  calculateDirectionalPenalty,
+  type PenaltyMatrix,
+  type PenaltyMatrixConfig,
+  type DirectionalDrift,
+  type DirectionalPenalty,
+} from './core/penalty-matrix';
+export {
+  ANTI_PATTERNS,
+  MIN_ANTI_PATTERN_DRIFT,
+  getAntiPattern,
+  classifyAntiPattern,
+  type AntiPattern,
+} from './core/anti-patterns';
 
 // AST parser
 export {
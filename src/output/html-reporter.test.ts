@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HtmlReporter } from './html-reporter';
+import { ProjectAnalysisResult } from '../project/project-analyzer';
+
+function makeResult(): ProjectAnalysisResult {
+  return {
+    projectPath: '/project',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    config: { rootPath: '/project' },
+    files: [
+      {
+        filePath: '/project/user.js',
+        relativePath: 'user.js',
+        status: 'success',
+        analysisTime: 1,
+        functions: [
+          {
+            name: 'getUser',
+            line: 2,
+            endLine: 4,
+            disharmony: 0.9,
+            severity: 'HIGH',
+            level: 'error',
+            coordinates: {
+              intent: { love: 0, justice: 0, power: 0, wisdom: 1 },
+              execution: { love: 0, justice: 0, power: 1, wisdom: 0 },
+            },
+          },
+          { name: 'isValid', line: 5, disharmony: 0.1, severity: 'LOW' },
+        ],
+        metrics: {
+          totalFunctions: 2,
+          disharmoniousFunctions: 1,
+          averageDisharmony: 0.5,
+          maxDisharmony: 0.9,
+        },
+      },
+    ],
+    summary: {
+      totalFiles: 1,
+      analyzedFiles: 1,
+      errorFiles: 0,
+      skippedFiles: 0,
+      totalFunctions: 2,
+      disharmoniousFunctions: 1,
+      averageDisharmony: 0.5,
+      maxDisharmony: 0.9,
+      analysisTime: 10,
+    },
+    errors: [],
+  };
+}
+
+describe('HtmlReporter', () => {
+  it('should render charts as inline SVG without external resources', () => {
+    const html = HtmlReporter.generate(makeResult());
+
+    expect(html).not.toMatch(/https?:\/\//);
+    expect(html).not.toMatch(/<script[^>]*src=/);
+    expect(html).toContain('aria-label="Severity distribution"');
+    expect(html).toContain('<title>HIGH: 1</title>');
+    expect(html).toContain('<title>user.js: 0.500</title>');
+  });
+
+  it('should leave out charts when disabled', () => {
+    const html = HtmlReporter.generate(makeResult(), { includeCharts: false });
+
+    expect(html).not.toContain('<svg');
+  });
+
+  it('should render filter, search and sort controls for flagged functions', () => {
+    const html = HtmlReporter.generate(makeResult());
+
+    expect(html).toContain('id="issue-search"');
+    expect(html).toContain('<option value="composite">');
+    expect(html).toContain('data-name="getuser"');
+    expect(html).toContain('data-dimension="power"');
+    expect(html).not.toContain('data-name="isvalid"');
+  });
+
+  it('should embed a drift panel for each issue', () => {
+    const html = HtmlReporter.generate(makeResult());
+
+    expect(html).toContain('Semantic trajectory: getUser()');
+    expect(html).toMatch(/Primary drift: <strong>(POWER|WISDOM)<\/strong>/);
+  });
+
+  it('should embed highlighted source lines with context', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'harmonizer-html-'));
+    const result = makeResult();
+    result.files[0].filePath = path.join(dir, 'user.js');
+    fs.writeFileSync(
+      result.files[0].filePath,
+      '// users\nfunction getUser(id) {\n  return db.delete(id);\n}\n\n// end\n// tail\n'
+    );
+
+    try {
+      const html = HtmlReporter.generate(result);
+      const highlighted = html.match(/source-line highlighted/g) ?? [];
+
+      expect(highlighted).toHaveLength(3);
+      expect(html).toContain('return db.delete(id);');
+      expect(html).not.toContain('// tail');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
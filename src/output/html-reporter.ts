@@ -1,16 +1,26 @@
 /**
  * HTML Report Generator
- * Creates beautiful, interactive HTML reports with charts and tables
+ * Creates beautiful, self-contained HTML reports with charts and tables.
+ * Charts are rendered as inline SVG, so reports work without network access.
  */
 
-import { ProjectAnalysisResult } from '../project/project-analyzer';
+import { FileAnalysisResult, ProjectAnalysisResult } from '../project/project-analyzer';
+import { Coordinates } from '../core/coordinates';
+import { TrajectoryMapGenerator } from '../visualization/trajectory-maps';
+import { escapeHtml } from '../utils/html';
 import * as fs from 'fs';
 import * as path from 'path';
 
+type FunctionResult = FileAnalysisResult['functions'][number];
+
+const SNIPPET_CONTEXT = 2; // Lines shown around a function's source
+const SNIPPET_MAX_LINES = 40;
+
 export interface HtmlReportOptions {
   title?: string;
   includeCharts?: boolean;
   includeFileDetails?: boolean;
+  includeSource?: boolean; // Embed source lines for each issue (default: true)
   theme?: 'light' | 'dark';
 }
 
@@ -29,6 +39,7 @@ export class HtmlReporter {
       title = 'Code Harmonizer Report',
       includeCharts = true,
       includeFileDetails = true,
+      includeSource = true,
       theme = 'light',
     } = options;
 
@@ -37,8 +48,7 @@ export class HtmlReporter {
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${this.escapeHtml(title)}</title>
-    ${includeCharts ? '<script src="https://cdn.jsdelivr.net/npm/chart.js@4.4.0/dist/chart.umd.min.js"></script>' : ''}
+    <title>${escapeHtml(title)}</title>
     <style>
         ${this.getStyles(theme)}
     </style>
@@ -48,11 +58,10 @@ export class HtmlReporter {
         ${this.generateHeader(result, title)}
         ${this.generateSummary(result)}
         ${includeCharts ? this.generateCharts(result) : ''}
-        ${this.generateIssuesList(result)}
+        ${this.generateIssuesList(result, includeSource)}
         ${includeFileDetails ? this.generateFileDetails(result) : ''}
         ${this.generateFooter(result)}
     </div>
-    ${includeCharts ? this.generateChartScript(result) : ''}
 </body>
 </html>`;
 
@@ -195,6 +204,16 @@ export class HtmlReporter {
             height: 300px;
         }
 
+        .chart-container svg {
+            width: 100%;
+            height: 100%;
+        }
+
+        .chart-container svg text {
+            fill: currentColor;
+            font-size: 12px;
+        }
+
         .section {
             background: ${cardBg};
             padding: 30px;
@@ -247,7 +266,96 @@ export class HtmlReporter {
             display: flex;
             justify-content: space-between;
             align-items: center;
-            margin-bottom: 10px;
+            gap: 10px;
+            cursor: pointer;
+            list-style: none;
+        }
+
+        .issue-header::-webkit-details-marker {
+            display: none;
+        }
+
+        .issue-header::before {
+            content: '▸';
+            color: #8b95a5;
+            margin-right: 4px;
+        }
+
+        .issue-item[open] > .issue-header::before {
+            content: '▾';
+        }
+
+        .issue-meta {
+            display: flex;
+            align-items: center;
+            gap: 12px;
+            margin-left: auto;
+        }
+
+        .issue-body {
+            margin-top: 12px;
+            display: flex;
+            flex-direction: column;
+            gap: 10px;
+        }
+
+        .issue-controls {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 10px;
+            margin-bottom: 15px;
+        }
+
+        .issue-controls input,
+        .issue-controls select {
+            padding: 6px 10px;
+            border: 1px solid ${borderColor};
+            border-radius: 6px;
+            background: ${cardBg};
+            color: ${textColor};
+            font-size: 0.9em;
+        }
+
+        .issue-controls input {
+            flex: 1;
+            min-width: 180px;
+        }
+
+        .issue-count {
+            font-size: 0.85em;
+            color: #8b95a5;
+        }
+
+        .source-snippet {
+            padding: 10px 0;
+            background: ${isDark ? '#1a1a1a' : '#ffffff'};
+            border: 1px solid ${borderColor};
+            border-radius: 6px;
+            overflow-x: auto;
+            font-size: 0.85em;
+            line-height: 1.5;
+        }
+
+        .source-line {
+            display: block;
+            padding: 0 10px;
+        }
+
+        .source-line.highlighted {
+            background: ${isDark ? '#3a3320' : '#fff8e1'};
+        }
+
+        .line-number {
+            display: inline-block;
+            margin-right: 12px;
+            color: #8b95a5;
+            user-select: none;
+        }
+
+        .source-truncated {
+            font-size: 0.8em;
+            color: #8b95a5;
         }
 
         .issue-title {
@@ -280,15 +388,28 @@ export class HtmlReporter {
             color: white;
         }
 
-        .issue-location {
+        .pattern-badge {
+            padding: 4px 10px;
+            border-radius: 20px;
+            font-size: 0.75em;
+            border: 1px solid ${borderColor};
+            color: #8b95a5;
+        }
+
+        .anti-pattern {
+            margin-bottom: 10px;
             font-size: 0.9em;
+        }
+
+        .anti-pattern-fix {
+            margin-top: 4px;
             color: #8b95a5;
-            font-family: 'Monaco', 'Menlo', 'Courier New', monospace;
         }
 
-        .issue-score {
-            margin-top: 10px;
-            font-size: 0.95em;
+        .issue-location {
+            font-size: 0.9em;
+            color: #8b95a5;
+            font-family: 'Monaco', 'Menlo', 'Courier New', monospace;
         }
 
         .score-value {
@@ -432,9 +553,9 @@ export class HtmlReporter {
   private static generateHeader(result: ProjectAnalysisResult, title: string): string {
     return `
         <div class="header">
-            <h1>${this.escapeHtml(title)}</h1>
+            <h1>${escapeHtml(title)}</h1>
             <p>Generated on ${new Date(result.timestamp).toLocaleString()}</p>
-            <p>Project: ${this.escapeHtml(result.projectPath)}</p>
+            <p>Project: ${escapeHtml(result.projectPath)}</p>
         </div>
     `;
   }
@@ -477,19 +598,45 @@ export class HtmlReporter {
   /**
    * Generate charts section
    */
-  private static generateCharts(_result: ProjectAnalysisResult): string {
+  private static generateCharts(result: ProjectAnalysisResult): string {
+    // Count severity
+    const severityCounts = { HIGH: 0, MEDIUM: 0, LOW: 0 };
+    for (const file of result.files) {
+      if (file.status === 'success') {
+        for (const func of file.functions) {
+          severityCounts[func.severity]++;
+        }
+      }
+    }
+
+    // Get top 10 worst files
+    const files = result.files
+      .filter((f) => f.status === 'success' && f.metrics.totalFunctions > 0)
+      .sort((a, b) => b.metrics.averageDisharmony - a.metrics.averageDisharmony)
+      .slice(0, 10);
+
     return `
         <div class="charts">
             <div class="chart-card">
                 <h2>Severity Distribution</h2>
                 <div class="chart-container">
-                    <canvas id="severityChart"></canvas>
+                    ${this.renderDonutChart([
+                      { label: 'HIGH', value: severityCounts.HIGH, color: '#e74c3c' },
+                      { label: 'MEDIUM', value: severityCounts.MEDIUM, color: '#f39c12' },
+                      { label: 'LOW', value: severityCounts.LOW, color: '#3498db' },
+                    ])}
                 </div>
             </div>
             <div class="chart-card">
                 <h2>Top 10 Worst Files</h2>
                 <div class="chart-container">
-                    <canvas id="filesChart"></canvas>
+                    ${this.renderBarChart(
+                      files.map((f) => ({
+                        label: f.relativePath,
+                        value: f.metrics.averageDisharmony,
+                      })),
+                      '#667eea'
+                    )}
                 </div>
             </div>
         </div>
@@ -497,19 +644,91 @@ export class HtmlReporter {
   }
 
   /**
-   * Generate issues list
+   * Render a doughnut chart with a legend as inline SVG
+   */
+  private static renderDonutChart(
+    segments: Array<{ label: string; value: number; color: string }>
+  ): string {
+    const radius = 70;
+    const circumference = 2 * Math.PI * radius;
+    const total = segments.reduce((sum, s) => sum + s.value, 0);
+
+    let offset = 0;
+    const arcs = segments
+      .filter((s) => s.value > 0)
+      .map((s) => {
+        const length = (s.value / total) * circumference;
+        const arc = `<circle cx="120" cy="100" r="${radius}" fill="none" stroke="${s.color}" stroke-width="30" stroke-dasharray="${length.toFixed(2)} ${(circumference - length).toFixed(2)}" stroke-dashoffset="${(-offset).toFixed(2)}" transform="rotate(-90 120 100)"><title>${s.label}: ${s.value}</title></circle>`;
+        offset += length;
+        return arc;
+      });
+
+    if (total === 0) {
+      arcs.push(
+        `<circle cx="120" cy="100" r="${radius}" fill="none" stroke="#d0d5dd" stroke-width="30"></circle>`
+      );
+    }
+
+    const legend = segments
+      .map(
+        (s, i) =>
+          `<rect x="${5 + i * 80}" y="222" width="10" height="10" fill="${s.color}"></rect>` +
+          `<text x="${19 + i * 80}" y="231">${s.label} (${s.value})</text>`
+      )
+      .join('');
+
+    return `<svg viewBox="0 0 240 240" role="img" aria-label="Severity distribution">${arcs.join('')}<text x="120" y="106" text-anchor="middle" style="font-size: 20px; font-weight: 700">${total}</text>${legend}</svg>`;
+  }
+
+  /**
+   * Render a horizontal bar chart as inline SVG
    */
-  private static generateIssuesList(result: ProjectAnalysisResult): string {
+  private static renderBarChart(
+    bars: Array<{ label: string; value: number }>,
+    color: string
+  ): string {
+    if (bars.length === 0) {
+      return '<svg viewBox="0 0 600 40" role="img" aria-label="No data"><text x="300" y="24" text-anchor="middle">No analyzed files</text></svg>';
+    }
+
+    const labelWidth = 220;
+    const barArea = 320;
+    const rowHeight = 28;
+    const scaleMax = Math.max(1, ...bars.map((b) => b.value));
+    const height = bars.length * rowHeight + 10;
+
+    const rows = bars
+      .map((bar, i) => {
+        const y = i * rowHeight + 5;
+        const width = Math.max(1, (bar.value / scaleMax) * barArea);
+        const label = bar.label.length > 32 ? `…${bar.label.slice(-31)}` : bar.label;
+        return (
+          `<g><title>${escapeHtml(bar.label)}: ${bar.value.toFixed(3)}</title>` +
+          `<text x="${labelWidth - 8}" y="${y + 17}" text-anchor="end">${escapeHtml(label)}</text>` +
+          `<rect x="${labelWidth}" y="${y + 4}" width="${width.toFixed(1)}" height="${rowHeight - 8}" rx="4" fill="${color}"></rect>` +
+          `<text x="${labelWidth + width + 6}" y="${y + 17}">${bar.value.toFixed(3)}</text></g>`
+        );
+      })
+      .join('');
+
+    return `<svg viewBox="0 0 600 ${height}" preserveAspectRatio="xMinYMin meet" role="img" aria-label="Average disharmony by file">${rows}</svg>`;
+  }
+
+  /**
+   * Generate issues list with filter, search and sort controls. Each issue
+   * expands to show its source lines and semantic trajectory.
+   */
+  private static generateIssuesList(result: ProjectAnalysisResult, includeSource: boolean): string {
     const issues: Array<{
-      file: string;
-      func: any;
+      file: FileAnalysisResult;
+      func: FunctionResult;
     }> = [];
 
     for (const file of result.files) {
       if (file.status === 'success') {
         for (const func of file.functions) {
-          if (func.disharmony > 0.5) {
-            issues.push({ file: file.relativePath, func });
+          if (func.level) {
+            issues.push({ file, func });
           }
         }
       }
@@ -528,22 +747,39 @@ export class HtmlReporter {
         `;
     }
 
+    const sources = new Map<string, string[] | null>();
+    const directories = [...new Set(issues.map((issue) => this.directoryOf(issue.file)))].sort();
+
     const issuesHtml = issues
-      .slice(0, 50)
       .map((issue) => {
-        const severityClass = `severity-${issue.func.severity.toLowerCase()}`;
-        const badgeClass = `badge-${issue.func.severity.toLowerCase()}`;
+        const { file, func } = issue;
+        const severityClass = `severity-${func.severity.toLowerCase()}`;
+        const badgeClass = `badge-${func.severity.toLowerCase()}`;
+        const dimension = func.coordinates
+          ? Coordinates.from(func.coordinates.execution).getDominantDimension()
+          : '';
+
+        const pattern = func.antiPattern;
+        const patternHtml = pattern
+          ? `
+                <div class="anti-pattern">
+                    <strong>${escapeHtml(pattern.name)}</strong> <code>${pattern.id}</code>
+                    <div>${escapeHtml(pattern.description)}</div>
+                    <div class="anti-pattern-fix">Fix: ${escapeHtml(pattern.remediation)}</div>
+                </div>
+            `
+          : '';
 
         let suggestionsHtml = '';
-        if (issue.func.suggestions && issue.func.suggestions.length > 0) {
+        if (func.suggestions && func.suggestions.length > 0) {
           suggestionsHtml = `
                 <div class="suggestions">
                     <div class="suggestions-title">💡 Better name suggestions:</div>
-                    ${issue.func.suggestions
+                    ${func.suggestions
                       .slice(0, 5)
                       .map(
-                        (s: any) =>
-                          `<span class="suggestion-tag">${this.escapeHtml(s.name)} (${(s.similarity * 100).toFixed(0)}%)</span>`
+                        (s) =>
+                          `<span class="suggestion-tag">${escapeHtml(s.name)} (${(s.similarity * 100).toFixed(0)}%)</span>`
                       )
                       .join('')}
                 </div>
@@ -552,8 +788,8 @@ export class HtmlReporter {
 
         // Add baselines metrics if available
         let baselinesHtml = '';
-        if (issue.func.baselines) {
-          const b = issue.func.baselines;
+        if (func.baselines) {
+          const b = func.baselines;
           baselinesHtml = `
                 <div class="baselines-metrics">
                     <div class="baselines-title">📊 Quality Metrics</div>
@@ -575,39 +811,190 @@ export class HtmlReporter {
                             <span class="metric-value">${b.growthPotential.toFixed(2)}</span>
                         </div>
                     </div>
-                    <div class="baselines-interpretation">${this.escapeHtml(b.interpretation)}</div>
+                    <div class="baselines-interpretation">${escapeHtml(b.interpretation)}</div>
                 </div>
             `;
         }
 
+        const trajectoryHtml = func.coordinates
+          ? TrajectoryMapGenerator.generateHTMLVisualization([
+              {
+                name: func.name,
+                intent: Coordinates.from(func.coordinates.intent),
+                execution: Coordinates.from(func.coordinates.execution),
+              },
+            ])
+          : '';
+
+        let sourceHtml = '';
+        if (includeSource) {
+          if (!sources.has(file.filePath)) {
+            sources.set(file.filePath, this.readSourceLines(file.filePath));
+          }
+          sourceHtml = this.renderSourceSnippet(sources.get(file.filePath) ?? null, func);
+        }
+
         return `
-                <div class="issue-item ${severityClass}">
-                    <div class="issue-header">
-                        <div class="issue-title">${this.escapeHtml(issue.func.name)}()</div>
-                        <span class="issue-badge ${badgeClass}">${issue.func.severity}</span>
-                    </div>
-                    <div class="issue-location">${this.escapeHtml(issue.file)}:${issue.func.line}</div>
-                    <div class="issue-score">
-                        Disharmony: <span class="score-value">${issue.func.disharmony.toFixed(3)}</span>
+                <details class="issue-item ${severityClass}"
+                    data-name="${escapeHtml(func.name.toLowerCase())}"
+                    data-severity="${func.severity}"
+                    data-directory="${escapeHtml(this.directoryOf(file))}"
+                    data-dimension="${dimension}"
+                    data-disharmony="${func.disharmony}"
+                    data-composite="${func.baselines?.compositeScore ?? ''}">
+                    <summary class="issue-header">
+                        <span class="issue-title">${escapeHtml(func.name)}()</span>
+                        <span class="issue-meta">
+                            <span class="issue-location">${escapeHtml(file.relativePath)}:${func.line}</span>
+                            ${pattern ? `<span class="pattern-badge">${escapeHtml(pattern.name)}</span>` : ''}
+                            <span class="score-value">${func.disharmony.toFixed(3)}</span>
+                            <span class="issue-badge ${badgeClass}">${func.severity}</span>
+                        </span>
+                    </summary>
+                    <div class="issue-body">
+                        ${patternHtml}
+                        ${sourceHtml}
+                        ${trajectoryHtml}
+                        ${baselinesHtml}
+                        ${suggestionsHtml}
                     </div>
-                    ${baselinesHtml}
-                    ${suggestionsHtml}
-                </div>
+                </details>
             `;
       })
       .join('');
 
+    const option = (value: string, label: string) =>
+      `<option value="${escapeHtml(value)}">${escapeHtml(label)}</option>`;
+
     return `
         <div class="section">
             <h2>Issues Found (${issues.length})</h2>
-            <div class="issue-list">
+            <div class="issue-controls">
+                <input type="search" id="issue-search" placeholder="Search function names…" aria-label="Search function names">
+                <select id="issue-severity" aria-label="Filter by severity">
+                    ${option('', 'All severities')}${['HIGH', 'MEDIUM', 'LOW'].map((s) => option(s, s)).join('')}
+                </select>
+                <select id="issue-directory" aria-label="Filter by directory">
+                    ${option('', 'All directories')}${directories.map((d) => option(d, d)).join('')}
+                </select>
+                <select id="issue-dimension" aria-label="Filter by dominant execution dimension">
+                    ${option('', 'All dimensions')}${['love', 'justice', 'power', 'wisdom'].map((d) => option(d, d.toUpperCase())).join('')}
+                </select>
+                <select id="issue-sort" aria-label="Sort issues">
+                    ${option('disharmony', 'Highest disharmony')}${option('composite', 'Lowest composite score')}
+                </select>
+                <span id="issue-count" class="issue-count">${issues.length} of ${issues.length}</span>
+            </div>
+            <div class="issue-list" id="issue-list">
                 ${issuesHtml}
             </div>
-            ${issues.length > 50 ? `<p style="text-align: center; margin-top: 20px; color: #8b95a5;">Showing top 50 of ${issues.length} issues</p>` : ''}
         </div>
+        <script>
+            ${this.getIssueScript()}
+        </script>
     `;
   }
 
+  /**
+   * Vanilla JS for the issue controls: filters and search hide issues, sort
+   * reorders them in place
+   */
+  private static getIssueScript(): string {
+    return `(function () {
+                var list = document.getElementById('issue-list');
+                var items = Array.prototype.slice.call(list.querySelectorAll('.issue-item'));
+                var search = document.getElementById('issue-search');
+                var severity = document.getElementById('issue-severity');
+                var directory = document.getElementById('issue-directory');
+                var dimension = document.getElementById('issue-dimension');
+                var sort = document.getElementById('issue-sort');
+                var count = document.getElementById('issue-count');
+
+                function number(item, key, fallback) {
+                    var value = parseFloat(item.getAttribute('data-' + key));
+                    return isNaN(value) ? fallback : value;
+                }
+
+                function apply() {
+                    var query = search.value.trim().toLowerCase();
+                    var shown = 0;
+                    items.forEach(function (item) {
+                        var visible =
+                            item.getAttribute('data-name').indexOf(query) !== -1 &&
+                            (!severity.value || item.getAttribute('data-severity') === severity.value) &&
+                            (!directory.value || item.getAttribute('data-directory') === directory.value) &&
+                            (!dimension.value || item.getAttribute('data-dimension') === dimension.value);
+                        item.hidden = !visible;
+                        if (visible) shown++;
+                    });
+                    items
+                        .slice()
+                        .sort(function (a, b) {
+                            return sort.value === 'composite'
+                                ? number(a, 'composite', Infinity) - number(b, 'composite', Infinity)
+                                : number(b, 'disharmony', 0) - number(a, 'disharmony', 0);
+                        })
+                        .forEach(function (item) {
+                            list.appendChild(item);
+                        });
+                    count.textContent = shown + ' of ' + items.length;
+                }
+
+                [search, severity, directory, dimension, sort].forEach(function (control) {
+                    control.addEventListener('input', apply);
+                    control.addEventListener('change', apply);
+                });
+            })();`;
+  }
+
+  /**
+   * Read a source file as lines, or null when it can no longer be read
+   */
+  private static readSourceLines(filePath: string): string[] | null {
+    try {
+      return fs.readFileSync(filePath, 'utf-8').split(/\r?\n/);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Render a function's source lines with a little surrounding context
+   */
+  private static renderSourceSnippet(lines: string[] | null, func: FunctionResult): string {
+    if (!lines) {
+      return '';
+    }
+
+    const endLine = func.endLine ?? func.line;
+    const first = Math.max(1, func.line - SNIPPET_CONTEXT);
+    const last = Math.min(lines.length, endLine + SNIPPET_CONTEXT, first + SNIPPET_MAX_LINES - 1);
+    const width = String(last).length;
+
+    const rows = [];
+    for (let n = first; n <= last; n++) {
+      const highlighted = n >= func.line && n <= endLine;
+      rows.push(
+        `<span class="source-line${highlighted ? ' highlighted' : ''}">` +
+          `<span class="line-number">${String(n).padStart(width)}</span>` +
+          `${escapeHtml(lines[n - 1])}</span>`
+      );
+    }
+    const hidden = Math.min(lines.length, endLine + SNIPPET_CONTEXT) - last;
+
+    return `
+                <pre class="source-snippet"><code>${rows.join('\n')}</code></pre>
+                ${hidden > 0 ? `<div class="source-truncated">… ${hidden} more lines</div>` : ''}
+            `;
+  }
+
+  /**
+   * Directory of a file relative to the project root, '.' for the root
+   */
+  private static directoryOf(file: FileAnalysisResult): string {
+    return path.dirname(file.relativePath).split(path.sep).join('/');
+  }
+
   /**
    * Generate file details section
    */
@@ -628,7 +1015,7 @@ export class HtmlReporter {
         return `
                 <div class="file-card">
                     <div class="file-header">
-                        <div class="file-path">${healthIcon} ${this.escapeHtml(file.relativePath)}</div>
+                        <div class="file-path">${healthIcon} ${escapeHtml(file.relativePath)}</div>
                         <div class="file-stats">
                             <span>${file.metrics.totalFunctions} functions</span>
                             <span>${file.metrics.disharmoniousFunctions} issues</span>
@@ -661,100 +1048,4 @@ export class HtmlReporter {
         </div>
     `;
   }
-
-  /**
-   * Generate Chart.js script
-   */
-  private static generateChartScript(result: ProjectAnalysisResult): string {
-    // Count severity
-    const severityCounts = { HIGH: 0, MEDIUM: 0, LOW: 0 };
-    for (const file of result.files) {
-      if (file.status === 'success') {
-        for (const func of file.functions) {
-          severityCounts[func.severity]++;
-        }
-      }
-    }
-
-    // Get top 10 worst files
-    const files = result.files
-      .filter((f) => f.status === 'success' && f.metrics.totalFunctions > 0)
-      .sort((a, b) => b.metrics.averageDisharmony - a.metrics.averageDisharmony)
-      .slice(0, 10);
-
-    const fileLabels = files.map((f) => f.relativePath);
-    const fileScores = files.map((f) => f.metrics.averageDisharmony);
-
-    return `
-    <script>
-        // Severity Chart
-        const severityCtx = document.getElementById('severityChart').getContext('2d');
-        new Chart(severityCtx, {
-            type: 'doughnut',
-            data: {
-                labels: ['HIGH', 'MEDIUM', 'LOW'],
-                datasets: [{
-                    data: [${severityCounts.HIGH}, ${severityCounts.MEDIUM}, ${severityCounts.LOW}],
-                    backgroundColor: ['#e74c3c', '#f39c12', '#3498db'],
-                    borderWidth: 0
-                }]
-            },
-            options: {
-                responsive: true,
-                maintainAspectRatio: false,
-                plugins: {
-                    legend: {
-                        position: 'bottom'
-                    }
-                }
-            }
-        });
-
-        // Files Chart
-        const filesCtx = document.getElementById('filesChart').getContext('2d');
-        new Chart(filesCtx, {
-            type: 'bar',
-            data: {
-                labels: ${JSON.stringify(fileLabels)},
-                datasets: [{
-                    label: 'Avg Disharmony',
-                    data: ${JSON.stringify(fileScores)},
-                    backgroundColor: '#667eea',
-                    borderRadius: 4
-                }]
-            },
-            options: {
-                responsive: true,
-                maintainAspectRatio: false,
-                indexAxis: 'y',
-                plugins: {
-                    legend: {
-                        display: false
-                    }
-                },
-                scales: {
-                    x: {
-                        beginAtZero: true,
-                        max: 1.5
-                    }
-                }
-            }
-        });
-    </script>
-    `;
-  }
-
-  /**
-   * Escape HTML entities
-   */
-  private static escapeHtml(text: string): string {
-    const map: Record<string, string> = {
-      '&': '&amp;',
-      '<': '&lt;',
-      '>': '&gt;',
-      '"': '&quot;',
-      "'": '&#039;',
-    };
-    return text.replace(/[&<>"']/g, (m) => map[m]);
-  }
 }
@@ -5,6 +5,7 @@
  */
 
 import { ProjectAnalysisResult } from '../project/project-analyzer';
+import { ANTI_PATTERNS, AntiPattern } from '../core/anti-patterns';
 
 export interface SarifLog {
   version: '2.1.0';
@@ -24,6 +25,7 @@ export interface SarifRun {
   results: SarifResult[];
   properties?: {
     metrics?: Record<string, number>;
+    distanceMetric?: string; // How disharmony was measured
   };
 }
 
@@ -110,6 +112,7 @@ export class SarifFormatter {
               averageDisharmony: result.summary.averageDisharmony,
               maxDisharmony: result.summary.maxDisharmony,
             },
+            distanceMetric: result.metric,
           },
         },
       ],
@@ -184,9 +187,37 @@ export class SarifFormatter {
           tags: ['semantic', 'naming', 'code-quality'],
         },
       },
+      ...ANTI_PATTERNS.map((pattern) => this.createAntiPatternRule(pattern)),
     ];
   }
 
+  /**
+   * Create the rule for a named anti-pattern. Findings that match one use it
+   * instead of the severity rules; the result level still follows severity.
+   */
+  private static createAntiPatternRule(pattern: AntiPattern): SarifRule {
+    return {
+      id: pattern.id,
+      name: pattern.name,
+      shortDescription: {
+        text: `${pattern.name}: ${pattern.from} name, ${pattern.to} implementation`,
+      },
+      fullDescription: {
+        text: pattern.description,
+      },
+      help: {
+        text: pattern.remediation,
+        markdown: `## ${pattern.name}\n\n${pattern.description}\n\n### How to fix\n${pattern.remediation}`,
+      },
+      defaultConfiguration: {
+        level: 'warning',
+      },
+      properties: {
+        tags: ['semantic', 'naming', 'anti-pattern'],
+      },
+    };
+  }
+
   /**
    * Create SARIF results from analysis
    */
@@ -199,13 +230,16 @@ export class SarifFormatter {
       }
 
       for (const func of file.functions) {
-        // Only report functions with disharmony above threshold
-        if (func.disharmony < 0.3) {
+        // Only report functions flagged by the disharmony-threshold rule
+        if (!func.level) {
           continue;
         }
 
-        const ruleId = this.getRuleId(func.severity);
-        const level = this.getLevel(func.severity);
+        const ruleId = func.antiPattern?.id ?? this.getRuleId(func.severity);
+        const severityLevel = this.getLevel(func.severity);
+        // Rules configured as 'warn' never fail a SARIF upload
+        const level =
+          func.level === 'warn' && severityLevel === 'error' ? 'warning' : severityLevel;
 
         const message = this.createMessage(func);
 
@@ -276,17 +310,29 @@ export class SarifFormatter {
     disharmony: number;
     severity: string;
     suggestions?: Array<{ name: string; similarity: number }>;
+    antiPattern?: AntiPattern;
   }): { text: string; markdown?: string } {
-    const text = `Function '${func.name}' has ${func.severity.toLowerCase()} semantic disharmony (${func.disharmony.toFixed(3)})`;
+    const pattern = func.antiPattern;
+    const text =
+      `Function '${func.name}' has ${func.severity.toLowerCase()} semantic disharmony (${func.disharmony.toFixed(3)})` +
+      (pattern ? `: ${pattern.name}` : '');
 
     let markdown = `## Semantic Disharmony: \`${func.name}\`\n\n`;
     markdown += `**Severity**: ${func.severity}\n`;
-    markdown += `**Disharmony Score**: ${func.disharmony.toFixed(3)}\n\n`;
+    markdown += `**Disharmony Score**: ${func.disharmony.toFixed(3)}\n`;
+    if (pattern) {
+      markdown += `**Anti-pattern**: ${pattern.name} (\`${pattern.id}\`)\n`;
+    }
+    markdown += `\n`;
 
     markdown += `### What this means\n`;
-    markdown +=
-      `The function name "${func.name}" does not accurately represent what the function actually does. `;
-    markdown += `This can lead to confusion and bugs.\n\n`;
+    if (pattern) {
+      markdown += `${pattern.description}\n\n`;
+    } else {
+      markdown +=
+        `The function name "${func.name}" does not accurately represent what the function actually does. `;
+      markdown += `This can lead to confusion and bugs.\n\n`;
+    }
 
     if (func.suggestions && func.suggestions.length > 0) {
       markdown += `### Suggested names\n`;
@@ -299,6 +345,9 @@ export class SarifFormatter {
     }
 
     markdown += `### Recommended actions\n`;
+    if (pattern) {
+      markdown += `${pattern.remediation}\n\n`;
+    }
     markdown += `1. Review the function's implementation\n`;
     markdown += `2. Rename the function to match what it actually does\n`;
     markdown += `3. Update all callers after renaming\n`;
@@ -0,0 +1,345 @@
+import { ASTSemanticParser } from './ast-parser';
+import { VocabularyManager } from '../core/vocabulary';
+
+describe('ASTSemanticParser', () => {
+  const parser = new ASTSemanticParser(new VocabularyManager());
+
+  function analyze(code: string, name: string, filePath?: string) {
+    const found = parser.extractFunctions(code, filePath).find((f) => f.metadata.name === name);
+    if (!found) throw new Error(`Function ${name} not found`);
+    return parser.analyzeFunction(found.node, found.metadata);
+  }
+
+  describe('context', () => {
+    it('should collect class, file, imports, export status and parameter types', () => {
+      const result = analyze(
+        [
+          "import { z } from 'zod';",
+          'export class UserValidator {',
+          '  validate(user: User) { return true; }',
+          '}',
+        ].join('\n'),
+        'validate',
+        'src/validation/userValidator.ts'
+      );
+
+      expect(result.metadata.context).toEqual({
+        className: 'UserValidator',
+        fileName: 'userValidator',
+        directoryName: 'validation',
+        imports: ['zod'],
+        exported: true,
+        paramTypes: ['User'],
+      });
+      expect(result.context).toEqual([
+        'UserValidator',
+        'userValidator',
+        'validation',
+        'zod',
+        'public',
+        'user',
+        'User',
+      ]);
+    });
+  });
+
+  describe('extraction', () => {
+    it('should name class fields, exports, object properties, computed keys and callbacks', () => {
+      const names = parser
+        .extractFunctions(
+          [
+            'class Button {',
+            '  handleClick = () => {};',
+            "  ['save-user']() {}",
+            '  [Symbol.iterator]() {}',
+            '  [dynamicKey]() {}',
+            '}',
+            'export default function () {}',
+            'module.exports.deleteUser = function () {};',
+            'const api = { save: async () => {} };',
+            "app.get('/users', (req, res) => res.send(users));",
+            'items.map((item) => item.id);',
+            'useEffect(() => {});',
+          ].join('\n'),
+          'src/components/UserCard.tsx'
+        )
+        .map((f) => f.metadata.name);
+
+      expect(names).toEqual([
+        'handleClick',
+        'save-user',
+        'Symbol.iterator',
+        'UserCard',
+        'deleteUser',
+        'save',
+        "app.get('/users') callback",
+        'useEffect() callback',
+      ]);
+    });
+
+    it('should judge getters and setters against their accessor semantics', () => {
+      const code = 'class User {\n  get name() { return 1; }\n  set name(v) {}\n}';
+      const [getter, setter] = parser.extractFunctions(code);
+
+      expect(getter.metadata.accessor).toBe('get');
+      expect(parser.analyzeFunction(getter.node, getter.metadata).intent).toEqual(['get name']);
+      expect(parser.analyzeFunction(setter.node, setter.metadata).intent).toEqual(['set name']);
+    });
+
+    it('should treat CommonJS exports as exported', () => {
+      const result = analyze('exports.run = () => {};', 'run');
+
+      expect(result.metadata.context?.exported).toBe(true);
+    });
+  });
+
+  describe('nested functions', () => {
+    const code = [
+      'function loadUsers() {',
+      '  const onError = (err) => {',
+      "    fs.writeFileSync('log', err);",
+      '    process.exit(1);',
+      '  };',
+      '  return fetchUsers().catch(onError);',
+      '}',
+    ].join('\n');
+
+    it('should record a nested function as defined, without its body', () => {
+      const result = analyze(code, 'loadUsers');
+
+      expect(result.execution).not.toContain('writeFileSync');
+      expect(result.execution.filter((concept) => concept === 'callback')).toHaveLength(1);
+      expect(result.executionMap.find((m) => m.description === 'Defines callback onError')).toEqual(
+        expect.not.objectContaining({ dimension: expect.anything() })
+      );
+    });
+
+    it('should fold callbacks that run synchronously into the parent', () => {
+      const result = analyze(
+        [
+          'function resetCounts(items) {',
+          '  items.forEach((item) => {',
+          '    item.count = 0;',
+          '    store.save(item);',
+          '  });',
+          '  (() => {',
+          "    logger.log('reset');",
+          '  })();',
+          '}',
+        ].join('\n'),
+        'resetCounts'
+      );
+
+      expect(result.execution).toEqual(expect.arrayContaining(['save', 'log']));
+      expect(result.executionMap.map((m) => m.description)).not.toContain(
+        'Defines callback items.forEach() callback'
+      );
+    });
+
+    it('should count each nested concept in exactly one function', () => {
+      const functions = parser.extractFunctions(
+        [
+          'function loadUsers(items) {',
+          '  items.forEach((item) => {',
+          '    fs.unlinkSync(item.path);',
+          '  });',
+          '  const onError = (err) => {',
+          '    logger.warn(err);',
+          '  };',
+          '  return fetchUsers().catch(onError);',
+          '}',
+        ].join('\n')
+      );
+      const execution = Object.fromEntries(
+        functions.map(({ node, metadata }) => [
+          metadata.name,
+          parser.analyzeFunction(node, metadata).execution,
+        ])
+      );
+      const homes = (concept: string) =>
+        Object.keys(execution).filter((name) => execution[name].includes(concept));
+
+      expect(Object.keys(execution)).toEqual(['loadUsers', 'onError']);
+      expect(homes('unlinkSync')).toEqual(['loadUsers']);
+      expect(homes('warn')).toEqual(['onError']);
+      expect(homes('callback')).toEqual(['loadUsers']);
+    });
+
+    it('should link nested functions to their parent', () => {
+      const [parent, child] = parser.extractFunctions(code);
+
+      expect(parent.metadata.parent).toBeUndefined();
+      expect(child.metadata.parent).toEqual({ name: 'loadUsers', line: 1 });
+    });
+  });
+
+  describe('type signals', () => {
+    function signals(code: string, name: string) {
+      return analyze(code, name).typeSignals.map(({ leg, concept, contradicts }) => ({
+        leg,
+        concept,
+        contradicts,
+      }));
+    }
+
+    it('should capture parameter and return type annotations', () => {
+      const result = analyze(
+        'async function getUser(id: string, ...roles: Role[]): Promise<User | null> {}',
+        'getUser'
+      );
+
+      expect(result.metadata.typeAnnotations).toEqual({
+        params: { id: 'string', roles: 'Role[]' },
+        returns: 'Promise<User | null>',
+      });
+    });
+
+    it('should treat a boolean return on a predicate name as a yes/no check', () => {
+      const code = 'function isValid(user: User): boolean { return !!user; }';
+
+      expect(signals(code, 'isValid')).toEqual([
+        { leg: 'intent', concept: 'check', contradicts: false },
+      ]);
+      expect(analyze(code, 'isValid').intent).toContain('check');
+    });
+
+    it('should flag a void return on a Wisdom verb', () => {
+      const code = 'function getTotal(items: Item[]): void { this.total = items.length; }';
+
+      expect(signals(code, 'getTotal')).toEqual([
+        { leg: 'execution', concept: 'execute', contradicts: true },
+      ]);
+    });
+
+    it('should flag a predicate name that does not return boolean', () => {
+      const code = 'function hasAccess(user: User): User { return user; }';
+
+      expect(signals(code, 'hasAccess')).toEqual([
+        { leg: 'execution', concept: 'return', contradicts: true },
+      ]);
+    });
+
+    it('should use parameter types only when the name carries no meaning', () => {
+      const code = 'function main(onDone: () => void, validator: UserValidator) {}';
+
+      expect(signals(code, 'main')).toEqual([
+        { leg: 'intent', concept: 'notify', contradicts: false },
+        { leg: 'intent', concept: 'validator', contradicts: false },
+      ]);
+    });
+  });
+
+  describe('side effects', () => {
+    it('should treat building a local object as computation', () => {
+      const result = analyze(
+        'function getUser(id) {\n  const user = {};\n  user.id = id;\n  return user;\n}',
+        'getUser'
+      );
+
+      expect(result.sideEffects).toEqual([]);
+      expect(result.executionMap.map((m) => m.sideEffect)).toContain('local-mutation');
+      expect(result.execution).not.toContain('modify');
+    });
+
+    it('should distinguish parameter, this, module and global mutation', () => {
+      const result = analyze(
+        [
+          'let cache = {};',
+          'function getUser(user) {',
+          '  user.loaded = true;',
+          '  this.count++;',
+          '  cache[user.id] = user;',
+          '  lastUser = user;',
+          '  user = null;',
+          '}',
+        ].join('\n'),
+        'getUser'
+      );
+
+      expect(result.sideEffects).toEqual([
+        'parameter-mutation',
+        'this-mutation',
+        'module-mutation',
+        'global-mutation',
+      ]);
+    });
+
+    it('should classify mutating method calls by their receiver', () => {
+      const result = analyze(
+        'function getIds(items, seen) {\n  const ids = [];\n  ids.push(1);\n  seen.add(2);\n}',
+        'getIds'
+      );
+
+      expect(result.sideEffects).toEqual(['parameter-mutation']);
+    });
+
+    it('should detect filesystem, network, DOM and console I/O', () => {
+      const result = analyze(
+        [
+          "import { readFileSync } from 'node:fs';",
+          "const axios = require('axios');",
+          'function getConfig() {',
+          "  readFileSync('a');",
+          "  axios.get('/config');",
+          "  document.querySelector('#app');",
+          "  console.log('done');",
+          '}',
+        ].join('\n'),
+        'getConfig'
+      );
+
+      expect(result.sideEffects).toEqual(['filesystem-io', 'network-io', 'dom-io', 'console-io']);
+    });
+
+    it('should not treat shadowed I/O names as I/O', () => {
+      const result = analyze('function getItem(console) {\n  return console.log(1);\n}', 'getItem');
+
+      expect(result.sideEffects).toEqual([]);
+    });
+  });
+
+  describe('suppressions', () => {
+    it('should parse next-line, block, file and JSDoc suppressions', () => {
+      const code = [
+        '// harmonizer-disable-next-line disharmony-threshold -- creates on purpose',
+        'function getOrCreate() {}',
+        '/* harmonizer-disable semantic-naming, ice-analysis */',
+        'function a() {}',
+        '/* harmonizer-enable semantic-naming, ice-analysis */',
+        '/**',
+        ' * Loads a user',
+        ' * @harmonizer-ignore -- legacy API',
+        ' */',
+        'function getUser() {}',
+        '/* harmonizer-disable-file */',
+      ].join('\n');
+
+      expect(parser.extractSuppressions(code)).toEqual([
+        {
+          kind: 'next-line',
+          rules: ['disharmony-threshold'],
+          reason: 'creates on purpose',
+          line: 1,
+          startLine: 2,
+          endLine: 2,
+        },
+        {
+          kind: 'block',
+          rules: ['ice-analysis', 'semantic-naming'],
+          reason: undefined,
+          line: 3,
+          startLine: 3,
+          endLine: 5,
+        },
+        { kind: 'jsdoc', rules: [], reason: 'legacy API', line: 6, startLine: 10, endLine: 10 },
+        { kind: 'file', rules: [], reason: undefined, line: 11, startLine: 1, endLine: 11 },
+      ]);
+    });
+
+    it('should skip comment lines when finding the next line', () => {
+      const code = '// harmonizer-disable-next-line\n/** Docs */\nfunction f() {}';
+
+      expect(parser.extractSuppressions(code)[0]).toMatchObject({ startLine: 3, endLine: 3 });
+    });
+  });
+});
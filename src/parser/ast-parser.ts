@@ -5,10 +5,25 @@
  * Extracts Intent (from function names) and Execution (from code structure).
  */
 
+import * as path from 'path';
 import * as parser from '@babel/parser';
 import traverse, { NodePath } from '@babel/traverse';
 import * as t from '@babel/types';
 import { Dimension, VocabularyManager } from '../core/vocabulary';
+import { tokenizeIdentifier } from '../core/tokenizer';
+import { TypeSignal } from '../core/coordinates';
+
+/**
+ * Surroundings of a function, used as the Context leg of ICE analysis
+ */
+export interface FunctionContext {
+  className?: string; // Enclosing class
+  fileName?: string; // File name without extension
+  directoryName?: string; // Containing directory
+  imports: string[]; // Imported module names
+  exported: boolean;
+  paramTypes: string[]; // Type annotation names of parameters
+}
 
 /**
  * Function metadata extracted from AST
@@ -19,29 +34,205 @@ export interface FunctionMetadata {
   isAsync: boolean;
   isGenerator: boolean;
   isArrow: boolean;
+  accessor?: 'get' | 'set'; // Getter or setter
+  typeAnnotations?: {
+    params: Record<string, string>; // Parameter name → annotation, e.g. { id: 'string' }
+    returns?: string; // e.g. Promise<User>
+  };
+  parent?: { name: string; line: number }; // Enclosing reported function, for nested functions
+  unnamed?: boolean; // Anonymous callback: `name` is only a display label, not intent
   docstring?: string;
   location?: {
     start: { line: number; column: number };
     end: { line: number; column: number };
   };
+  context?: FunctionContext;
+  outerBindings?: Record<string, OuterBinding>; // Names visible from enclosing scopes
+}
+
+/**
+ * A binding declared outside the function body
+ */
+export interface OuterBinding {
+  scope: 'module' | 'closure';
+  source?: string; // Module the binding was imported or required from
+  imported?: string; // Exported name it was imported as ('default', or '*' for namespaces)
 }
 
+/**
+ * A call to a function that may be defined elsewhere in the project
+ */
+export interface CallSite {
+  name: string; // Called function or method name
+  receiver?: 'this'; // this.name()
+  source?: string; // Module the callee was imported from
+  imported?: string; // Exported name of the callee in that module
+  line?: number;
+}
+
+/**
+ * An inline suppression comment and the lines it covers. Functions starting
+ * on a covered line are exempt from the listed rules.
+ *
+ * Directives (line or block comments; rules are optional, "-- reason" too):
+ *   harmonizer-disable-next-line [rule, ...] -- reason
+ *   harmonizer-disable [rule, ...] -- reason   (until harmonizer-enable [rule, ...])
+ *   harmonizer-disable-file [rule, ...] -- reason
+ *   @harmonizer-ignore [rule, ...] -- reason    (JSDoc tag on a function)
+ */
+export interface Suppression {
+  kind: 'next-line' | 'block' | 'file' | 'jsdoc';
+  rules: string[]; // Empty means every rule
+  reason?: string;
+  line: number; // Line of the comment
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Side-effect categories recorded on execution mappings
+ */
+export type SideEffect =
+  | 'local-mutation' // Building up a local variable (not observable by callers)
+  | 'parameter-mutation'
+  | 'this-mutation'
+  | 'closure-mutation'
+  | 'module-mutation'
+  | 'global-mutation'
+  | 'filesystem-io'
+  | 'network-io'
+  | 'dom-io'
+  | 'console-io';
+
 /**
  * Execution mapping - maps AST nodes to semantic dimensions
  */
 export interface ExecutionMapping {
   node: t.Node;
-  dimension: Dimension;
+  dimension?: Dimension; // Unset for markers that lean toward no dimension
   description: string;
+  sideEffect?: SideEffect;
 }
 
+type MutationTarget = 'local' | 'parameter' | 'this' | 'closure' | 'module' | 'global';
+
+/**
+ * Methods that mutate their receiver in place
+ */
+const MUTATING_METHODS = new Set([
+  'push',
+  'pop',
+  'shift',
+  'unshift',
+  'splice',
+  'sort',
+  'reverse',
+  'fill',
+  'copyWithin',
+  'set',
+  'add',
+  'delete',
+  'clear',
+]);
+
+/**
+ * Array methods that call their callback before returning, so the callback's
+ * work is part of the caller's execution
+ */
+const SYNC_CALLBACK_METHODS = new Set([
+  'forEach',
+  'map',
+  'flatMap',
+  'filter',
+  'reduce',
+  'reduceRight',
+  'some',
+  'every',
+  'find',
+  'findIndex',
+  'findLast',
+  'findLastIndex',
+  'sort',
+  'toSorted',
+]);
+
+/**
+ * Modules and globals whose calls perform I/O
+ */
+const IO_MODULES: Record<string, SideEffect> = {
+  fs: 'filesystem-io',
+  'fs/promises': 'filesystem-io',
+  'fs-extra': 'filesystem-io',
+  'graceful-fs': 'filesystem-io',
+  http: 'network-io',
+  https: 'network-io',
+  http2: 'network-io',
+  net: 'network-io',
+  axios: 'network-io',
+  'node-fetch': 'network-io',
+  got: 'network-io',
+  undici: 'network-io',
+  superagent: 'network-io',
+  ky: 'network-io',
+};
+
+const IO_GLOBALS: Record<string, SideEffect> = {
+  fetch: 'network-io',
+  XMLHttpRequest: 'network-io',
+  WebSocket: 'network-io',
+  EventSource: 'network-io',
+  document: 'dom-io',
+  window: 'dom-io',
+  localStorage: 'dom-io',
+  sessionStorage: 'dom-io',
+  navigator: 'dom-io',
+  location: 'dom-io',
+  history: 'dom-io',
+  alert: 'dom-io',
+  console: 'console-io',
+};
+
+/**
+ * Leading words that make a function name read as a yes/no question
+ */
+const PREDICATE_PREFIXES = new Set([
+  'is',
+  'has',
+  'have',
+  'can',
+  'should',
+  'are',
+  'was',
+  'were',
+  'does',
+  'did',
+  'will',
+  'needs',
+  'contains',
+  'exists',
+  'includes',
+  'allows',
+  'supports',
+]);
+
+const IO_DIMENSIONS: Record<string, Dimension> = {
+  'filesystem-io': 'power',
+  'network-io': 'love',
+  'dom-io': 'love',
+  'console-io': 'love',
+};
+
 /**
  * Parse result containing intent and execution concepts
  */
 export interface ParseResult {
   intent: string[]; // Concepts from function name + docstring
+  context: string[]; // Concepts from class, file, imports and parameters
   execution: string[]; // Concepts from code body
   executionMap: ExecutionMapping[]; // Detailed node-to-dimension mapping
+  sideEffects: SideEffect[]; // Observable side effects (local mutations excluded)
+  calls: CallSite[]; // Calls that may resolve to other project functions
+  typeSignals: TypeSignal[]; // Evidence from type annotations (already added to intent/execution)
   metadata: FunctionMetadata;
 }
 
@@ -71,71 +262,166 @@ export class ASTSemanticParser {
 
   /**
    * Extract all functions from source code
+   *
+   * @param filePath - Source file path, used to derive file and directory context
    */
-  extractFunctions(code: string): Array<{ node: t.Function; metadata: FunctionMetadata }> {
+  extractFunctions(
+    code: string,
+    filePath?: string
+  ): Array<{ node: t.Function; metadata: FunctionMetadata }> {
     const ast = this.parseSource(code);
     const functions: Array<{ node: t.Function; metadata: FunctionMetadata }> = [];
     const self = this;
+    const imports = this.extractImports(ast);
+    const reported = new Map<t.Node, { name: string; line: number }>();
 
     traverse(ast, {
-      // Function declarations: function foo() {}
-      FunctionDeclaration(path) {
+      // Declarations, expressions, arrows and class/object methods; see getFunctionName
+      Function(path) {
         const node = path.node;
-        functions.push({
-          node,
-          metadata: self.extractFunctionMetadata(node, path),
-        });
-      },
-
-      // Function expressions: const foo = function() {}
-      FunctionExpression(path) {
-        const node = path.node;
-        // Only process if it's assigned to a variable
-        const parent = path.parent;
-        if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
-          functions.push({
-            node,
-            metadata: self.extractFunctionMetadata(node, path, parent.id.name),
-          });
+        const name = self.getFunctionName(path, filePath);
+        if (!name) {
+          return;
         }
-      },
 
-      // Arrow functions: const foo = () => {}
-      ArrowFunctionExpression(path) {
-        const node = path.node;
-        const parent = path.parent;
-        if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
-          functions.push({
-            node,
-            metadata: self.extractFunctionMetadata(node, path, parent.id.name),
-          });
+        const enclosing = path.findParent((p) => reported.has(p.node));
+        // Its work is already part of the enclosing function's execution
+        if (enclosing && self.isSynchronousCallback(path)) {
+          return;
         }
+
+        const metadata: FunctionMetadata = {
+          ...self.extractFunctionMetadata(node, path, name),
+          accessor:
+            'kind' in node && (node.kind === 'get' || node.kind === 'set') ? node.kind : undefined,
+          parent: enclosing ? reported.get(enclosing.node) : undefined,
+          unnamed: self.isAnonymousCallback(path) || undefined,
+          context: self.extractFunctionContext(path, imports, filePath),
+          outerBindings: self.collectOuterBindings(path),
+        };
+        reported.set(node, { name: metadata.name, line: metadata.location?.start.line ?? 0 });
+
+        functions.push({ node, metadata });
       },
+    });
 
-      // Class methods
-      ClassMethod(path) {
-        const node = path.node;
-        if (t.isIdentifier(node.key)) {
-          functions.push({
-            node: node as any, // ClassMethod extends Function conceptually
-            metadata: self.extractFunctionMetadata(node as any, path),
-          });
+    return functions;
+  }
+
+  /**
+   * Extract inline suppression comments (see Suppression)
+   */
+  extractSuppressions(code: string): Suppression[] {
+    if (!/harmonizer-(disable|ignore)/.test(code)) {
+      return [];
+    }
+
+    const ast = this.parseSource(code);
+    const comments = ast.comments ?? [];
+    const lastLine = ast.loc?.end.line ?? code.split('\n').length;
+    const suppressions: Suppression[] = [];
+    const open: Suppression[] = [];
+
+    // First line after a comment that is not itself part of a comment
+    const nextCodeLine = (comment: t.Comment): number => {
+      let line = comment.loc!.end.line + 1;
+      for (const other of comments) {
+        if (other.loc!.start.line === line) {
+          line = other.loc!.end.line + 1;
         }
-      },
+      }
+      return line;
+    };
 
-      // Object methods: { foo() {} }
-      ObjectMethod(path) {
-        const node = path.node;
-        if (t.isIdentifier(node.key)) {
-          functions.push({
-            node: node as any,
-            metadata: self.extractFunctionMetadata(node as any, path),
+    for (const comment of comments) {
+      const line = comment.loc!.start.line;
+
+      const tag = /@harmonizer-ignore\b([^\n]*)/.exec(comment.value);
+      if (comment.type === 'CommentBlock' && comment.value.startsWith('*') && tag) {
+        const target = nextCodeLine(comment);
+        suppressions.push({
+          kind: 'jsdoc',
+          ...this.parseSuppressionArgs(tag[1]),
+          line,
+          startLine: target,
+          endLine: target,
+        });
+        continue;
+      }
+
+      const directive =
+        /^\s*harmonizer-(disable-next-line|disable-file|disable|enable)\b(.*)$/s.exec(
+          comment.value
+        );
+      if (!directive) continue;
+
+      const args = this.parseSuppressionArgs(directive[2]);
+      switch (directive[1]) {
+        case 'disable-next-line': {
+          const target = nextCodeLine(comment);
+          suppressions.push({
+            kind: 'next-line',
+            ...args,
+            line,
+            startLine: target,
+            endLine: target,
           });
+          break;
         }
-      },
-    });
+        case 'disable-file':
+          suppressions.push({ kind: 'file', ...args, line, startLine: 1, endLine: lastLine });
+          break;
+        case 'disable': {
+          const block: Suppression = {
+            kind: 'block',
+            ...args,
+            line,
+            startLine: line,
+            endLine: lastLine,
+          };
+          suppressions.push(block);
+          open.push(block);
+          break;
+        }
+        case 'enable': {
+          // Close the matching open block, or every open block when no rules are given
+          const key = args.rules.join(',');
+          for (let i = open.length - 1; i >= 0; i--) {
+            if (args.rules.length === 0 || open[i].rules.join(',') === key) {
+              open[i].endLine = line;
+              open.splice(i, 1);
+              if (args.rules.length > 0) break;
+            }
+          }
+          break;
+        }
+      }
+    }
 
-    return functions;
+    return suppressions;
+  }
+
+  /**
+   * Parse "[rule, ...] -- reason" after a suppression directive
+   */
+  private parseSuppressionArgs(text: string): { rules: string[]; reason?: string } {
+    const separator = text.indexOf('--');
+    const rulesText = separator === -1 ? text : text.slice(0, separator);
+    const reason =
+      separator === -1
+        ? ''
+        : text
+            .slice(separator + 2)
+            .replace(/\s+/g, ' ')
+            .trim();
+
+    return {
+      rules: rulesText
+        .split(/[\s,*]+/)
+        .filter(Boolean)
+        .sort(),
+      reason: reason || undefined,
+    };
   }
 
   /**
@@ -147,13 +433,37 @@ export class ASTSemanticParser {
     // Extract intent from function name and docstring
     const intent = this.extractIntentConcepts(meta);
 
+    // Extract context from the function's surroundings
+    const context = this.extractContextConcepts(meta);
+
     // Extract execution from function body
-    const { concepts: execution, executionMap } = this.extractExecutionConcepts(functionNode);
+    const {
+      concepts: execution,
+      executionMap,
+      calls,
+    } = this.extractExecutionConcepts(functionNode, meta.outerBindings);
+
+    // Parameter and return types add evidence to either leg
+    const typeSignals = this.extractTypeSignals(meta);
+    for (const signal of typeSignals) {
+      (signal.leg === 'intent' ? intent : execution).push(signal.concept);
+    }
+    const sideEffects = [
+      ...new Set(
+        executionMap
+          .map((mapping) => mapping.sideEffect)
+          .filter((effect): effect is SideEffect => !!effect && effect !== 'local-mutation')
+      ),
+    ];
 
     return {
       intent,
+      context,
       execution,
       executionMap,
+      sideEffects,
+      calls,
+      typeSignals,
       metadata: meta,
     };
   }
@@ -171,7 +481,7 @@ export class ASTSemanticParser {
     // Try to get name from the function itself
     if ('id' in node && node.id && t.isIdentifier(node.id)) {
       name = node.id.name;
-    } else if ('key' in node && t.isIdentifier((node as any).key)) {
+    } else if ('key' in node && t.isIdentifier((node as any).key) && !(node as any).computed) {
       name = ((node as any).key as t.Identifier).name;
     }
 
@@ -182,10 +492,15 @@ export class ASTSemanticParser {
       return 'param';
     });
 
-    // Extract docstring (JSDoc comment)
+    // Extract docstring (JSDoc comment), which for class fields and object
+    // properties sits on the property rather than the function
     let docstring: string | undefined;
-    if (path && path.node.leadingComments) {
-      const jsdocComment = path.node.leadingComments.find((comment: any) =>
+    const commented =
+      path && !path.node.leadingComments && (path.parentPath?.isProperty() ?? false)
+        ? path.parent
+        : path?.node;
+    if (commented?.leadingComments) {
+      const jsdocComment = commented.leadingComments.find((comment: any) =>
         comment.value.trim().startsWith('*')
       );
       if (jsdocComment) {
@@ -201,7 +516,462 @@ export class ASTSemanticParser {
       isArrow: t.isArrowFunctionExpression(node),
       docstring,
       location: node.loc || undefined,
+      typeAnnotations: this.extractTypeAnnotations(node),
+    };
+  }
+
+  /**
+   * Collect parameter and return type annotations as written
+   */
+  private extractTypeAnnotations(node: t.Function): FunctionMetadata['typeAnnotations'] {
+    const params: Record<string, string> = {};
+    for (const param of node.params) {
+      let target: t.Node = t.isTSParameterProperty(param) ? param.parameter : param;
+      if (t.isAssignmentPattern(target)) target = target.left;
+      // ...rest: T[] keeps the annotation on the rest element itself
+      const annotation = (target as t.Identifier | t.RestElement).typeAnnotation;
+      if (t.isRestElement(target)) target = target.argument;
+      if (t.isIdentifier(target) && t.isTSTypeAnnotation(annotation)) {
+        params[target.name] = this.typeToString(annotation.typeAnnotation);
+      }
+    }
+
+    const returns = t.isTSTypeAnnotation(node.returnType)
+      ? this.typeToString(node.returnType.typeAnnotation)
+      : undefined;
+
+    return Object.keys(params).length > 0 || returns ? { params, returns } : undefined;
+  }
+
+  /**
+   * Source-like text of a type annotation, e.g. `Promise<User[]>` or `string | null`
+   */
+  private typeToString(type: t.TSType | t.TSTypePredicate): string {
+    if (t.isTSTypePredicate(type)) {
+      const subject = t.isIdentifier(type.parameterName) ? type.parameterName.name : 'this';
+      return type.typeAnnotation
+        ? `${subject} is ${this.typeToString(type.typeAnnotation.typeAnnotation)}`
+        : `asserts ${subject}`;
+    }
+    if (t.isTSTypeReference(type)) {
+      const name = t.isIdentifier(type.typeName)
+        ? type.typeName.name
+        : `${this.typeToString(t.tsTypeReference(type.typeName.left))}.${type.typeName.right.name}`;
+      const args = type.typeParameters?.params.map((param) => this.typeToString(param));
+      return args ? `${name}<${args.join(', ')}>` : name;
+    }
+    if (t.isTSArrayType(type)) return `${this.typeToString(type.elementType)}[]`;
+    if (t.isTSUnionType(type)) return type.types.map((m) => this.typeToString(m)).join(' | ');
+    if (t.isTSIntersectionType(type)) {
+      return type.types.map((m) => this.typeToString(m)).join(' & ');
+    }
+    if (t.isTSParenthesizedType(type)) return `(${this.typeToString(type.typeAnnotation)})`;
+    if (t.isTSFunctionType(type)) return 'Function';
+    if (t.isTSTypeLiteral(type)) return 'object';
+    if (t.isTSTupleType(type)) return 'tuple';
+    if (t.isTSLiteralType(type)) {
+      const literal = type.literal;
+      if (t.isStringLiteral(literal)) return `'${literal.value}'`;
+      if (t.isNumericLiteral(literal) || t.isBooleanLiteral(literal)) return String(literal.value);
+      return 'literal';
+    }
+    // Keywords: TSBooleanKeyword → boolean, TSVoidKeyword → void, ...
+    return type.type.replace(/^TS(\w+)Keyword$/, '$1').toLowerCase();
+  }
+
+  /**
+   * Intent and execution evidence from type annotations: a boolean return on a
+   * predicate name, a void return on a Wisdom verb, value returns on Wisdom
+   * verbs and callback or role-typed parameters on names that say little
+   */
+  private extractTypeSignals(metadata: FunctionMetadata): TypeSignal[] {
+    const annotations = metadata.typeAnnotations;
+    if (!annotations) {
+      return [];
+    }
+
+    const signals: TypeSignal[] = [];
+    const name = metadata.name;
+    const words = tokenizeIdentifier(name);
+    const verbDimension = words.length > 0 ? this.vocabulary.getDimension(words[0]) : null;
+    const isPredicate = words.length > 0 && PREDICATE_PREFIXES.has(words[0]);
+    const signal = (
+      leg: TypeSignal['leg'],
+      source: TypeSignal['source'],
+      type: string,
+      concept: string,
+      contradicts: boolean,
+      explanation: string
+    ) => {
+      const dimension = this.vocabulary.getDimension(concept);
+      if (dimension) {
+        signals.push({ leg, source, type, concept, dimension, contradicts, explanation });
+      }
     };
+
+    if (annotations.returns) {
+      const written = annotations.returns;
+      // Async functions deliver what their promise resolves to
+      const returns = written.replace(/^Promise<(.*)>$/, '$1');
+      const isBoolean =
+        returns === 'boolean' || returns === 'true' || returns === 'false' || / is /.test(returns);
+      const isVoid = returns === 'void' || returns === 'undefined';
+
+      if (isPredicate && isBoolean) {
+        signal(
+          'intent',
+          'return',
+          written,
+          'check',
+          false,
+          `${name} returns ${written}, so its name asks a yes/no question (Justice)`
+        );
+      } else if (isPredicate && returns !== 'any' && returns !== 'unknown') {
+        signal(
+          'execution',
+          'return',
+          written,
+          isVoid ? 'execute' : 'return',
+          true,
+          `${name} reads as a yes/no question but returns ${written}`
+        );
+      } else if (returns === 'never') {
+        signal(
+          'execution',
+          'return',
+          written,
+          'throw',
+          verbDimension === 'wisdom' || verbDimension === 'justice',
+          `${name} returns never: it always throws or never completes (Power)`
+        );
+      } else if (isVoid && verbDimension === 'wisdom') {
+        signal(
+          'execution',
+          'return',
+          written,
+          'execute',
+          true,
+          `${name} promises information (Wisdom) but returns ${written}, so it can only work through side effects (Power)`
+        );
+      } else if (!isVoid && verbDimension === 'wisdom' && returns !== 'any') {
+        signal(
+          'intent',
+          'return',
+          written,
+          'return',
+          false,
+          `${name} returns ${written}, delivering the information its name promises (Wisdom)`
+        );
+      }
+    }
+
+    // Parameter types only fill in intent when the name itself carries no meaning
+    const nameDimension = words.some((word) => this.vocabulary.getDimension(word));
+    if (!nameDimension) {
+      for (const [param, type] of Object.entries(annotations.params)) {
+        if (type === 'Function') {
+          signal(
+            'intent',
+            'parameter',
+            type,
+            'notify',
+            false,
+            `${name} takes a callback (${param}) to notify its caller (Love)`
+          );
+          continue;
+        }
+        const typeName = type.replace(/[<[].*$/, '');
+        const role = tokenizeIdentifier(typeName)
+          .reverse()
+          .find((word) => this.vocabulary.getDimension(word));
+        if (role) {
+          const dimension = this.vocabulary.getDimension(role)!;
+          signal(
+            'intent',
+            'parameter',
+            type,
+            role,
+            false,
+            `${name} takes ${param}: ${type}, which suggests ${dimension[0].toUpperCase()}${dimension.slice(1)}`
+          );
+        }
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * Collect the names of modules imported or required at the top level
+   */
+  private extractImports(ast: t.File): string[] {
+    const sources: string[] = [];
+
+    for (const statement of ast.program.body) {
+      if (t.isImportDeclaration(statement)) {
+        sources.push(statement.source.value);
+      } else if (t.isVariableDeclaration(statement)) {
+        for (const declarator of statement.declarations) {
+          const init = declarator.init;
+          if (
+            t.isCallExpression(init) &&
+            t.isIdentifier(init.callee, { name: 'require' }) &&
+            t.isStringLiteral(init.arguments[0])
+          ) {
+            sources.push(init.arguments[0].value);
+          }
+        }
+      }
+    }
+
+    // './services/userStore.js' → 'userStore', '@babel/parser' → 'parser'
+    const names = sources.map((source) => path.basename(source).replace(/\.[cm]?[jt]sx?$/, ''));
+    return [...new Set(names.filter((name) => name && name !== 'index'))];
+  }
+
+  /**
+   * Describe the class, file, module and parameters surrounding a function
+   */
+  private extractFunctionContext(
+    functionPath: NodePath,
+    imports: string[],
+    filePath?: string
+  ): FunctionContext {
+    // Enclosing class: class Foo {} or const Foo = class {}
+    let className: string | undefined;
+    const classPath = functionPath.findParent((p) => p.isClass()) as NodePath<t.Class> | null;
+    if (classPath) {
+      if (classPath.node.id) {
+        className = classPath.node.id.name;
+      } else if (t.isVariableDeclarator(classPath.parent) && t.isIdentifier(classPath.parent.id)) {
+        className = classPath.parent.id.name;
+      }
+    }
+
+    const exported = Boolean(
+      functionPath.findParent(
+        (p) =>
+          p.isExportNamedDeclaration() ||
+          p.isExportDefaultDeclaration() ||
+          (p.isAssignmentExpression() && this.isCommonJSExport(p.node.left))
+      )
+    );
+
+    const paramTypes: string[] = [];
+    for (const param of (functionPath.node as t.Function).params) {
+      const target = t.isAssignmentPattern(param) ? param.left : param;
+      const annotation = (target as t.Identifier).typeAnnotation;
+      if (t.isTSTypeAnnotation(annotation)) {
+        const typeName = this.getTypeName(annotation.typeAnnotation);
+        if (typeName) paramTypes.push(typeName);
+      }
+    }
+
+    let fileName: string | undefined;
+    let directoryName: string | undefined;
+    if (filePath) {
+      fileName = path.basename(filePath).replace(/\.[^.]+$/, '');
+      directoryName = path.basename(path.dirname(filePath));
+      // index.ts is named after its directory
+      if (fileName === 'index') fileName = undefined;
+    }
+
+    return { className, fileName, directoryName, imports, exported, paramTypes };
+  }
+
+  /**
+   * Name a function is reported under, or undefined for inline functions that
+   * are analyzed as part of the function enclosing them
+   */
+  private getFunctionName(path: NodePath<t.Function>, filePath?: string): string | undefined {
+    const node = path.node;
+    if (t.isFunctionDeclaration(node)) {
+      return node.id?.name ?? this.defaultExportName(filePath);
+    }
+    if (t.isClassMethod(node) || t.isClassPrivateMethod(node) || t.isObjectMethod(node)) {
+      return this.getKeyName(node.key, 'computed' in node && node.computed);
+    }
+    return this.inferExpressionName(path, filePath);
+  }
+
+  /**
+   * Whether a nested function runs before its enclosing function returns:
+   * a callback to an array iteration method such as `items.forEach(...)`, or
+   * an immediately invoked function
+   */
+  private isSynchronousCallback(path: NodePath<t.Function>): boolean {
+    const parent = path.parent;
+    if (!t.isCallExpression(parent)) {
+      return false;
+    }
+    if (path.key === 'callee') {
+      return true;
+    }
+    return (
+      path.listKey === 'arguments' &&
+      t.isMemberExpression(parent.callee) &&
+      !parent.callee.computed &&
+      t.isIdentifier(parent.callee.property) &&
+      SYNC_CALLBACK_METHODS.has(parent.callee.property.name)
+    );
+  }
+
+  /**
+   * Whether a function is an anonymous callback passed to a call, such as
+   * `app.get('/users', (req, res) => {})` or `items.forEach(function () {})`
+   */
+  private isAnonymousCallback(path: NodePath<t.Function>): boolean {
+    const node = path.node;
+    return (
+      (t.isArrowFunctionExpression(node) || (t.isFunctionExpression(node) && !node.id)) &&
+      (t.isCallExpression(path.parent) || t.isNewExpression(path.parent)) &&
+      path.listKey === 'arguments'
+    );
+  }
+
+  /**
+   * Whether an assignment target is `module.exports`, `module.exports.foo` or `exports.foo`
+   */
+  private isCommonJSExport(target: t.Node): boolean {
+    if (!t.isMemberExpression(target)) return false;
+    if (t.isIdentifier(target.object, { name: 'exports' })) return true;
+    if (
+      t.isIdentifier(target.object, { name: 'module' }) &&
+      t.isIdentifier(target.property, { name: 'exports' })
+    ) {
+      return true;
+    }
+    return this.isCommonJSExport(target.object);
+  }
+
+  /**
+   * Name of a function or arrow expression from where it appears:
+   * `const foo = () => {}`, `export default () => {}`, `module.exports.foo = function () {}`,
+   * `{ save: async () => {} }`, `handleClick = () => {}` class fields and callbacks passed
+   * to calls. Returns undefined for expressions that are not worth reporting on their own.
+   */
+  private inferExpressionName(path: NodePath, filePath?: string): string | undefined {
+    const parent = path.parent;
+    const ownName = (t.isFunctionExpression(path.node) && path.node.id?.name) || undefined;
+
+    if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
+      return parent.id.name;
+    }
+
+    if (t.isExportDefaultDeclaration(parent)) {
+      return ownName ?? this.defaultExportName(filePath);
+    }
+
+    if (t.isAssignmentExpression(parent) && path.key === 'right') {
+      if (t.isIdentifier(parent.left)) return parent.left.name;
+      if (!t.isMemberExpression(parent.left)) return undefined;
+      // module.exports = function () {}
+      if (
+        t.isIdentifier(parent.left.object, { name: 'module' }) &&
+        t.isIdentifier(parent.left.property, { name: 'exports' })
+      ) {
+        return ownName ?? this.defaultExportName(filePath);
+      }
+      return this.getKeyName(parent.left.property, parent.left.computed);
+    }
+
+    if (
+      (t.isObjectProperty(parent) ||
+        t.isClassProperty(parent) ||
+        t.isClassPrivateProperty(parent) ||
+        t.isClassAccessorProperty(parent)) &&
+      path.key === 'value'
+    ) {
+      return this.getKeyName(parent.key, 'computed' in parent && parent.computed);
+    }
+
+    // Callbacks: block bodies, or handlers registered under a route or event name
+    if ((t.isCallExpression(parent) || t.isNewExpression(parent)) && path.listKey === 'arguments') {
+      const [first] = parent.arguments;
+      const label = t.isStringLiteral(first) ? first.value : undefined;
+      const body = (path.node as t.ArrowFunctionExpression).body;
+      if (!t.isBlockStatement(body) && label === undefined) {
+        return undefined;
+      }
+      const callee = this.getCalleeText(parent.callee) ?? 'anonymous';
+      return `${callee}(${label !== undefined ? `'${label}'` : ''}) callback`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Readable name of a property key: identifiers, string keys, #private names
+   * and constant computed keys such as ['save'] or [Symbol.iterator]
+   */
+  private getKeyName(key: t.Node, computed = false): string | undefined {
+    if (t.isIdentifier(key) && !computed) return key.name;
+    if (t.isStringLiteral(key)) return key.value;
+    if (t.isPrivateName(key)) return `#${key.id.name}`;
+    if (t.isTemplateLiteral(key) && key.expressions.length === 0) {
+      return key.quasis[0].value.cooked ?? undefined;
+    }
+    if (computed && t.isMemberExpression(key)) return this.getCalleeText(key);
+    return undefined;
+  }
+
+  /**
+   * Dotted text of a callee such as `app.get` or `this.server.on`
+   */
+  private getCalleeText(callee: t.Node): string | undefined {
+    if (t.isIdentifier(callee)) return callee.name;
+    if (t.isThisExpression(callee)) return 'this';
+    if (t.isMemberExpression(callee) && !callee.computed && t.isIdentifier(callee.property)) {
+      const object = this.getCalleeText(callee.object);
+      return object ? `${object}.${callee.property.name}` : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Name for an anonymous default export, taken from its file (or directory for index files)
+   */
+  private defaultExportName(filePath?: string): string {
+    if (!filePath) return 'default';
+    const fileName = path.basename(filePath).replace(/\.[^.]+$/, '');
+    return fileName === 'index' ? path.basename(path.dirname(filePath)) : fileName;
+  }
+
+  /**
+   * Readable name of a TypeScript type annotation (e.g. `User[]` → `User`)
+   */
+  private getTypeName(type: t.TSType): string | undefined {
+    if (t.isTSTypeReference(type)) {
+      return t.isIdentifier(type.typeName) ? type.typeName.name : type.typeName.right.name;
+    }
+    if (t.isTSArrayType(type)) {
+      return this.getTypeName(type.elementType);
+    }
+    if (t.isTSStringKeyword(type)) return 'string';
+    if (t.isTSNumberKeyword(type)) return 'number';
+    if (t.isTSBooleanKeyword(type)) return 'boolean';
+    return undefined;
+  }
+
+  /**
+   * Extract context concepts from a function's surroundings
+   */
+  private extractContextConcepts(metadata: FunctionMetadata): string[] {
+    const context = metadata.context;
+    if (!context) {
+      return [];
+    }
+
+    const concepts: string[] = [];
+    if (context.className) concepts.push(context.className);
+    if (context.fileName) concepts.push(context.fileName);
+    if (context.directoryName) concepts.push(context.directoryName);
+    concepts.push(...context.imports);
+    if (context.exported) concepts.push('public');
+    concepts.push(...metadata.params.filter((param) => param !== 'param'));
+    concepts.push(...context.paramTypes);
+
+    return concepts;
   }
 
   /**
@@ -210,8 +980,11 @@ export class ASTSemanticParser {
   private extractIntentConcepts(metadata: FunctionMetadata): string[] {
     const concepts: string[] = [];
 
-    // Add function name
-    concepts.push(metadata.name);
+    // Add function name; accessors are judged as reading or writing the property.
+    // An anonymous callback's label names the call it is passed to, not its purpose.
+    if (!metadata.unnamed) {
+      concepts.push(metadata.accessor ? `${metadata.accessor} ${metadata.name}` : metadata.name);
+    }
 
     // Add docstring if present
     if (metadata.docstring) {
@@ -230,15 +1003,20 @@ export class ASTSemanticParser {
   /**
    * Extract execution concepts from function body
    */
-  private extractExecutionConcepts(functionNode: t.Function): {
+  private extractExecutionConcepts(
+    functionNode: t.Function,
+    outerBindings: Record<string, OuterBinding> = {}
+  ): {
     concepts: string[];
     executionMap: ExecutionMapping[];
+    calls: CallSite[];
   } {
     const concepts: string[] = [];
     const executionMap: ExecutionMapping[] = [];
+    const calls: CallSite[] = [];
 
     if (!functionNode.body) {
-      return { concepts, executionMap };
+      return { concepts, executionMap, calls };
     }
 
     // Convert body to block statement if it's an expression (arrow function)
@@ -246,136 +1024,447 @@ export class ASTSemanticParser {
       ? functionNode.body
       : t.blockStatement([t.returnStatement(functionNode.body)]);
 
+    // Keep the parameters so that scope analysis can tell them apart from locals
+    const params = functionNode.params.map((param) =>
+      t.isTSParameterProperty(param) ? param.parameter : param
+    ) as Array<t.Identifier | t.Pattern | t.RestElement>;
+    const wrapper = t.functionExpression(null, params, bodyBlock);
+
+    // Record a write to a variable or object property, classified by what it touches
+    const recordMutation = (path: NodePath, target: t.Node, node: t.Node, inPlace = false) => {
+      const resolved = this.resolveMutationTarget(path, target, wrapper, outerBindings, inPlace);
+      if (!resolved) {
+        concepts.push('assign', 'set', 'modify');
+        executionMap.push({ node, dimension: 'power', description: 'State mutation' });
+        return;
+      }
+
+      const { kind, name } = resolved;
+      if (kind === 'local') {
+        // Building a local value is computation, not an observable effect
+        concepts.push('compute');
+        executionMap.push({
+          node,
+          dimension: 'wisdom',
+          description: `Local assignment to ${name}`,
+          sideEffect: 'local-mutation',
+        });
+        return;
+      }
+
+      const io = kind === 'global' ? IO_GLOBALS[name.split('.')[0]] : undefined;
+      if (io) {
+        concepts.push('display');
+        executionMap.push({
+          node,
+          dimension: 'love',
+          description: `Writes ${name}`,
+          sideEffect: io,
+        });
+        return;
+      }
+
+      concepts.push('assign', 'set', 'modify');
+      executionMap.push({
+        node,
+        dimension: 'power',
+        description: `Mutates ${kind === 'this' ? '' : `${kind} `}${name}`,
+        sideEffect: `${kind}-mutation` as SideEffect,
+      });
+    };
+
     // Traverse the function body
-    traverse(
-      t.file(t.program([t.expressionStatement(t.functionExpression(null, [], bodyBlock))])),
-      {
-        // Call expressions - map based on the function being called
-        CallExpression: (path) => {
-          const callee = path.node.callee;
-          let calleeName = '';
-
-          if (t.isIdentifier(callee)) {
-            calleeName = callee.name;
-          } else if (t.isMemberExpression(callee) && t.isIdentifier(callee.property)) {
-            calleeName = callee.property.name;
-          }
+    traverse(t.file(t.program([t.expressionStatement(wrapper)])), {
+      // Nested functions that run before this one returns (array iteration
+      // callbacks, immediately invoked functions) are part of its execution
+      // and not reported on their own. Others are reported separately and
+      // count here once, as a defined callback that leans toward no dimension.
+      Function: (path) => {
+        const name = path.node !== wrapper ? this.getFunctionName(path) : undefined;
+        if (!name || this.isSynchronousCallback(path)) {
+          return;
+        }
+        concepts.push('callback');
+        executionMap.push({ node: path.node, description: `Defines callback ${name}` });
+        path.skip();
+      },
 
-          if (calleeName) {
-            concepts.push(calleeName);
-            const dimension = this.vocabulary.getDimension(calleeName);
-            if (dimension) {
-              executionMap.push({
-                node: path.node,
-                dimension,
-                description: `Call to ${calleeName}`,
-              });
-            }
-          }
-        },
+      // Call expressions - map based on the function being called
+      CallExpression: (path) => {
+        const callee = path.node.callee;
+        let calleeName = '';
 
-        // If statements → JUSTICE (logical control)
-        IfStatement: (path) => {
-          concepts.push('if', 'conditional', 'check');
-          executionMap.push({
-            node: path.node,
-            dimension: 'justice',
-            description: 'Conditional logic',
-          });
-        },
+        if (t.isIdentifier(callee)) {
+          calleeName = callee.name;
+        } else if (t.isMemberExpression(callee) && t.isIdentifier(callee.property)) {
+          calleeName = callee.property.name;
+        }
 
-        // Switch statements → JUSTICE
-        SwitchStatement: (path) => {
-          concepts.push('switch', 'case', 'conditional');
-          executionMap.push({
-            node: path.node,
-            dimension: 'justice',
-            description: 'Switch logic',
-          });
-        },
+        if (!calleeName) {
+          return;
+        }
 
-        // Loops → JUSTICE (ordering/iteration)
-        ForStatement: (path) => {
-          concepts.push('for', 'loop', 'iterate');
+        // I/O through fs, network clients, the DOM or the console
+        const io = this.classifyIO(path, callee, outerBindings);
+        if (io) {
+          concepts.push(calleeName);
           executionMap.push({
             node: path.node,
-            dimension: 'justice',
-            description: 'For loop',
+            dimension: this.vocabulary.getDimension(calleeName) ?? IO_DIMENSIONS[io],
+            description: `I/O call to ${calleeName}`,
+            sideEffect: io,
           });
-        },
+          return;
+        }
 
-        WhileStatement: (path) => {
-          concepts.push('while', 'loop');
-          executionMap.push({
-            node: path.node,
-            dimension: 'justice',
-            description: 'While loop',
-          });
-        },
+        // In-place mutation of the receiver: items.push(x), Object.assign(target, ...)
+        const receiver =
+          t.isMemberExpression(callee) && MUTATING_METHODS.has(calleeName)
+            ? callee.object
+            : t.isMemberExpression(callee) &&
+                t.isIdentifier(callee.object, { name: 'Object' }) &&
+                (calleeName === 'assign' || calleeName === 'defineProperty') &&
+                t.isExpression(path.node.arguments[0])
+              ? path.node.arguments[0]
+              : null;
+        if (receiver) {
+          const resolved = this.resolveMutationTarget(path, receiver, wrapper, outerBindings, true);
+          // Sorting or collecting into a local keeps the verb's own meaning
+          const keepsMeaning =
+            resolved?.kind === 'local' && this.vocabulary.getDimension(calleeName) !== 'power';
+          if (!keepsMeaning) {
+            recordMutation(path, receiver, path.node, true);
+            return;
+          }
+        }
 
-        // Return statements → WISDOM (providing information)
-        ReturnStatement: (path) => {
-          concepts.push('return', 'yield');
-          executionMap.push({
-            node: path.node,
-            dimension: 'wisdom',
-            description: 'Return value',
-          });
-        },
+        const call = this.resolveCallSite(path, callee, outerBindings);
+        if (call) {
+          calls.push(call);
+        }
 
-        // Throw statements → POWER (forcing an exception)
-        ThrowStatement: (path) => {
-          concepts.push('throw', 'error');
+        concepts.push(calleeName);
+        const dimension = this.vocabulary.getDimension(calleeName);
+        if (dimension) {
           executionMap.push({
             node: path.node,
-            dimension: 'power',
-            description: 'Throw exception',
+            dimension,
+            description: `Call to ${calleeName}`,
           });
-        },
+        }
+      },
 
-        // Try/catch → LOVE/JUSTICE (handling errors gracefully)
-        TryStatement: (path) => {
-          concepts.push('try', 'catch', 'handle');
+      // new WebSocket(url), new XMLHttpRequest()
+      NewExpression: (path) => {
+        const io = this.classifyIO(path, path.node.callee, outerBindings);
+        if (io && t.isIdentifier(path.node.callee)) {
+          concepts.push('connect');
           executionMap.push({
             node: path.node,
-            dimension: 'love', // Exception handling is merciful
-            description: 'Error handling',
+            dimension: IO_DIMENSIONS[io],
+            description: `I/O via ${path.node.callee.name}`,
+            sideEffect: io,
           });
-        },
+        }
+      },
 
-        // Assignments → POWER (changing state)
-        AssignmentExpression: (path) => {
-          concepts.push('assign', 'set', 'modify');
-          executionMap.push({
-            node: path.node,
-            dimension: 'power',
-            description: 'State mutation',
-          });
-        },
+      // If statements → JUSTICE (logical control)
+      IfStatement: (path) => {
+        concepts.push('if', 'conditional', 'check');
+        executionMap.push({
+          node: path.node,
+          dimension: 'justice',
+          description: 'Conditional logic',
+        });
+      },
 
-        // Variable declarations → WISDOM (storing knowledge)
-        VariableDeclaration: (path) => {
-          concepts.push(path.node.kind); // 'const', 'let', 'var'
-          executionMap.push({
-            node: path.node,
-            dimension: 'wisdom',
-            description: `Variable declaration (${path.node.kind})`,
-          });
-        },
+      // Switch statements → JUSTICE
+      SwitchStatement: (path) => {
+        concepts.push('switch', 'case', 'conditional');
+        executionMap.push({
+          node: path.node,
+          dimension: 'justice',
+          description: 'Switch logic',
+        });
+      },
 
-        // Await expressions → WISDOM (waiting for knowledge)
-        AwaitExpression: (path) => {
-          concepts.push('await', 'async');
-          executionMap.push({
-            node: path.node,
-            dimension: 'wisdom',
-            description: 'Await async operation',
-          });
-        },
+      // Loops → JUSTICE (ordering/iteration)
+      ForStatement: (path) => {
+        concepts.push('for', 'loop', 'iterate');
+        executionMap.push({
+          node: path.node,
+          dimension: 'justice',
+          description: 'For loop',
+        });
+      },
+
+      WhileStatement: (path) => {
+        concepts.push('while', 'loop');
+        executionMap.push({
+          node: path.node,
+          dimension: 'justice',
+          description: 'While loop',
+        });
+      },
+
+      // Return statements → WISDOM (providing information)
+      ReturnStatement: (path) => {
+        concepts.push('return', 'yield');
+        executionMap.push({
+          node: path.node,
+          dimension: 'wisdom',
+          description: 'Return value',
+        });
+      },
+
+      // Throw statements → POWER (forcing an exception)
+      ThrowStatement: (path) => {
+        concepts.push('throw', 'error');
+        executionMap.push({
+          node: path.node,
+          dimension: 'power',
+          description: 'Throw exception',
+        });
+      },
+
+      // Try/catch → LOVE/JUSTICE (handling errors gracefully)
+      TryStatement: (path) => {
+        concepts.push('try', 'catch', 'handle');
+        executionMap.push({
+          node: path.node,
+          dimension: 'love', // Exception handling is merciful
+          description: 'Error handling',
+        });
+      },
+
+      // Assignments → POWER when they change state callers can observe
+      AssignmentExpression: (path) => {
+        recordMutation(path, path.node.left, path.node);
+      },
+
+      // count++ on anything but a local
+      UpdateExpression: (path) => {
+        const resolved = this.resolveMutationTarget(
+          path,
+          path.node.argument,
+          wrapper,
+          outerBindings
+        );
+        if (resolved && resolved.kind !== 'local') {
+          recordMutation(path, path.node.argument, path.node);
+        }
+      },
+
+      // delete obj.key
+      UnaryExpression: (path) => {
+        if (path.node.operator === 'delete') {
+          recordMutation(path, path.node.argument, path.node);
+        }
+      },
+
+      // Variable declarations → WISDOM (storing knowledge)
+      VariableDeclaration: (path) => {
+        concepts.push(path.node.kind); // 'const', 'let', 'var'
+        executionMap.push({
+          node: path.node,
+          dimension: 'wisdom',
+          description: `Variable declaration (${path.node.kind})`,
+        });
+      },
+
+      // Await expressions → WISDOM (waiting for knowledge)
+      AwaitExpression: (path) => {
+        concepts.push('await', 'async');
+        executionMap.push({
+          node: path.node,
+          dimension: 'wisdom',
+          description: 'Await async operation',
+        });
+      },
+    });
+
+    return { concepts, executionMap, calls };
+  }
+
+  /**
+   * Collect bindings declared in the scopes enclosing a function
+   */
+  private collectOuterBindings(functionPath: NodePath): Record<string, OuterBinding> {
+    const bindings: Record<string, OuterBinding> = {};
+
+    for (let scope = functionPath.scope.parent; scope; scope = scope.parent) {
+      for (const [name, binding] of Object.entries(scope.bindings)) {
+        if (name in bindings) continue;
+
+        let source: string | undefined;
+        let imported: string | undefined;
+        const declaration = binding.path;
+        if (declaration.parentPath?.isImportDeclaration()) {
+          source = declaration.parentPath.node.source.value;
+          const specifier = declaration.node;
+          imported = t.isImportSpecifier(specifier)
+            ? t.isIdentifier(specifier.imported)
+              ? specifier.imported.name
+              : specifier.imported.value
+            : t.isImportDefaultSpecifier(specifier)
+              ? 'default'
+              : '*';
+        } else if (declaration.isVariableDeclarator()) {
+          const init = declaration.node.init;
+          if (
+            t.isCallExpression(init) &&
+            t.isIdentifier(init.callee, { name: 'require' }) &&
+            t.isStringLiteral(init.arguments[0])
+          ) {
+            source = init.arguments[0].value;
+            imported = '*';
+          }
+        }
+
+        bindings[name] = {
+          scope: scope.path.isProgram() ? 'module' : 'closure',
+          source,
+          imported,
+        };
       }
-    );
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Work out what an assignment target refers to: a local, a parameter's
+   * object, `this`, closure or module state, or a global
+   */
+  private resolveMutationTarget(
+    path: NodePath,
+    target: t.Node,
+    wrapper: t.FunctionExpression,
+    outerBindings: Record<string, OuterBinding>,
+    inPlace = false
+  ): { kind: MutationTarget; name: string } | null {
+    // Destructuring assignment: classify by the first bound identifier
+    if (t.isPattern(target) && !t.isMemberExpression(target)) {
+      const [first] = Object.keys(t.getBindingIdentifiers(target));
+      return first
+        ? this.resolveMutationTarget(path, t.identifier(first), wrapper, outerBindings)
+        : null;
+    }
+
+    let root: t.Node = target;
+    let property: string | undefined;
+    while (
+      t.isMemberExpression(root) ||
+      t.isOptionalMemberExpression(root) ||
+      t.isTSNonNullExpression(root)
+    ) {
+      if (!t.isTSNonNullExpression(root)) {
+        property = t.isIdentifier(root.property) && !root.computed ? root.property.name : undefined;
+        root = root.object;
+      } else {
+        root = root.expression;
+      }
+    }
+    // In-place method calls (items.push) write through the receiver like a member assignment
+    const isMember = root !== target || inPlace;
+
+    if (t.isThisExpression(root)) {
+      return { kind: 'this', name: property ? `this.${property}` : 'this' };
+    }
+
+    if (!t.isIdentifier(root)) {
+      return null;
+    }
+
+    const name = isMember && property ? `${root.name}.${property}` : root.name;
+    const binding = path.scope.getBinding(root.name);
+
+    if (binding) {
+      // Reassigning a parameter only rebinds a local; writing through it mutates the caller's object
+      const isParameter = binding.kind === 'param' && binding.scope.block === wrapper;
+      return { kind: isParameter && isMember ? 'parameter' : 'local', name };
+    }
+
+    const outer = outerBindings[root.name];
+    if (outer) {
+      return { kind: outer.scope, name };
+    }
+
+    return { kind: 'global', name };
+  }
+
+  /**
+   * Classify a call or construction as I/O based on the module or global it goes through
+   */
+  private classifyIO(
+    path: NodePath,
+    callee: t.Node,
+    outerBindings: Record<string, OuterBinding>
+  ): SideEffect | null {
+    let root: t.Node = callee;
+    const chain: string[] = [];
+    while (t.isMemberExpression(root) || t.isOptionalMemberExpression(root)) {
+      if (t.isIdentifier(root.property)) chain.unshift(root.property.name);
+      root = root.object;
+    }
+
+    if (!t.isIdentifier(root) || path.scope.hasBinding(root.name)) {
+      return null;
+    }
+
+    const outer = outerBindings[root.name];
+    if (outer) {
+      const source = outer.source?.replace(/^node:/, '');
+      return source ? (IO_MODULES[source] ?? null) : null;
+    }
+
+    // process.stdout.write / process.stderr.write
+    if (root.name === 'process' && (chain[0] === 'stdout' || chain[0] === 'stderr')) {
+      return 'console-io';
+    }
+
+    return IO_GLOBALS[root.name] ?? null;
+  }
+
+  /**
+   * Describe a call that may target another project function: this.method(),
+   * a module-level or imported function, or a member of an imported namespace
+   */
+  private resolveCallSite(
+    path: NodePath<t.CallExpression>,
+    callee: t.Node,
+    outerBindings: Record<string, OuterBinding>
+  ): CallSite | null {
+    const line = path.node.loc?.start.line;
+
+    if (t.isIdentifier(callee)) {
+      const outer = path.scope.hasBinding(callee.name) ? undefined : outerBindings[callee.name];
+      if (!outer) return null;
+      return { name: callee.name, source: outer.source, imported: outer.imported, line };
+    }
+
+    if (!t.isMemberExpression(callee) || !t.isIdentifier(callee.property) || callee.computed) {
+      return null;
+    }
+
+    if (t.isThisExpression(callee.object)) {
+      return { name: callee.property.name, receiver: 'this', line };
+    }
+
+    // ns.fn() where ns is `import * as ns` or `const ns = require(...)`
+    if (t.isIdentifier(callee.object) && !path.scope.hasBinding(callee.object.name)) {
+      const outer = outerBindings[callee.object.name];
+      if (outer?.source && outer.imported === '*') {
+        return {
+          name: callee.property.name,
+          source: outer.source,
+          imported: callee.property.name,
+          line,
+        };
+      }
+    }
 
-    return { concepts, executionMap };
+    return null;
   }
 
   /**
@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Calibrator, ScoredSample } from './calibration';
+import { VocabularyManager } from '../core/vocabulary';
+
+const sample = (
+  label: ScoredSample['label'],
+  disharmony: number,
+  weightedDisharmony = disharmony
+): ScoredSample => ({
+  id: `${label}-${disharmony}`,
+  label,
+  function: 'fn',
+  disharmony,
+  weightedDisharmony,
+});
+
+describe('Calibrator', () => {
+  describe('evaluate', () => {
+    it('should count the confusion matrix with disharmonious as positive', () => {
+      const samples = [
+        sample('disharmonious', 0.9),
+        sample('disharmonious', 0.4),
+        sample('harmonious', 0.5),
+        sample('harmonious', 0.1),
+      ];
+
+      const [metrics] = Calibrator.evaluate(samples, [0.45]);
+
+      expect(metrics).toEqual({
+        threshold: 0.45,
+        truePositives: 1,
+        falsePositives: 1,
+        trueNegatives: 1,
+        falseNegatives: 1,
+        precision: 0.5,
+        recall: 0.5,
+        f1: 0.5,
+      });
+    });
+  });
+
+  describe('recommend', () => {
+    it('should pick the middle of the best-F1 range and keep thresholds increasing', () => {
+      const samples = [
+        sample('harmonious', 0.1),
+        sample('harmonious', 0.2),
+        sample('disharmonious', 0.4),
+        sample('disharmonious', 0.7),
+      ];
+
+      // 0.25-0.4 separate the corpus perfectly
+      const recommended = Calibrator.recommend(samples);
+
+      expect(recommended.low).toBe(0.3);
+      expect(recommended.medium).toBeGreaterThan(recommended.low);
+      expect(recommended.high).toBeGreaterThan(recommended.medium);
+      expect(recommended.high).toBeLessThanOrEqual(1);
+    });
+
+    it('should grade medium and high on the weighted score of reported functions', () => {
+      const samples = [
+        sample('harmonious', 0.1, 0.9),
+        sample('harmonious', 0.4, 0.5),
+        sample('disharmonious', 0.4, 0.8),
+        sample('disharmonious', 0.5, 0.8),
+      ];
+
+      // Both 0.4s are reported at low; only the weighted score tells them apart
+      const recommended = Calibrator.recommend(samples);
+
+      expect(recommended).toEqual({ low: 0.25, medium: 0.55, high: 0.6 });
+    });
+  });
+
+  describe('calibrate', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'harmonizer-calibrate-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should score snippets and file references, skipping missing functions', () => {
+      fs.writeFileSync(
+        path.join(dir, 'users.js'),
+        'function findUser(db, id) {\n  return db.find(id);\n}\n'
+      );
+      const corpusPath = path.join(dir, 'corpus.json');
+      fs.writeFileSync(
+        corpusPath,
+        JSON.stringify({
+          samples: [
+            { ref: 'users.js:findUser', label: 'harmonious' },
+            { ref: 'users.js:2', label: 'harmonious', id: 'by-line' },
+            { code: 'function getUser(db, id) { db.delete(id); }', label: 'disharmonious' },
+            { ref: 'users.js:missing', label: 'harmonious' },
+          ],
+        })
+      );
+
+      const result = new Calibrator(new VocabularyManager()).calibrate(corpusPath);
+
+      expect(result.samples.map((s) => [s.id, s.function])).toEqual([
+        ['users.js:findUser', 'findUser'],
+        ['by-line', 'findUser'],
+        ['#3', 'getUser'],
+      ]);
+      expect(result.samples[2].disharmony).toBeGreaterThan(result.samples[0].disharmony);
+      expect(result.skipped).toEqual([
+        { id: 'users.js:missing', reason: 'No function at users.js:missing' },
+      ]);
+      expect(result.metrics).toHaveLength(20);
+      expect(result.best.threshold).toBe(result.recommended.low);
+    });
+
+    it('should reject samples with an unknown label', () => {
+      const corpusPath = path.join(dir, 'corpus.json');
+      fs.writeFileSync(corpusPath, JSON.stringify([{ code: 'function f() {}', label: 'ok' }]));
+
+      expect(() => Calibrator.loadCorpus(corpusPath)).toThrow(
+        'Sample 1: label must be "harmonious" or "disharmonious"'
+      );
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Threshold calibration
+ *
+ * Scores a labeled corpus of functions with the same parser and engine as
+ * analysis, measures precision and recall of "disharmony >= threshold" at a
+ * range of thresholds, and recommends `thresholds.disharmony` values. Like
+ * analysis, `low` applies to raw disharmony and `medium`/`high` to the
+ * severity score, weighted by drift direction and body size.
+ *
+ * A corpus is a JSON file with a `samples` array (or the array itself). Each
+ * sample is either a code snippet or a reference to a function in a file:
+ *
+ *   { "code": "function getUser(id) { db.delete(id); }", "label": "disharmonious" }
+ *   { "ref": "src/users.ts:getUser", "label": "harmonious" }
+ *   { "ref": "src/users.ts:42", "label": "harmonious" }
+ *
+ * Reference paths are relative to the corpus file. `name` picks a function in
+ * a snippet with several; otherwise the first function is used.
+ *
+ * Scores from other distance metrics are divided by the metric's threshold
+ * scale, so recommendations are in the same units as `thresholds.disharmony`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ASTSemanticParser, FunctionMetadata } from '../parser/ast-parser';
+import { SemanticEngine, SemanticEngineOptions, VocabularyManager } from '../core/engine';
+import { DistanceMetric } from '../core/distance-metrics';
+import { Dimension, DIMENSIONS } from '../core/vocabulary';
+import {
+  calculateDirectionalPenalty,
+  PenaltyMatrix,
+  resolvePenaltyMatrix,
+} from '../core/penalty-matrix';
+import { ThresholdConfig } from '../config/config-loader';
+
+export type CalibrationLabel = 'harmonious' | 'disharmonious';
+
+export interface CalibrationSample {
+  label: CalibrationLabel;
+  id?: string; // Shown in reports (default: ref, name or position)
+  code?: string;
+  ref?: string; // file:functionName or file:line
+  name?: string; // Function to use from a snippet
+}
+
+export interface ScoredSample {
+  id: string;
+  label: CalibrationLabel;
+  function: string;
+  disharmony: number; // Scaled to Euclidean units, like thresholds.disharmony
+  weightedDisharmony: number; // The same, weighted like severity
+  confidence?: number;
+}
+
+export interface CalibratorOptions extends SemanticEngineOptions {
+  penaltyMatrix?: PenaltyMatrix; // Drift weights severity is graded with (default: built-in)
+}
+
+export interface ConfusionMatrix {
+  truePositives: number; // Disharmonious and reported
+  falsePositives: number; // Harmonious but reported
+  trueNegatives: number;
+  falseNegatives: number; // Disharmonious but missed
+}
+
+export interface ThresholdMetrics extends ConfusionMatrix {
+  threshold: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface CalibrationResult {
+  metric: DistanceMetric;
+  samples: ScoredSample[];
+  skipped: Array<{ id: string; reason: string }>;
+  metrics: ThresholdMetrics[]; // One per threshold, ascending
+  recommended: ThresholdConfig;
+  best: ThresholdMetrics; // Metrics at the recommended low threshold
+}
+
+/**
+ * Thresholds tried, within the 0-1 range config validation accepts
+ */
+export const CALIBRATION_THRESHOLDS = Array.from({ length: 20 }, (_, i) => (i + 1) / 20);
+
+/**
+ * Precision the medium and high thresholds should reach
+ */
+const MEDIUM_PRECISION = 0.9;
+const HIGH_PRECISION = 0.95;
+
+/**
+ * Calibrator - Measures how well disharmony scores separate a labeled corpus
+ */
+export class Calibrator {
+  private parser: ASTSemanticParser;
+  private engine: SemanticEngine;
+  private penaltyMatrix: PenaltyMatrix;
+
+  constructor(vocabulary: VocabularyManager, options: CalibratorOptions = {}) {
+    this.parser = new ASTSemanticParser(vocabulary);
+    this.engine = new SemanticEngine(vocabulary, options);
+    this.penaltyMatrix = options.penaltyMatrix ?? resolvePenaltyMatrix();
+  }
+
+  /**
+   * Score and evaluate a corpus file
+   *
+   * @throws Error if the corpus can't be read or a sample is malformed
+   */
+  calibrate(corpusPath: string): CalibrationResult {
+    const samples = Calibrator.loadCorpus(corpusPath);
+    const { scored, skipped } = this.score(samples, path.dirname(path.resolve(corpusPath)));
+    const metrics = Calibrator.evaluate(scored);
+    const recommended = Calibrator.recommend(scored);
+
+    return {
+      metric: this.engine.getMetric().name,
+      samples: scored,
+      skipped,
+      metrics,
+      recommended,
+      best: metrics.find((m) => m.threshold === recommended.low)!,
+    };
+  }
+
+  /**
+   * Read and validate a corpus file
+   */
+  static loadCorpus(corpusPath: string): CalibrationSample[] {
+    const content = JSON.parse(fs.readFileSync(corpusPath, 'utf-8'));
+    const samples: unknown = Array.isArray(content) ? content : content?.samples;
+
+    if (!Array.isArray(samples) || samples.length === 0) {
+      throw new Error(`${corpusPath} must contain a non-empty "samples" array`);
+    }
+
+    samples.forEach((sample, i) => {
+      if (sample?.label !== 'harmonious' && sample?.label !== 'disharmonious') {
+        throw new Error(`Sample ${i + 1}: label must be "harmonious" or "disharmonious"`);
+      }
+      if (typeof sample.code !== 'string' && typeof sample.ref !== 'string') {
+        throw new Error(`Sample ${i + 1}: needs "code" or "ref"`);
+      }
+    });
+
+    return samples;
+  }
+
+  /**
+   * Run each sample through the parser and engine. Samples whose function
+   * can't be found or parsed are skipped rather than failing the run.
+   *
+   * @param baseDir - Directory `ref` paths are resolved against
+   */
+  score(
+    samples: CalibrationSample[],
+    baseDir: string = process.cwd()
+  ): { scored: ScoredSample[]; skipped: Array<{ id: string; reason: string }> } {
+    const scored: ScoredSample[] = [];
+    const skipped: Array<{ id: string; reason: string }> = [];
+
+    samples.forEach((sample, i) => {
+      const id = sample.id ?? sample.ref ?? sample.name ?? `#${i + 1}`;
+      try {
+        const { node, metadata } = this.findFunction(sample, baseDir);
+        const parseResult = this.parser.analyzeFunction(node, metadata);
+        const analysis = this.engine.performICEAnalysis(
+          parseResult.intent,
+          parseResult.context,
+          parseResult.execution,
+          parseResult.typeSignals
+        );
+        const deltas = Object.fromEntries(
+          DIMENSIONS.map((dim) => [dim, analysis.execution[dim] - analysis.intent[dim]])
+        ) as Record<Dimension, number>;
+        const { multiplier } = calculateDirectionalPenalty(deltas, this.penaltyMatrix);
+        const disharmony = analysis.disharmony / this.engine.getMetric().thresholdScale;
+        scored.push({
+          id,
+          label: sample.label,
+          function: metadata.name,
+          disharmony,
+          weightedDisharmony: disharmony * multiplier * analysis.magnitude.sizeFactor,
+          confidence: analysis.confidence,
+        });
+      } catch (error) {
+        skipped.push({ id, reason: error instanceof Error ? error.message : String(error) });
+      }
+    });
+
+    return { scored, skipped };
+  }
+
+  /**
+   * Confusion matrix, precision, recall and F1 at each threshold, treating
+   * "disharmonious" as the positive class
+   *
+   * @param score - The score compared with each threshold (default: raw disharmony)
+   */
+  static evaluate(
+    samples: ScoredSample[],
+    thresholds: number[] = CALIBRATION_THRESHOLDS,
+    score: (sample: ScoredSample) => number = (sample) => sample.disharmony
+  ): ThresholdMetrics[] {
+    return thresholds.map((threshold) => {
+      const matrix: ConfusionMatrix = {
+        truePositives: 0,
+        falsePositives: 0,
+        trueNegatives: 0,
+        falseNegatives: 0,
+      };
+      for (const sample of samples) {
+        const reported = score(sample) >= threshold;
+        if (sample.label === 'disharmonious') {
+          matrix[reported ? 'truePositives' : 'falseNegatives']++;
+        } else {
+          matrix[reported ? 'falsePositives' : 'trueNegatives']++;
+        }
+      }
+
+      const reported = matrix.truePositives + matrix.falsePositives;
+      const actual = matrix.truePositives + matrix.falseNegatives;
+      const precision = reported > 0 ? matrix.truePositives / reported : 0;
+      const recall = actual > 0 ? matrix.truePositives / actual : 0;
+      const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+      return { threshold, ...matrix, precision, recall, f1 };
+    });
+  }
+
+  /**
+   * Recommend thresholds: `low` maximizes F1 on raw disharmony (the middle of
+   * any tied range). `medium` and `high` are the lowest thresholds above it
+   * where the functions reported at low with at least that weighted score are
+   * 90% and 95% correct. Without such a threshold, they fall halfway between
+   * the previous one and 1.
+   */
+  static recommend(samples: ScoredSample[]): ThresholdConfig {
+    const metrics = Calibrator.evaluate(samples);
+    // Leave room above low for medium and high
+    const candidates = metrics.filter((m) => m.threshold <= 0.9);
+    const bestF1 = Math.max(...candidates.map((m) => m.f1));
+    const tied = candidates.filter((m) => m.f1 === bestF1);
+    const low = tied[Math.floor((tied.length - 1) / 2)].threshold;
+
+    // Only reported functions get a severity above LOW
+    const severityMetrics = Calibrator.evaluate(samples, CALIBRATION_THRESHOLDS, (sample) =>
+      sample.disharmony >= low ? sample.weightedDisharmony : 0
+    );
+    const above = (previous: number, precision: number): number => {
+      const match = severityMetrics.find(
+        (m) =>
+          m.threshold > previous &&
+          m.truePositives + m.falsePositives > 0 &&
+          m.precision >= precision
+      );
+      return match && match.threshold < 1
+        ? match.threshold
+        : Math.round(((previous + 1) / 2) * 100) / 100;
+    };
+    const medium = above(low, MEDIUM_PRECISION);
+    const high = above(medium, HIGH_PRECISION);
+
+    return { low, medium, high };
+  }
+
+  /**
+   * The function a sample refers to
+   */
+  private findFunction(
+    sample: CalibrationSample,
+    baseDir: string
+  ): ReturnType<ASTSemanticParser['extractFunctions']>[number] {
+    if (sample.code !== undefined) {
+      const functions = this.parser.extractFunctions(sample.code);
+      const match = sample.name
+        ? functions.find(({ metadata }) => metadata.name === sample.name)
+        : functions[0];
+      if (!match) {
+        throw new Error(sample.name ? `No function '${sample.name}' in snippet` : 'No function');
+      }
+      return match;
+    }
+
+    const separator = sample.ref!.lastIndexOf(':');
+    if (separator <= 0) {
+      throw new Error('Reference must be file:function or file:line');
+    }
+    const filePath = path.resolve(baseDir, sample.ref!.slice(0, separator));
+    const target = sample.ref!.slice(separator + 1);
+    const functions = this.parser.extractFunctions(fs.readFileSync(filePath, 'utf-8'), filePath);
+
+    const atLine = (metadata: FunctionMetadata, line: number) =>
+      (metadata.location?.start.line ?? 0) <= line && line <= (metadata.location?.end.line ?? 0);
+    const match = /^\d+$/.test(target)
+      ? // Innermost function containing the line
+        functions.filter(({ metadata }) => atLine(metadata, Number(target))).pop()
+      : functions.find(({ metadata }) => metadata.name === target);
+    if (!match) {
+      throw new Error(`No function at ${sample.ref}`);
+    }
+    return match;
+  }
+}
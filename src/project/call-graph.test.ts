@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CallGraph } from './call-graph';
+import { ProjectAnalyzer } from './project-analyzer';
+import { Coordinates } from '../core/coordinates';
+
+describe('CallGraph', () => {
+  const node = (name: string, calls: string[], extra = {}) => ({
+    name,
+    filePath: '/project/a.js',
+    line: 1,
+    exported: false,
+    execution: Coordinates.power(),
+    sideEffects: [],
+    calls: calls.map((callee) => ({ name: callee })),
+    ...extra,
+  });
+
+  it('should decay inherited effects by call depth and visit cycles once', () => {
+    const a = node('a', ['b']);
+    const b = node('b', ['c', 'a']);
+    const c = node('c', ['a', 'c']);
+    const graph = new CallGraph([a, b, c], { decay: 0.5 });
+
+    expect(
+      graph.getInheritedEffects(a).map(({ callee, depth, weight }) => [callee, depth, weight])
+    ).toEqual([
+      ['b', 1, 0.5],
+      ['c', 2, 0.25],
+    ]);
+  });
+
+  it('should stop at the maximum call depth', () => {
+    const a = node('a', ['b']);
+    const graph = new CallGraph([a, node('b', ['c']), node('c', [])], { maxDepth: 1 });
+
+    expect(graph.getInheritedEffects(a)).toHaveLength(1);
+  });
+
+  it('should resolve this-calls only within the same class', () => {
+    const save = node('save', [], { className: 'Store' });
+    const other = node('save', [], { className: 'Other' });
+    const run = {
+      ...node('run', [], { className: 'Store' }),
+      calls: [{ name: 'save', receiver: 'this' as const }],
+    };
+    const graph = new CallGraph([other, save, run]);
+
+    expect(graph.getCallees(run)).toEqual([save]);
+  });
+
+  it('should fold callee execution in by weight', () => {
+    const folded = CallGraph.foldExecution(Coordinates.wisdom(), [
+      {
+        callee: 'b',
+        location: 'a.js:1',
+        depth: 1,
+        weight: 1,
+        execution: Coordinates.power(),
+        sideEffects: [],
+      },
+    ]);
+
+    expect(folded.toObject()).toEqual({ love: 0, justice: 0, power: 0.5, wisdom: 0.5 });
+  });
+});
+
+describe('ProjectAnalyzer interprocedural analysis', () => {
+  let rootPath: string;
+
+  beforeAll(() => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'harmonizer-calls-'));
+    fs.writeFileSync(
+      path.join(rootPath, 'storage.js'),
+      "import fs from 'fs';\nexport function persist(file) {\n  fs.unlinkSync(file);\n  fs.rmSync(file);\n}\n"
+    );
+    fs.writeFileSync(
+      path.join(rootPath, 'user.js'),
+      "import { persist } from './storage';\nexport function getUser(id) {\n  persist(id);\n  return find(id);\n}\n"
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  async function getUser(interprocedural: boolean) {
+    const result = await new ProjectAnalyzer({ analysis: { interprocedural } }).analyzeProject({
+      rootPath,
+      showProgress: false,
+    });
+    return result.files.find((f) => f.relativePath === 'user.js')!.functions[0];
+  }
+
+  it('should inherit effects from imported callees', async () => {
+    const func = await getUser(true);
+
+    expect(func.inheritedEffects).toEqual([
+      {
+        callee: 'persist',
+        location: 'storage.js:2',
+        depth: 1,
+        weight: 0.5,
+        sideEffects: ['filesystem-io'],
+      },
+    ]);
+    expect(func.disharmony).toBeGreaterThan((await getUser(false)).disharmony);
+    expect(func).not.toHaveProperty('profile');
+  });
+
+  it('should resolve callees in files outside an explicit file list', async () => {
+    const result = await new ProjectAnalyzer().analyzeProject({
+      rootPath,
+      files: [path.join(rootPath, 'user.js')],
+      showProgress: false,
+    });
+
+    expect(result.files.map((f) => f.relativePath)).toEqual(['user.js']);
+    expect(result.files[0].functions[0].inheritedEffects).toEqual([
+      expect.objectContaining({ callee: 'persist', location: 'storage.js:2' }),
+    ]);
+  });
+
+  it('should leave results unchanged when disabled', async () => {
+    const func = await getUser(false);
+
+    expect(func.inheritedEffects).toBeUndefined();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Project-wide call graph
+ *
+ * Resolves call sites recorded by the AST parser to functions defined in the
+ * project, so a caller's execution profile can include what its callees do.
+ */
+
+import * as path from 'path';
+import { Coordinates, InheritedEffect } from '../core/coordinates';
+import { CallSite } from '../parser/ast-parser';
+import { resolveImport } from '../utils/module-resolver';
+
+/**
+ * A function in the call graph, described by its own (body-only) execution
+ */
+export interface CallGraphNode {
+  name: string;
+  filePath: string;
+  line: number;
+  className?: string;
+  exported: boolean;
+  execution: Coordinates;
+  sideEffects: string[];
+  calls: CallSite[];
+}
+
+export interface CallGraphOptions {
+  maxDepth?: number; // Call levels to follow (default: 3)
+  decay?: number; // Weight multiplier per level (default: 0.5)
+  rootPath?: string; // Report callee locations relative to this directory
+}
+
+/**
+ * CallGraph - Resolves calls between project functions and folds callee
+ * execution into callers with depth decay
+ */
+export class CallGraph {
+  private byFile = new Map<string, CallGraphNode[]>();
+  private edges = new Map<CallGraphNode, CallGraphNode[]>();
+  private maxDepth: number;
+  private decay: number;
+  private rootPath?: string;
+
+  constructor(nodes: CallGraphNode[], options: CallGraphOptions = {}) {
+    this.maxDepth = options.maxDepth ?? 3;
+    this.decay = options.decay ?? 0.5;
+    this.rootPath = options.rootPath;
+
+    for (const node of nodes) {
+      const key = path.resolve(node.filePath);
+      const fileNodes = this.byFile.get(key) ?? [];
+      fileNodes.push(node);
+      this.byFile.set(key, fileNodes);
+    }
+
+    for (const node of nodes) {
+      const callees = node.calls
+        .map((call) => this.resolve(node, call))
+        .filter((callee): callee is CallGraphNode => callee !== null && callee !== node);
+      this.edges.set(node, [...new Set(callees)]);
+    }
+  }
+
+  /**
+   * Functions called directly by a node
+   */
+  getCallees(node: CallGraphNode): CallGraphNode[] {
+    return this.edges.get(node) ?? [];
+  }
+
+  /**
+   * Every function reachable from a node within maxDepth calls, each at its
+   * shortest call depth. Cycles are visited once.
+   */
+  getInheritedEffects(node: CallGraphNode): InheritedEffect[] {
+    const effects: InheritedEffect[] = [];
+    const visited = new Set<CallGraphNode>([node]);
+    let frontier = [node];
+
+    for (let depth = 1; depth <= this.maxDepth && frontier.length > 0; depth++) {
+      const next: CallGraphNode[] = [];
+      for (const caller of frontier) {
+        for (const callee of this.getCallees(caller)) {
+          if (visited.has(callee)) continue;
+          visited.add(callee);
+          next.push(callee);
+          const file = this.rootPath
+            ? path.relative(this.rootPath, callee.filePath)
+            : callee.filePath;
+          effects.push({
+            callee: callee.className ? `${callee.className}.${callee.name}` : callee.name,
+            location: `${file}:${callee.line}`,
+            depth,
+            weight: Math.pow(this.decay, depth),
+            execution: callee.execution,
+            sideEffects: callee.sideEffects,
+          });
+        }
+      }
+      frontier = next;
+    }
+
+    return effects;
+  }
+
+  /**
+   * A node's own execution with its inherited effects added in by weight
+   */
+  static foldExecution(own: Coordinates, effects: InheritedEffect[]): Coordinates {
+    const totals = effects.reduce(
+      (sum, effect) => ({
+        love: sum.love + effect.weight * effect.execution.love,
+        justice: sum.justice + effect.weight * effect.execution.justice,
+        power: sum.power + effect.weight * effect.execution.power,
+        wisdom: sum.wisdom + effect.weight * effect.execution.wisdom,
+      }),
+      own.toObject()
+    );
+    return Coordinates.from(totals);
+  }
+
+  /**
+   * Resolve a call site to the project function it targets
+   */
+  private resolve(caller: CallGraphNode, call: CallSite): CallGraphNode | null {
+    const sameFile = this.byFile.get(path.resolve(caller.filePath)) ?? [];
+
+    if (call.receiver === 'this') {
+      if (!caller.className) return null;
+      return sameFile.find((n) => n.className === caller.className && n.name === call.name) ?? null;
+    }
+
+    if (!call.source) {
+      return sameFile.find((n) => !n.className && n.name === call.name) ?? null;
+    }
+
+    const target = resolveImport(caller.filePath, call.source, (file) => this.byFile.has(file));
+    if (!target || !call.imported || call.imported === 'default' || call.imported === '*') {
+      return null;
+    }
+    return (
+      this.byFile
+        .get(target)
+        ?.find((n) => n.exported && !n.className && n.name === call.imported) ?? null
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IgnoreFilter } from './ignore-filter';
+import { ProjectAnalyzer } from './project-analyzer';
+
+describe('IgnoreFilter', () => {
+  let rootPath: string;
+
+  const write = (file: string, content = 'function f() {}\n') => {
+    fs.mkdirSync(path.dirname(path.join(rootPath, file)), { recursive: true });
+    fs.writeFileSync(path.join(rootPath, file), content);
+  };
+
+  beforeEach(() => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'harmonizer-ignore-'));
+    fs.mkdirSync(path.join(rootPath, '.git'));
+    write('.gitignore', 'out/\n*.log\n');
+    write('src/.gitignore', '*.g.js\n');
+    write('.harmonizerignore', 'src/legacy/\n!keep.g.js\n');
+    write('src/app.js');
+    write('src/app.g.js');
+    write('src/keep.g.js');
+    write('src/legacy/old.js');
+    write('out/bundle.js');
+    write('vendor/lib.js');
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  it('should report the source and rule that ignore a path', () => {
+    const filter = new IgnoreFilter(rootPath, ['vendor/**']);
+
+    expect(filter.check('src/app.js')).toEqual({ ignored: false });
+    expect(filter.check('out', true)).toEqual({
+      ignored: true,
+      source: '.gitignore',
+      pattern: 'out/',
+    });
+    expect(filter.check('src/app.g.js')).toMatchObject({
+      source: 'src/.gitignore',
+      pattern: '*.g.js',
+    });
+    expect(filter.check('vendor', true)).toMatchObject({
+      source: 'config ignore',
+      pattern: 'vendor/**',
+    });
+    expect(filter.check('src/legacy', true)).toMatchObject({ source: '.harmonizerignore' });
+  });
+
+  it('should let later sources re-include a file', () => {
+    const filter = new IgnoreFilter(rootPath);
+
+    expect(filter.ignores('src/keep.g.js')).toBe(false);
+  });
+
+  it('should skip ignored files during project analysis', async () => {
+    const analyzer = new ProjectAnalyzer();
+    const selection = await analyzer.selectFiles({ rootPath, exclude: ['vendor/**'] });
+
+    expect(
+      selection.files.map((f) => path.relative(rootPath, f).split(path.sep).join('/'))
+    ).toEqual(['src/app.js', 'src/keep.g.js']);
+    expect(selection.ignored.map((entry) => entry.path).sort()).toEqual([
+      'out/',
+      'src/app.g.js',
+      'src/legacy/',
+      'vendor/',
+    ]);
+  });
+
+  it('should apply the same rules to an explicit file list', async () => {
+    const analyzer = new ProjectAnalyzer();
+    const selection = await analyzer.selectFiles({
+      rootPath,
+      files: [path.join(rootPath, 'src/app.g.js'), path.join(rootPath, 'src/app.js')],
+    });
+
+    expect(selection.files).toEqual([path.join(rootPath, 'src/app.js')]);
+    expect(selection.ignored.map((entry) => entry.path)).toEqual(['src/app.g.js']);
+  });
+});
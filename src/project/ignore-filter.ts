@@ -0,0 +1,208 @@
+/**
+ * Ignore filter
+ *
+ * Decides whether a path is excluded from analysis. Project analysis, watch
+ * mode and git-changed-file analysis all go through this filter, which
+ * combines, in order of precedence (later sources can re-include with `!`):
+ *
+ * 1. `.gitignore` files from the repository root down to the file's directory
+ * 2. `ignore` patterns from .harmonizerrc (gitignore syntax; `dir/**` globs work)
+ * 3. The nearest `.harmonizerignore`
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+import { ConfigLoader } from '../config/config-loader';
+
+/**
+ * Why a path is ignored
+ */
+export interface IgnoreDecision {
+  ignored: boolean;
+  source?: string; // e.g. '.gitignore', 'src/.gitignore', 'config ignore', '.harmonizerignore'
+  pattern?: string; // The rule that decided it
+}
+
+/**
+ * A path skipped during file discovery, relative to the analysis root.
+ * Directories end in '/'.
+ */
+export interface IgnoredPath {
+  path: string;
+  source: string;
+  pattern: string;
+}
+
+interface IgnoreSource {
+  name: string;
+  baseDir: string; // Patterns are relative to this directory
+  patterns: string[];
+  labels: string[]; // Patterns as written, for reporting
+  matcher: Ignore;
+}
+
+/**
+ * IgnoreFilter - Shared ignore pipeline for file discovery
+ */
+export class IgnoreFilter {
+  private rootPath: string;
+  private gitRoot: string;
+  private configSource: IgnoreSource;
+  private harmonizerSource: IgnoreSource | null;
+  private gitignores = new Map<string, IgnoreSource | null>();
+
+  constructor(rootPath: string, patterns: string[] = []) {
+    this.rootPath = path.resolve(rootPath);
+    this.gitRoot = IgnoreFilter.findGitRoot(this.rootPath) ?? this.rootPath;
+
+    // Glob-style "everything below dir" is a directory rule in gitignore terms
+    this.configSource = IgnoreFilter.createSource(
+      'config ignore',
+      this.rootPath,
+      patterns.map((pattern) => pattern.replace(/\/\*\*$/, '/')),
+      patterns
+    );
+
+    const harmonizerignore = ConfigLoader.findIgnoreFile(this.rootPath);
+    this.harmonizerSource = harmonizerignore
+      ? this.loadSource(harmonizerignore, '.harmonizerignore')
+      : null;
+  }
+
+  /**
+   * Decide whether a file or directory is ignored, and by which rule
+   */
+  check(filePath: string, isDirectory = false): IgnoreDecision {
+    const absolute = path.resolve(this.rootPath, filePath);
+    let decision: IgnoreDecision = { ignored: false };
+
+    for (const source of this.getSources(absolute)) {
+      const relative = path.relative(source.baseDir, absolute).split(path.sep).join('/');
+      // Paths outside a source's directory are not governed by it
+      if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) continue;
+
+      const subject = isDirectory ? `${relative}/` : relative;
+      const { ignored, unignored } = source.matcher.test(subject);
+      if (ignored) {
+        decision = {
+          ignored: true,
+          source: source.name,
+          pattern: IgnoreFilter.findRule(source, subject),
+        };
+      } else if (unignored) {
+        decision = { ignored: false };
+      }
+    }
+
+    return decision;
+  }
+
+  /**
+   * Whether a file or directory is ignored
+   */
+  ignores(filePath: string, isDirectory = false): boolean {
+    return this.check(filePath, isDirectory).ignored;
+  }
+
+  /**
+   * Sources that apply to a path, lowest precedence first
+   */
+  private getSources(absolute: string): IgnoreSource[] {
+    const sources: IgnoreSource[] = [];
+
+    // .gitignore files from the repository root down to the path's directory
+    const dirs: string[] = [];
+    const fromGitRoot = path.relative(this.gitRoot, path.dirname(absolute));
+    if (!fromGitRoot.startsWith('..') && !path.isAbsolute(fromGitRoot)) {
+      let dir = this.gitRoot;
+      dirs.push(dir);
+      for (const segment of fromGitRoot.split(path.sep).filter(Boolean)) {
+        dir = path.join(dir, segment);
+        dirs.push(dir);
+      }
+    }
+    for (const gitignoreDir of dirs) {
+      const source = this.getGitignore(gitignoreDir);
+      if (source) sources.push(source);
+    }
+
+    sources.push(this.configSource);
+    if (this.harmonizerSource) sources.push(this.harmonizerSource);
+
+    return sources;
+  }
+
+  /**
+   * The .gitignore in a directory, if any (cached)
+   */
+  private getGitignore(dir: string): IgnoreSource | null {
+    if (!this.gitignores.has(dir)) {
+      const gitignorePath = path.join(dir, '.gitignore');
+      const name = path.relative(this.rootPath, gitignorePath).split(path.sep).join('/');
+      this.gitignores.set(
+        dir,
+        fs.existsSync(gitignorePath) ? this.loadSource(gitignorePath, name) : null
+      );
+    }
+    return this.gitignores.get(dir) ?? null;
+  }
+
+  /**
+   * Read an ignore file into a source
+   */
+  private loadSource(filePath: string, name: string): IgnoreSource | null {
+    try {
+      const patterns = fs
+        .readFileSync(filePath, 'utf-8')
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0 && !line.startsWith('#'));
+      return IgnoreFilter.createSource(name, path.dirname(filePath), patterns);
+    } catch (error) {
+      console.warn(
+        `⚠️  Failed to load ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return null;
+    }
+  }
+
+  private static createSource(
+    name: string,
+    baseDir: string,
+    patterns: string[],
+    labels = patterns
+  ): IgnoreSource {
+    return { name, baseDir, patterns, labels, matcher: ignore().add(patterns) };
+  }
+
+  /**
+   * The last rule in a source that ignores a path (later rules win)
+   */
+  private static findRule(source: IgnoreSource, subject: string): string {
+    for (let i = source.patterns.length - 1; i >= 0; i--) {
+      const pattern = source.patterns[i];
+      if (!pattern.startsWith('!') && ignore().add(pattern).ignores(subject)) {
+        return source.labels[i];
+      }
+    }
+    return source.labels[source.labels.length - 1] ?? '';
+  }
+
+  /**
+   * Find the enclosing git working tree, if any
+   */
+  private static findGitRoot(startPath: string): string | null {
+    let currentPath = startPath;
+
+    while (!fs.existsSync(path.join(currentPath, '.git'))) {
+      const parentPath = path.dirname(currentPath);
+      if (parentPath === currentPath) {
+        return null;
+      }
+      currentPath = parentPath;
+    }
+
+    return currentPath;
+  }
+}
@@ -0,0 +1,258 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectAnalyzer } from './project-analyzer';
+import { HarmonizerConfig } from '../config/config-loader';
+
+const SOURCE = `
+function getUser(id) {
+  users.delete(id);
+  database.remove(id);
+  return null;
+}
+`;
+
+describe('ProjectAnalyzer with .harmonizerrc settings', () => {
+  let rootPath: string;
+
+  beforeAll(() => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'harmonizer-'));
+    fs.writeFileSync(path.join(rootPath, 'user.js'), SOURCE);
+  });
+
+  afterAll(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  async function analyze(config: HarmonizerConfig) {
+    const result = await new ProjectAnalyzer(config).analyzeProject({
+      rootPath,
+      showProgress: false,
+    });
+    return result.files[0].functions[0];
+  }
+
+  it('should flag disharmonious functions at error level by default', async () => {
+    const func = await analyze({});
+    expect(func.level).toBe('error');
+    expect(func.suggestions?.length).toBeGreaterThan(0);
+  });
+
+  it('should use the configured rule level', async () => {
+    const func = await analyze({ rules: { 'disharmony-threshold': 'warn' } });
+    expect(func.level).toBe('warn');
+  });
+
+  it('should not flag anything when the rule is off', async () => {
+    const func = await analyze({ rules: { 'disharmony-threshold': 'off' } });
+    expect(func.level).toBeUndefined();
+    expect(func.suggestions).toBeUndefined();
+  });
+
+  it('should apply configured thresholds to severity and flagging', async () => {
+    const func = await analyze({
+      thresholds: { disharmony: { low: 0.97, medium: 0.98, high: 0.99 } },
+      analysis: { penaltyMatrix: { wisdom: { power: 1 } } },
+    });
+    expect(func.level).toBeUndefined();
+    expect(func.severity).toBe('LOW');
+  });
+
+  it('should weigh severity by the direction of the drift', async () => {
+    const thresholds = { disharmony: { low: 0.3, medium: 0.9, high: 0.95 } };
+    const neutral = await analyze({
+      thresholds,
+      analysis: { penaltyMatrix: { wisdom: { love: 1, justice: 1, power: 1 } } },
+    });
+    const weighted = await analyze({ thresholds });
+
+    // A Wisdom name over Power execution is a hidden mutation
+    expect(neutral.direction?.multiplier).toBeCloseTo(1);
+    expect(weighted.direction?.drifts[0]).toMatchObject({ from: 'wisdom', to: 'power' });
+    expect(weighted.direction?.weightedDisharmony).toBeGreaterThan(weighted.disharmony);
+    expect(weighted.disharmony).toBeCloseTo(neutral.disharmony);
+    expect(neutral.severity).toBe('LOW');
+    expect(weighted.severity).toBe('HIGH');
+  });
+
+  it('should keep unreported functions at LOW however heavily they are weighted', async () => {
+    const func = await analyze({
+      thresholds: { disharmony: { low: 0.97, medium: 0.3, high: 0.3 } },
+    });
+
+    expect(func.level).toBeUndefined();
+    expect(func.direction?.weightedDisharmony).toBeGreaterThan(0.3);
+    expect(func.severity).toBe('LOW');
+  });
+
+  it('should name the anti-pattern of reported functions', async () => {
+    const reported = await analyze({});
+    const unreported = await analyze({
+      thresholds: { disharmony: { low: 0.97, medium: 0.98, high: 0.99 } },
+    });
+
+    const silenced = await analyze({ rules: { 'disharmony-threshold': 'off' } });
+
+    expect(reported.antiPattern?.id).toBe('hidden-mutation');
+    expect(unreported.antiPattern).toBeUndefined();
+    expect(silenced.antiPattern).toBeUndefined();
+  });
+
+  it('should measure disharmony with the configured distance metric', async () => {
+    const euclidean = await analyze({});
+    const cosine = await analyze({ analysis: { distanceMetric: 'cosine' } });
+
+    expect(cosine.disharmony).not.toBeCloseTo(euclidean.disharmony);
+    expect(cosine.level).toBe('error');
+  });
+
+  it('should skip suggestions and baselines when those rules are off', async () => {
+    const func = await analyze({
+      rules: { 'semantic-naming': 'off', 'ice-analysis': 'off' },
+    });
+    expect(func.level).toBe('error');
+    expect(func.suggestions).toBeUndefined();
+    expect(func.baselines).toBeUndefined();
+  });
+});
+
+describe('ProjectAnalyzer inline suppressions', () => {
+  let rootPath: string;
+
+  afterEach(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  async function analyze(comment: string, source = SOURCE, config: HarmonizerConfig = {}) {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'harmonizer-'));
+    fs.writeFileSync(path.join(rootPath, 'user.js'), `${comment}${source}`);
+    const result = await new ProjectAnalyzer(config).analyzeProject({
+      rootPath,
+      showProgress: false,
+    });
+    return result.files[0];
+  }
+
+  it('should exempt covered functions from the suppressed rule', async () => {
+    const file = await analyze('// harmonizer-disable-next-line disharmony-threshold -- legacy');
+
+    expect(file.functions[0].level).toBeUndefined();
+    expect(file.metrics.disharmoniousFunctions).toBe(0);
+    expect(file.suppressions).toEqual([
+      {
+        kind: 'next-line',
+        line: 1,
+        rules: ['disharmony-threshold'],
+        reason: 'legacy',
+        functions: ['getUser'],
+        used: true,
+      },
+    ]);
+  });
+
+  it('should keep reporting rules that were not suppressed', async () => {
+    const file = await analyze('// harmonizer-disable-next-line semantic-naming');
+
+    expect(file.functions[0].level).toBe('error');
+    expect(file.functions[0].suggestions).toBeUndefined();
+    expect(file.suppressions?.[0].used).toBe(true);
+  });
+
+  it('should mark suppressions that silence nothing as unused', async () => {
+    const file = await analyze(
+      '/* harmonizer-disable */\nfunction getName() {\n  return this.name;\n}\n/* harmonizer-enable */'
+    );
+
+    expect(file.suppressions?.[0]).toMatchObject({ functions: ['getName'], used: false });
+    expect(file.functions.find((f) => f.name === 'getUser')?.level).toBe('error');
+  });
+
+  it('should mark suppressions over functions that are never reported as unused', async () => {
+    const callback = await analyze(
+      '// harmonizer-disable-next-line\n',
+      'items.forEach((item) => {\n  item.count = 0;\n  store.save(item);\n});\n'
+    );
+    const hidden = await analyze(
+      '// harmonizer-disable-next-line\n',
+      'function frobnicateWidget(id) {\n  users.delete(id);\n  return null;\n}\n',
+      { analysis: { lowConfidence: 'hide' } }
+    );
+
+    expect(callback.functions[0].unnamed).toBe(true);
+    expect(callback.suppressions?.[0].used).toBe(false);
+    expect(hidden.functions[0].lowConfidence).toBe(true);
+    expect(hidden.suppressions?.[0].used).toBe(false);
+  });
+});
+
+describe('ProjectAnalyzer confidence', () => {
+  let rootPath: string;
+
+  beforeAll(() => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'harmonizer-'));
+    fs.writeFileSync(
+      path.join(rootPath, 'widget.js'),
+      `${SOURCE}\nfunction frobnicateWidget(id) {\n  users.delete(id);\n  return null;\n}\n`
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  async function analyze(config: HarmonizerConfig = {}) {
+    return new ProjectAnalyzer(config).analyzeProject({ rootPath, showProgress: false });
+  }
+
+  it('should report confidence and unrecognized words per function', async () => {
+    const [getUser, frobnicate] = (await analyze()).files[0].functions;
+
+    expect(getUser.confidence).toBeGreaterThanOrEqual(0.5);
+    expect(getUser.lowConfidence).toBeUndefined();
+    expect(frobnicate).toMatchObject({ confidence: 0, lowConfidence: true, level: 'error' });
+    expect(frobnicate.unrecognizedTokens).toEqual(expect.arrayContaining(['frobnicate', 'widget']));
+  });
+
+  it('should hide low-confidence findings when configured', async () => {
+    const result = await analyze({ analysis: { lowConfidence: 'hide' } });
+    const [getUser, frobnicate] = result.files[0].functions;
+
+    expect(getUser.level).toBe('error');
+    expect(frobnicate.level).toBeUndefined();
+    expect(result.summary.disharmoniousFunctions).toBe(1);
+  });
+
+  it('should summarize vocabulary coverage across the project', async () => {
+    const { vocabularyCoverage } = await analyze();
+
+    expect(vocabularyCoverage?.lowConfidenceFunctions).toBe(1);
+    expect(vocabularyCoverage?.coverage).toBeGreaterThan(0);
+    expect(vocabularyCoverage?.coverage).toBeLessThan(1);
+    expect(vocabularyCoverage?.topUnknown.map((entry) => entry.word)).toContain('widget');
+  });
+});
+
+describe('ProjectAnalyzer anonymous callbacks', () => {
+  let rootPath: string;
+
+  afterEach(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  it('should not report an anonymous callback against the call it is passed to', async () => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'harmonizer-'));
+    fs.writeFileSync(
+      path.join(rootPath, 'counts.js'),
+      'items.forEach((item) => {\n  item.count = 0;\n  store.save(item);\n});\n'
+    );
+
+    const result = await new ProjectAnalyzer().analyzeProject({ rootPath, showProgress: false });
+    const [callback] = result.files[0].functions;
+
+    expect(callback).toMatchObject({ name: 'items.forEach() callback', unnamed: true });
+    expect(callback.level).toBeUndefined();
+    expect(callback.suggestions).toBeUndefined();
+    expect(callback.antiPattern).toBeUndefined();
+    expect(result.summary.disharmoniousFunctions).toBe(0);
+  });
+});
@@ -5,11 +5,27 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
 import { glob } from 'glob';
-import { ASTSemanticParser } from '../parser/ast-parser';
+import { ASTSemanticParser, CallSite, Suppression } from '../parser/ast-parser';
 import { SemanticEngine, VocabularyManager } from '../core/engine';
+import { DistanceMetric } from '../core/distance-metrics';
+import {
+  calculateDirectionalPenalty,
+  DirectionalDrift,
+  PenaltyMatrix,
+  resolvePenaltyMatrix,
+} from '../core/penalty-matrix';
+import { AntiPattern, classifyAntiPattern } from '../core/anti-patterns';
+import { Dimension, DIMENSIONS } from '../core/vocabulary';
+import { loadVocabularyPack, VocabularyPack } from '../core/vocabulary-packs';
+import { Coordinates, DimensionIntensity, ICEAnalysisResult } from '../core/coordinates';
+import { CallGraph, CallGraphNode } from './call-graph';
+import { IgnoreFilter, IgnoredPath } from './ignore-filter';
 import { SemanticNamingEngine } from '../naming/semantic-naming';
 import { CacheManager } from '../cache/cache-manager';
+import { GitIntegration, FileLineChanges, ChangeStatus } from '../git/git-integration';
+import { ConfigLoader, HarmonizerConfig, RuleConfig, RuleLevel } from '../config/config-loader';
 
 export interface ProjectConfig {
   /**
@@ -23,10 +39,28 @@ export interface ProjectConfig {
   include?: string[];
 
   /**
-   * Glob patterns to exclude
+   * Patterns to exclude, in gitignore syntax (`dir/**` globs also work).
+   * .gitignore files and .harmonizerignore are always applied as well.
    */
   exclude?: string[];
 
+  /**
+   * Restrict analysis to these absolute file paths (e.g. files changed in git).
+   * Files must still match include/exclude patterns to be analyzed.
+   */
+  files?: string[] | null;
+
+  /**
+   * Line-level changes from git. When set, each function is marked as
+   * new, modified or untouched and untouched functions are dropped.
+   */
+  lineChanges?: FileLineChanges[] | null;
+
+  /**
+   * Keep untouched functions when lineChanges is set
+   */
+  includeUntouched?: boolean;
+
   /**
    * Maximum number of parallel workers
    */
@@ -77,8 +111,29 @@ export interface FileAnalysisResult {
   functions: Array<{
     name: string;
     line: number;
+    endLine?: number;
+    parent?: { name: string; line: number }; // Enclosing function, for nested functions and callbacks
+    /** Anonymous callback: `name` is a display label, so it is never flagged for naming */
+    unnamed?: boolean;
+    changeStatus?: ChangeStatus;
     disharmony: number;
-    severity: 'LOW' | 'MEDIUM' | 'HIGH';
+    severity: 'LOW' | 'MEDIUM' | 'HIGH'; // From the direction- and size-weighted disharmony
+    /**
+     * Intent → execution drift and the penalty-matrix weighting severity is
+     * based on; weightedDisharmony also includes the magnitude size factor
+     */
+    direction?: { multiplier: number; weightedDisharmony: number; drifts: DirectionalDrift[] };
+    /** Raw (unnormalized) intent and execution intensity, and the resulting size factor */
+    magnitude?: ICEAnalysisResult['magnitude'];
+    /** Named drift pattern, for functions at or above the reporting threshold */
+    antiPattern?: AntiPattern;
+    level?: Exclude<RuleLevel, 'off'>; // Set when the disharmony-threshold rule flags the function
+    /** 0-1: how much of the name and body the vocabulary recognized */
+    confidence?: number;
+    /** Set when confidence is below analysis.confidenceThreshold */
+    lowConfidence?: boolean;
+    recognizedTokens?: number;
+    unrecognizedTokens?: string[];
     suggestions?: Array<{ name: string; similarity: number }>;
     baselines?: {
       robustness: number;
@@ -89,6 +144,27 @@ export interface FileAnalysisResult {
       distanceFromNaturalEquilibrium: number;
       interpretation: string;
     };
+    /** Intent and (call-folded) execution coordinates, for trajectory views */
+    coordinates?: { intent: CoordinateValues; execution: CoordinateValues };
+    /** Evidence from type annotations, e.g. a void return on a Wisdom verb */
+    typeSignals?: Array<{
+      leg: 'intent' | 'execution';
+      dimension: string;
+      contradicts: boolean;
+      explanation: string;
+    }>;
+    /** Called project functions whose execution was folded into this one's */
+    inheritedEffects?: Array<{
+      callee: string;
+      location: string;
+      depth: number;
+      weight: number;
+      sideEffects: string[];
+    }>;
+    /** Inline suppressions covering this function (see FileAnalysisResult.suppressions) */
+    suppressed?: Array<{ line: number; rules: string[]; reason?: string }>;
+    /** Raw ICE inputs kept for the interprocedural pass; stripped from reported results */
+    profile?: FunctionProfile;
   }>;
   metrics: {
     totalFunctions: number;
@@ -96,8 +172,36 @@ export interface FileAnalysisResult {
     averageDisharmony: number;
     maxDisharmony: number;
   };
+  /** Inline suppression comments; `used` is false when nothing would have been reported */
+  suppressions?: Array<{
+    kind: Suppression['kind'];
+    line: number;
+    rules: string[]; // Empty means every rule
+    reason?: string;
+    functions: string[]; // Functions the comment covers
+    used: boolean;
+  }>;
 }
 
+type CoordinateValues = ReturnType<Coordinates['toObject']>;
+
+/**
+ * Per-function analysis inputs, stored in plain form so cached results can be
+ * re-linked into the call graph
+ */
+interface FunctionProfile {
+  intent: CoordinateValues;
+  context: CoordinateValues;
+  execution: CoordinateValues;
+  intensity: { intent: DimensionIntensity; execution: DimensionIntensity };
+  sideEffects: string[];
+  calls: CallSite[];
+  className?: string;
+  exported: boolean;
+}
+
+type FunctionResult = FileAnalysisResult['functions'][number];
+
 export interface ProjectAnalysisResult {
   projectPath: string;
   timestamp: string;
@@ -114,12 +218,38 @@ export interface ProjectAnalysisResult {
     maxDisharmony: number;
     analysisTime: number;
   };
+  /** How much of the project's vocabulary the analysis understood */
+  vocabularyCoverage?: VocabularyCoverage;
+  /** How intent-execution disharmony was measured */
+  metric?: DistanceMetric;
   errors: Array<{
     file: string;
     error: string;
   }>;
 }
 
+/**
+ * Project-wide vocabulary coverage: distinct words per function, and the
+ * unknown words that appear in the most functions
+ */
+export interface VocabularyCoverage {
+  recognizedTokens: number;
+  unrecognizedTokens: number;
+  coverage: number; // 0-1
+  lowConfidenceFunctions: number;
+  topUnknown: Array<{ word: string; count: number }>;
+}
+
+const TOP_UNKNOWN_WORDS = 20;
+
+/**
+ * Files selected for analysis and the paths the ignore pipeline skipped
+ */
+export interface FileSelection {
+  files: string[];
+  ignored: IgnoredPath[];
+}
+
 /**
  * Main project analyzer
  */
@@ -129,12 +259,59 @@ export class ProjectAnalyzer {
   private namingEngine: SemanticNamingEngine;
   private vocabulary: VocabularyManager;
   private cacheManager: CacheManager | null = null;
+  private harmonizerConfig: Required<HarmonizerConfig>;
+  private penaltyMatrix: PenaltyMatrix;
 
-  constructor() {
-    this.vocabulary = new VocabularyManager();
+  /**
+   * @param harmonizerConfig - .harmonizerrc settings (thresholds, rules, vocabulary);
+   *                           missing values fall back to the defaults
+   */
+  constructor(harmonizerConfig: HarmonizerConfig = {}) {
+    this.harmonizerConfig = ConfigLoader.resolveConfig(harmonizerConfig);
+    this.vocabulary = new VocabularyManager(this.harmonizerConfig.vocabulary.custom, {
+      abbreviations: this.harmonizerConfig.vocabulary.abbreviations,
+      packs: this.loadPacks(this.harmonizerConfig.vocabulary.packs ?? []),
+    });
+    for (const warning of this.vocabulary.getWarnings()) {
+      console.warn(`⚠️  ${warning}`);
+    }
     this.parser = new ASTSemanticParser(this.vocabulary);
-    this.engine = new SemanticEngine(this.vocabulary);
+    this.engine = new SemanticEngine(this.vocabulary, {
+      metric: this.harmonizerConfig.analysis.distanceMetric,
+    });
     this.namingEngine = new SemanticNamingEngine();
+    this.penaltyMatrix = resolvePenaltyMatrix(this.harmonizerConfig.analysis.penaltyMatrix);
+  }
+
+  /**
+   * The vocabulary used for analysis: built-ins, configured packs and custom words
+   */
+  getVocabulary(): VocabularyManager {
+    return this.vocabulary;
+  }
+
+  /**
+   * The intent → execution penalty matrix severity is weighted with
+   */
+  getPenaltyMatrix(): PenaltyMatrix {
+    return this.penaltyMatrix;
+  }
+
+  /**
+   * Load the configured vocabulary packs, skipping (with a warning) any that fail
+   */
+  private loadPacks(specs: string[]): VocabularyPack[] {
+    const packs: VocabularyPack[] = [];
+    for (const spec of specs) {
+      try {
+        packs.push(loadVocabularyPack(spec));
+      } catch (error) {
+        console.warn(
+          `⚠️  Failed to load vocabulary pack ${spec}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+    return packs;
   }
 
   /**
@@ -148,7 +325,7 @@ export class ProjectAnalyzer {
 
     // Initialize cache manager if caching is enabled
     if (normalizedConfig.cache) {
-      this.cacheManager = new CacheManager(normalizedConfig.cacheDir);
+      this.cacheManager = new CacheManager(normalizedConfig.cacheDir, this.getConfigHash());
       if (normalizedConfig.showProgress) {
         const stats = this.cacheManager.getStats();
         console.log(`📦 Cache loaded: ${stats.totalEntries} entries`);
@@ -156,7 +333,7 @@ export class ProjectAnalyzer {
     }
 
     // Find all files to analyze
-    const files = await this.findFiles(normalizedConfig);
+    const { files } = await this.findFiles(normalizedConfig);
 
     if (normalizedConfig.showProgress) {
       console.log(`Found ${files.length} files to analyze`);
@@ -187,7 +364,23 @@ export class ProjectAnalyzer {
     const newResults = await this.analyzeFiles(filesToAnalyze, normalizedConfig);
 
     // Combine cached and new results
-    const results = [...cachedResults, ...newResults];
+    let results = [...cachedResults, ...newResults];
+
+    // Fold what called functions do into their callers
+    if (this.harmonizerConfig.analysis.interprocedural) {
+      const callees = await this.analyzeCallees(normalizedConfig, files);
+      results = this.applyCallGraph(results, normalizedConfig, callees);
+    }
+    results = this.markUsedSuppressions(results);
+    results = results.map((file) => ({
+      ...file,
+      functions: file.functions.map(({ profile: _profile, ...func }) => func),
+    }));
+
+    // Narrow down to functions touched by the current change
+    if (normalizedConfig.lineChanges) {
+      results = this.applyLineChanges(results, normalizedConfig);
+    }
 
     // Save cache if enabled
     if (this.cacheManager) {
@@ -215,6 +408,8 @@ export class ProjectAnalyzer {
       config: normalizedConfig,
       files: results,
       summary,
+      vocabularyCoverage: this.calculateVocabularyCoverage(results),
+      metric: this.engine.getMetric().name,
       errors,
     };
   }
@@ -234,6 +429,9 @@ export class ProjectAnalyzer {
         '**/*.min.js',
         '**/*.bundle.js',
       ],
+      files: config.files ?? null,
+      lineChanges: config.lineChanges ?? null,
+      includeUntouched: config.includeUntouched ?? false,
       parallelism: config.parallelism || 4,
       cache: config.cache ?? false,
       cacheDir: config.cacheDir || path.join(config.rootPath, '.harmonizer-cache'),
@@ -246,23 +444,69 @@ export class ProjectAnalyzer {
   }
 
   /**
-   * Find all files matching the configuration
+   * Find files to analyze, and the paths the ignore pipeline skipped
+   * (.gitignore files, config ignore patterns and .harmonizerignore)
    */
-  private async findFiles(config: Required<ProjectConfig>): Promise<string[]> {
+  async selectFiles(config: ProjectConfig): Promise<FileSelection> {
+    return this.findFiles(this.normalizeConfig(config));
+  }
+
+  /**
+   * Find all files matching include patterns that are not ignored
+   */
+  private async findFiles(config: Required<ProjectConfig>): Promise<FileSelection> {
     const allFiles: Set<string> = new Set();
+    const filter = new IgnoreFilter(config.rootPath, config.exclude);
+    const ignored = new Map<string, IgnoredPath>();
+
+    const skip = (absolute: string, isDirectory: boolean): boolean => {
+      const decision = filter.check(absolute, isDirectory);
+      if (decision.ignored) {
+        const relative = path.relative(config.rootPath, absolute).split(path.sep).join('/');
+        const key = isDirectory ? `${relative}/` : relative;
+        ignored.set(key, { path: key, source: decision.source!, pattern: decision.pattern! });
+      }
+      return decision.ignored;
+    };
 
-    // Process include patterns
+    // Process include patterns; ignored directories are never descended into
     for (const pattern of config.include) {
       const matches = await glob(pattern, {
         cwd: config.rootPath,
         absolute: true,
-        ignore: config.exclude,
+        ignore: {
+          ignored: (p) => skip(p.fullpath(), false),
+          childrenIgnored: (p) => skip(p.fullpath(), true),
+        },
         nodir: true,
       });
       matches.forEach((f) => allFiles.add(f));
     }
 
-    return Array.from(allFiles).sort();
+    // Restrict to an explicit file list if one was given
+    if (config.files) {
+      const restrictTo = config.files.map((f) => path.resolve(f));
+      const restrictSet = new Set(restrictTo);
+      return {
+        files: Array.from(allFiles)
+          .filter((f) => restrictSet.has(path.resolve(f)))
+          .sort(),
+        // Only report skips that affected one of the requested files
+        ignored: Array.from(ignored.values()).filter((entry) =>
+          restrictTo.some((f) => {
+            const relative = path.relative(config.rootPath, f).split(path.sep).join('/');
+            return entry.path.endsWith('/')
+              ? relative.startsWith(entry.path)
+              : relative === entry.path;
+          })
+        ),
+      };
+    }
+
+    return {
+      files: Array.from(allFiles).sort(),
+      ignored: Array.from(ignored.values()),
+    };
   }
 
   /**
@@ -318,16 +562,20 @@ export class ProjectAnalyzer {
     const startTime = Date.now();
     const relativePath = path.relative(config.rootPath, filePath);
 
+    let timer: NodeJS.Timeout | undefined;
+
     try {
       // Set up timeout
       const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Timeout')), config.fileTimeout);
+        timer = setTimeout(() => reject(new Error('Timeout')), config.fileTimeout);
       });
 
       // Analyze file with timeout
       const analysisPromise = this.performFileAnalysis(filePath, relativePath);
 
-      const result = await Promise.race([analysisPromise, timeoutPromise]);
+      const result = await Promise.race([analysisPromise, timeoutPromise]).finally(() =>
+        clearTimeout(timer)
+      );
 
       const finalResult = {
         ...result,
@@ -407,7 +655,7 @@ export class ProjectAnalyzer {
     }
 
     // Extract functions
-    const functions = this.parser.extractFunctions(code);
+    const functions = this.parser.extractFunctions(code, filePath);
 
     if (functions.length === 0) {
       return {
@@ -425,48 +673,55 @@ export class ProjectAnalyzer {
     }
 
     // Analyze each function
-    const functionResults = [];
-    let totalDisharmony = 0;
-    let maxDisharmony = 0;
-    let disharmoniousCount = 0;
+    const functionResults: FileAnalysisResult['functions'] = [];
+    const suppressions = this.parser.extractSuppressions(code);
 
     for (const { node, metadata } of functions) {
       const parseResult = this.parser.analyzeFunction(node, metadata);
       const iceAnalysis = this.engine.performICEAnalysis(
         parseResult.intent,
-        ['javascript', 'function'],
-        parseResult.execution
+        parseResult.context,
+        parseResult.execution,
+        parseResult.typeSignals
       );
-
-      if (iceAnalysis.disharmony > 0.5) {
-        disharmoniousCount++;
-      }
-
-      totalDisharmony += iceAnalysis.disharmony;
-      maxDisharmony = Math.max(maxDisharmony, iceAnalysis.disharmony);
-
-      // Get naming suggestions for disharmonious functions
-      const suggestions =
-        iceAnalysis.disharmony > 0.5
-          ? this.namingEngine.suggestNames(iceAnalysis.execution, undefined, 3)
+      const line = metadata.location?.start.line || 1;
+      const covering = suppressions.filter((s) => s.startLine <= line && line <= s.endLine);
+      const suppressed =
+        covering.length > 0
+          ? covering.map(({ line, rules, reason }) => ({ line, rules, reason }))
           : undefined;
 
-      // Map severity to uppercase format expected by interface
-      const severityMap: Record<string, 'LOW' | 'MEDIUM' | 'HIGH'> = {
-        excellent: 'LOW',
-        low: 'LOW',
-        medium: 'MEDIUM',
-        high: 'HIGH',
-        critical: 'HIGH',
-      };
-
       functionResults.push({
         name: metadata.name,
-        line: metadata.location?.start.line || 1,
-        disharmony: iceAnalysis.disharmony,
-        severity: severityMap[iceAnalysis.severity] || 'LOW',
-        suggestions,
-        baselines: iceAnalysis.baselines,
+        line,
+        endLine: metadata.location?.end.line,
+        parent: metadata.parent,
+        unnamed: metadata.unnamed,
+        ...this.classifyFunction(iceAnalysis, suppressed, metadata.unnamed),
+        recognizedTokens: iceAnalysis.recognizedTokens,
+        unrecognizedTokens: iceAnalysis.unrecognizedTokens,
+        suppressed,
+        typeSignals: iceAnalysis.typeSignals?.map(
+          ({ leg, dimension, contradicts, explanation }) => ({
+            leg,
+            dimension,
+            contradicts,
+            explanation,
+          })
+        ),
+        profile: {
+          intent: iceAnalysis.intent.toObject(),
+          context: iceAnalysis.context.toObject(),
+          execution: iceAnalysis.execution.toObject(),
+          intensity: {
+            intent: iceAnalysis.magnitude.intent,
+            execution: iceAnalysis.magnitude.execution,
+          },
+          sideEffects: parseResult.sideEffects,
+          calls: parseResult.calls,
+          className: metadata.context?.className,
+          exported: metadata.context?.exported ?? false,
+        },
       });
     }
 
@@ -475,15 +730,372 @@ export class ProjectAnalyzer {
       relativePath,
       status: 'success',
       functions: functionResults,
-      metrics: {
-        totalFunctions: functions.length,
-        disharmoniousFunctions: disharmoniousCount,
-        averageDisharmony: functions.length > 0 ? totalDisharmony / functions.length : 0,
-        maxDisharmony,
+      metrics: this.calculateFileMetrics(functionResults),
+      suppressions:
+        suppressions.length > 0
+          ? suppressions.map(({ kind, line, rules, reason }) => ({
+              kind,
+              line,
+              rules,
+              reason,
+              functions: functionResults
+                .filter((f) => f.suppressed?.some((s) => s.line === line))
+                .map((f) => f.name),
+              used: false,
+            }))
+          : undefined,
+    };
+  }
+
+  /**
+   * Apply the configured rules to an ICE analysis: severity, rule level,
+   * naming suggestions and baselines. Anonymous callbacks have no name to
+   * judge, so they are never flagged.
+   */
+  private classifyFunction(
+    iceAnalysis: ICEAnalysisResult,
+    suppressed?: FunctionResult['suppressed'],
+    unnamed?: boolean
+  ): Pick<
+    FunctionResult,
+    | 'disharmony'
+    | 'severity'
+    | 'direction'
+    | 'magnitude'
+    | 'antiPattern'
+    | 'level'
+    | 'confidence'
+    | 'lowConfidence'
+    | 'suggestions'
+    | 'baselines'
+    | 'coordinates'
+  > {
+    const rules = this.getEffectiveRules(suppressed);
+    const { analysis } = this.harmonizerConfig;
+    const disharmonyRule = rules['disharmony-threshold'] ?? 'error';
+    const lowConfidence =
+      iceAnalysis.confidence !== undefined &&
+      iceAnalysis.confidence < (analysis.confidenceThreshold ?? 0.5);
+    const flagged = this.isFlagged(iceAnalysis.disharmony, rules, unnamed, lowConfidence);
+
+    // Get naming suggestions for disharmonious functions
+    const suggestions =
+      flagged && rules['semantic-naming'] !== 'off'
+        ? this.namingEngine.suggestNames(
+            iceAnalysis.execution,
+            undefined,
+            analysis.topSuggestions ?? 3
+          )
+        : undefined;
+
+    // Severity weighs which way execution drifts from intent and how large
+    // the body is, not just how far apart they are. Only reported functions
+    // rank above LOW.
+    const deltas = Object.fromEntries(
+      DIMENSIONS.map((dim) => [dim, iceAnalysis.execution[dim] - iceAnalysis.intent[dim]])
+    ) as Record<Dimension, number>;
+    const { multiplier, drifts } = calculateDirectionalPenalty(deltas, this.penaltyMatrix);
+    const weightedDisharmony =
+      iceAnalysis.disharmony * multiplier * iceAnalysis.magnitude.sizeFactor;
+
+    return {
+      disharmony: iceAnalysis.disharmony,
+      severity: flagged ? this.classifySeverity(weightedDisharmony) : 'LOW',
+      direction: { multiplier, weightedDisharmony, drifts },
+      magnitude: iceAnalysis.magnitude,
+      antiPattern: flagged ? classifyAntiPattern(deltas) : undefined,
+      level: flagged ? (disharmonyRule as Exclude<RuleLevel, 'off'>) : undefined,
+      confidence: iceAnalysis.confidence,
+      lowConfidence: lowConfidence || undefined,
+      suggestions,
+      baselines: rules['ice-analysis'] !== 'off' ? iceAnalysis.baselines : undefined,
+      coordinates: {
+        intent: iceAnalysis.intent.toObject(),
+        execution: iceAnalysis.execution.toObject(),
       },
     };
   }
 
+  /**
+   * When only some files are analyzed (`files`, e.g. --staged or --git-diff),
+   * parse the rest of the project too, so callers can inherit from callees in
+   * files that did not change. These results are never reported.
+   */
+  private async analyzeCallees(
+    config: Required<ProjectConfig>,
+    selected: string[]
+  ): Promise<FileAnalysisResult[]> {
+    if (!config.files) {
+      return [];
+    }
+
+    const selectedSet = new Set(selected);
+    const { files } = await this.findFiles({ ...config, files: null });
+    return this.analyzeFiles(
+      files.filter((file) => !selectedSet.has(file)),
+      { ...config, showProgress: false }
+    );
+  }
+
+  /**
+   * Build a call graph across all analyzed functions and re-run ICE analysis
+   * for callers with their callees' execution folded in (decayed per call level)
+   *
+   * @param callees - Results of unselected files, resolved as callees only
+   */
+  private applyCallGraph(
+    results: FileAnalysisResult[],
+    config: Required<ProjectConfig>,
+    callees: FileAnalysisResult[] = []
+  ): FileAnalysisResult[] {
+    const { callDepth, callDecay } = this.harmonizerConfig.analysis;
+    const nodes = new Map<FunctionResult, CallGraphNode>();
+
+    for (const file of [...results, ...callees]) {
+      if (file.status !== 'success') continue;
+      for (const func of file.functions) {
+        if (!func.profile) continue;
+        nodes.set(func, {
+          name: func.name,
+          filePath: file.filePath,
+          line: func.line,
+          className: func.profile.className,
+          exported: func.profile.exported,
+          execution: Coordinates.from(func.profile.execution),
+          sideEffects: func.profile.sideEffects,
+          calls: func.profile.calls,
+        });
+      }
+    }
+
+    const graph = new CallGraph([...nodes.values()], {
+      maxDepth: callDepth ?? 3,
+      decay: callDecay ?? 0.5,
+      rootPath: config.rootPath,
+    });
+
+    return results.map((file) => {
+      if (file.status !== 'success') {
+        return file;
+      }
+
+      const functions = file.functions.map((func) => {
+        const node = nodes.get(func);
+        const effects = node ? graph.getInheritedEffects(node) : [];
+        if (!node || !func.profile || effects.length === 0) {
+          return func;
+        }
+
+        const iceAnalysis: ICEAnalysisResult = {
+          ...this.engine.analyzeICECoordinates(
+            Coordinates.from(func.profile.intent),
+            Coordinates.from(func.profile.context),
+            CallGraph.foldExecution(node.execution, effects),
+            func.profile.intensity
+          ),
+          ownExecution: node.execution,
+          inheritedEffects: effects,
+          confidence: func.confidence,
+        };
+
+        return {
+          ...func,
+          ...this.classifyFunction(iceAnalysis, func.suppressed, func.unnamed),
+          inheritedEffects: effects.map(({ execution: _execution, ...effect }) => effect),
+        };
+      });
+
+      return {
+        ...file,
+        functions,
+        metrics: this.calculateFileMetrics(functions),
+      };
+    });
+  }
+
+  /**
+   * Configured rule levels, with rules silenced by inline suppressions turned off
+   */
+  private getEffectiveRules(suppressed?: FunctionResult['suppressed']): Partial<RuleConfig> {
+    const rules = { ...this.harmonizerConfig.rules };
+    for (const { rules: names } of suppressed ?? []) {
+      for (const rule of Object.keys(rules) as Array<keyof RuleConfig>) {
+        if (names.length === 0 || names.includes(rule)) {
+          rules[rule] = 'off';
+        }
+      }
+    }
+    return rules;
+  }
+
+  /**
+   * Mark each suppression as used when, without it, a covered function would
+   * have been reported under one of its rules
+   */
+  private markUsedSuppressions(results: FileAnalysisResult[]): FileAnalysisResult[] {
+    const { rules } = this.harmonizerConfig;
+
+    return results.map((file) => {
+      if (!file.suppressions) {
+        return file;
+      }
+
+      const suppressions = file.suppressions.map((suppression) => {
+        const silences = (rule: keyof RuleConfig) =>
+          rules[rule] !== 'off' &&
+          (suppression.rules.length === 0 || suppression.rules.includes(rule));
+
+        const used = file.functions.some((func) => {
+          if (!func.suppressed?.some((s) => s.line === suppression.line)) return false;
+          const flagged = this.isFlagged(func.disharmony, rules, func.unnamed, func.lowConfidence);
+          // Baselines only count when the comment names ice-analysis explicitly
+          return (
+            (flagged && (silences('disharmony-threshold') || silences('semantic-naming'))) ||
+            (suppression.rules.includes('ice-analysis') && silences('ice-analysis'))
+          );
+        });
+
+        return { ...suppression, used };
+      });
+
+      return { ...file, suppressions };
+    });
+  }
+
+  /**
+   * Hash of the settings that affect per-file results, used to invalidate the cache
+   */
+  private getConfigHash(): string {
+    const { thresholds, rules, vocabulary, analysis } = this.harmonizerConfig;
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ thresholds, rules, vocabulary, analysis }))
+      .digest('hex');
+  }
+
+  /**
+   * Whether the disharmony-threshold rule reports a function: it is named,
+   * the rule is on, its score reaches the threshold, and it is not a
+   * low-confidence result that analysis.lowConfidence hides
+   */
+  private isFlagged(
+    disharmony: number,
+    rules: Partial<RuleConfig>,
+    unnamed?: boolean,
+    lowConfidence?: boolean
+  ): boolean {
+    return (
+      !unnamed &&
+      rules['disharmony-threshold'] !== 'off' &&
+      this.isDisharmonious(disharmony) &&
+      !(lowConfidence && this.harmonizerConfig.analysis.lowConfidence === 'hide')
+    );
+  }
+
+  /**
+   * Whether a disharmony score reaches the configured reporting threshold
+   */
+  private isDisharmonious(disharmony: number): boolean {
+    const thresholds = this.harmonizerConfig.thresholds.disharmony;
+    return disharmony >= (thresholds?.low ?? 0.3) * this.engine.getMetric().thresholdScale;
+  }
+
+  /**
+   * Map a disharmony score to a severity using the configured thresholds,
+   * scaled from Euclidean to the distance metric in use
+   */
+  private classifySeverity(disharmony: number): 'LOW' | 'MEDIUM' | 'HIGH' {
+    const thresholds = this.harmonizerConfig.thresholds.disharmony;
+    const scale = this.engine.getMetric().thresholdScale;
+    if (disharmony >= (thresholds?.high ?? 0.8) * scale) return 'HIGH';
+    if (disharmony >= (thresholds?.medium ?? 0.6) * scale) return 'MEDIUM';
+    return 'LOW';
+  }
+
+  /**
+   * Mark functions by how the current change touches them, dropping untouched
+   * functions (unless includeUntouched) and recalculating file metrics
+   */
+  private applyLineChanges(
+    results: FileAnalysisResult[],
+    config: Required<ProjectConfig>
+  ): FileAnalysisResult[] {
+    const changesByFile = new Map<string, FileLineChanges>();
+    for (const changes of config.lineChanges || []) {
+      changesByFile.set(path.resolve(changes.path), changes);
+    }
+
+    return results.map((file) => {
+      if (file.status !== 'success') {
+        return file;
+      }
+
+      const changes = changesByFile.get(path.resolve(file.filePath));
+      const functions = file.functions
+        .map((func) => ({
+          ...func,
+          changeStatus: GitIntegration.classifyRange(func.line, func.endLine ?? func.line, changes),
+        }))
+        .filter((func) => config.includeUntouched || func.changeStatus !== 'untouched');
+
+      return {
+        ...file,
+        functions,
+        metrics: this.calculateFileMetrics(functions),
+      };
+    });
+  }
+
+  /**
+   * Calculate per-file metrics from function results
+   */
+  private calculateFileMetrics(
+    functions: FileAnalysisResult['functions']
+  ): FileAnalysisResult['metrics'] {
+    const totalDisharmony = functions.reduce((sum, f) => sum + f.disharmony, 0);
+
+    return {
+      totalFunctions: functions.length,
+      disharmoniousFunctions: functions.filter((f) => f.level !== undefined).length,
+      averageDisharmony: functions.length > 0 ? totalDisharmony / functions.length : 0,
+      maxDisharmony: functions.reduce((max, f) => Math.max(max, f.disharmony), 0),
+    };
+  }
+
+  /**
+   * Aggregate per-function vocabulary recognition across the project
+   */
+  private calculateVocabularyCoverage(results: FileAnalysisResult[]): VocabularyCoverage {
+    let recognizedTokens = 0;
+    let lowConfidenceFunctions = 0;
+    const unknown = new Map<string, number>();
+
+    for (const file of results) {
+      if (file.status !== 'success') continue;
+      for (const func of file.functions) {
+        recognizedTokens += func.recognizedTokens ?? 0;
+        if (func.lowConfidence) lowConfidenceFunctions++;
+        for (const word of func.unrecognizedTokens ?? []) {
+          unknown.set(word, (unknown.get(word) ?? 0) + 1);
+        }
+      }
+    }
+
+    const unrecognizedTokens = [...unknown.values()].reduce((sum, count) => sum + count, 0);
+    const total = recognizedTokens + unrecognizedTokens;
+
+    return {
+      recognizedTokens,
+      unrecognizedTokens,
+      coverage: total > 0 ? recognizedTokens / total : 1,
+      lowConfidenceFunctions,
+      topUnknown: [...unknown.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, TOP_UNKNOWN_WORDS)
+        .map(([word, count]) => ({ word, count })),
+    };
+  }
+
   /**
    * Calculate summary statistics
    */
@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { VocabularyLearner } from './vocabulary-learner';
+import { VocabularyManager } from '../core/vocabulary';
+
+const SOURCE = `
+function upsertUser(db, user) {
+  db.delete(user.id);
+  db.insert(user);
+  user.saved = true;
+}
+function upsertOrder(db, order) {
+  db.insert(order);
+  order.updated = Date.now();
+}
+function upsertItem(db, item) {
+  db.create(item);
+}
+function frobnicateWidget(widget) {
+  return widget.parts.find((part) => part.ok);
+}
+function getUser(db, id) {
+  return db.find(id);
+}
+`;
+
+describe('VocabularyLearner', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'harmonizer-learn-'));
+    file = path.join(dir, 'repo.js');
+    fs.writeFileSync(file, SOURCE);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should propose a dimension for frequent unknown verbs from their execution', () => {
+    const [proposal, ...rest] = new VocabularyLearner(new VocabularyManager()).learn([file]);
+
+    expect(rest).toEqual([]);
+    expect(proposal).toMatchObject({ word: 'upsert', dimension: 'power', occurrences: 3 });
+    expect(proposal.agreement).toBe(1);
+    expect(proposal.examples).toEqual([
+      `${file}:2 upsertUser`,
+      `${file}:7 upsertOrder`,
+      `${file}:11 upsertItem`,
+    ]);
+  });
+
+  it('should respect the minimum count and skip known verbs', () => {
+    const vocab = new VocabularyManager({ upsert: 'power' });
+    const words = new VocabularyLearner(vocab).learn([file], { minCount: 1 }).map((p) => p.word);
+
+    expect(words).toEqual(['frobnicate']);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Vocabulary learner
+ *
+ * Proposes vocabulary for verbs a project uses in function names but the
+ * vocabulary doesn't know. Each unknown leading verb is assigned the average
+ * execution profile of the functions it names, blended with the known words
+ * it appears next to (`upsertUser` + `saveUser` → what `save` means).
+ */
+
+import * as fs from 'fs';
+import { ASTSemanticParser } from '../parser/ast-parser';
+import {
+  Dimension,
+  DIMENSIONS,
+  DimensionWeights,
+  VocabularyEntry,
+  VocabularyManager,
+} from '../core/vocabulary';
+import { STOP_WORDS, tokenizeIdentifier } from '../core/tokenizer';
+
+/**
+ * Weight of co-occurring known words against the execution profile
+ */
+const COOCCURRENCE_WEIGHT = 0.3;
+
+/**
+ * A dominant share at or above this is proposed as a single dimension
+ */
+const SINGLE_DIMENSION_SHARE = 0.6;
+
+const MAX_EXAMPLES = 5;
+
+export interface LearnOptions {
+  minCount?: number; // Minimum number of functions using a verb (default 3)
+}
+
+/**
+ * A proposed vocabulary entry and the evidence behind it
+ */
+export interface VocabularyProposal {
+  word: string;
+  entry: VocabularyEntry;
+  dimension: Dimension;
+  occurrences: number;
+  agreement: number; // Share of functions whose own execution leans the same way
+  execution: Record<Dimension, number>; // Average execution profile
+  cooccurring: Record<Dimension, number> | null; // Average of known words in the same names
+  examples: string[]; // e.g. src/db.ts:12 upsertUser
+}
+
+interface VerbEvidence {
+  occurrences: number;
+  execution: Record<Dimension, number>;
+  cooccurring: Record<Dimension, number>;
+  cooccurringCount: number;
+  dominants: Dimension[];
+  examples: string[];
+}
+
+/**
+ * VocabularyLearner - Infers dimensions for unknown name verbs
+ */
+export class VocabularyLearner {
+  private parser: ASTSemanticParser;
+
+  constructor(private vocabulary: VocabularyManager) {
+    this.parser = new ASTSemanticParser(vocabulary);
+  }
+
+  /**
+   * Scan files and propose entries for unknown verbs, most used first
+   *
+   * @param files - Absolute paths of the files to scan
+   * @param relativeTo - Optional function turning a path into a display path
+   */
+  learn(
+    files: string[],
+    options: LearnOptions = {},
+    relativeTo: (filePath: string) => string = (filePath) => filePath
+  ): VocabularyProposal[] {
+    const minCount = options.minCount ?? 3;
+    const evidence = new Map<string, VerbEvidence>();
+
+    for (const filePath of files) {
+      let functions: ReturnType<ASTSemanticParser['extractFunctions']>;
+      try {
+        functions = this.parser.extractFunctions(fs.readFileSync(filePath, 'utf-8'), filePath);
+      } catch {
+        continue; // Unparseable files are reported by analysis, not here
+      }
+
+      for (const { node, metadata } of functions) {
+        if (!/^[A-Za-z_$][\w$]*$/.test(metadata.name) || metadata.name === 'constructor') {
+          continue;
+        }
+
+        const [verb, ...rest] = tokenizeIdentifier(metadata.name);
+        if (!verb || verb.length < 3 || STOP_WORDS.has(verb) || this.vocabulary.getWeights(verb)) {
+          continue;
+        }
+
+        // Without recognized execution the profile is just the balanced default
+        const { execution: concepts } = this.parser.analyzeFunction(node, metadata);
+        if (this.vocabulary.analyzeCoverage(concepts).recognized.length === 0) {
+          continue;
+        }
+        const execution = this.vocabulary.analyzeConceptCluster(concepts).toObject();
+
+        const entry = evidence.get(verb) ?? VocabularyLearner.emptyEvidence();
+        entry.occurrences++;
+        entry.dominants.push(VocabularyLearner.dominant(execution));
+        DIMENSIONS.forEach((dim) => (entry.execution[dim] += execution[dim]));
+        for (const word of rest) {
+          const weights = this.vocabulary.getWeights(word);
+          if (weights) {
+            DIMENSIONS.forEach((dim) => (entry.cooccurring[dim] += weights[dim]));
+            entry.cooccurringCount++;
+          }
+        }
+        if (entry.examples.length < MAX_EXAMPLES) {
+          entry.examples.push(
+            `${relativeTo(filePath)}:${metadata.location?.start.line ?? 1} ${metadata.name}`
+          );
+        }
+        evidence.set(verb, entry);
+      }
+    }
+
+    return [...evidence.entries()]
+      .filter(([, entry]) => entry.occurrences >= minCount)
+      .map(([word, entry]) => VocabularyLearner.propose(word, entry))
+      .sort((a, b) => b.occurrences - a.occurrences || a.word.localeCompare(b.word));
+  }
+
+  /**
+   * Turn accumulated evidence into a proposed entry
+   */
+  private static propose(word: string, evidence: VerbEvidence): VocabularyProposal {
+    const execution = VocabularyLearner.normalize(evidence.execution);
+    const cooccurring =
+      evidence.cooccurringCount > 0 ? VocabularyLearner.normalize(evidence.cooccurring) : null;
+    const blended = cooccurring
+      ? VocabularyLearner.normalize(
+          Object.fromEntries(
+            DIMENSIONS.map((dim) => [
+              dim,
+              execution[dim] * (1 - COOCCURRENCE_WEIGHT) + cooccurring[dim] * COOCCURRENCE_WEIGHT,
+            ])
+          ) as Record<Dimension, number>
+        )
+      : execution;
+
+    const dimension = VocabularyLearner.dominant(blended);
+    let entry: VocabularyEntry = dimension;
+    if (blended[dimension] < SINGLE_DIMENSION_SHARE) {
+      // Keep the dimensions that matter, rounded so the proposal is easy to review
+      const weights: DimensionWeights = {};
+      for (const dim of DIMENSIONS) {
+        const weight = Math.round(blended[dim] * 10) / 10;
+        if (weight >= 0.2) weights[dim] = weight;
+      }
+      entry = weights;
+    }
+
+    return {
+      word,
+      entry,
+      dimension,
+      occurrences: evidence.occurrences,
+      agreement:
+        evidence.dominants.filter((dim) => dim === dimension).length / evidence.occurrences,
+      execution: VocabularyLearner.round(execution),
+      cooccurring: cooccurring && VocabularyLearner.round(cooccurring),
+      examples: evidence.examples,
+    };
+  }
+
+  private static emptyEvidence(): VerbEvidence {
+    return {
+      occurrences: 0,
+      execution: { love: 0, justice: 0, power: 0, wisdom: 0 },
+      cooccurring: { love: 0, justice: 0, power: 0, wisdom: 0 },
+      cooccurringCount: 0,
+      dominants: [],
+      examples: [],
+    };
+  }
+
+  private static normalize(values: Record<Dimension, number>): Record<Dimension, number> {
+    const total = DIMENSIONS.reduce((sum, dim) => sum + values[dim], 0) || 1;
+    return Object.fromEntries(DIMENSIONS.map((dim) => [dim, values[dim] / total])) as Record<
+      Dimension,
+      number
+    >;
+  }
+
+  private static round(values: Record<Dimension, number>): Record<Dimension, number> {
+    return Object.fromEntries(
+      DIMENSIONS.map((dim) => [dim, Math.round(values[dim] * 100) / 100])
+    ) as Record<Dimension, number>;
+  }
+
+  private static dominant(values: Record<Dimension, number>): Dimension {
+    return DIMENSIONS.reduce((best, dim) => (values[dim] > values[best] ? dim : best));
+  }
+}
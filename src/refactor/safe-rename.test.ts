@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SafeRenamer } from './safe-rename';
+import { ASTSemanticParser } from '../parser/ast-parser';
+import { VocabularyManager } from '../core/vocabulary';
+
+describe('SafeRenamer', () => {
+  let rootPath: string;
+  const renamer = new SafeRenamer(new ASTSemanticParser(new VocabularyManager()));
+
+  function write(files: Record<string, string>): string[] {
+    return Object.entries(files).map(([name, content]) => {
+      const filePath = path.join(rootPath, name);
+      fs.writeFileSync(filePath, content);
+      return filePath;
+    });
+  }
+
+  function updated(plan: ReturnType<SafeRenamer['planRename']>, name: string): string | undefined {
+    return plan.changes.find((c) => c.filePath === path.join(rootPath, name))?.updated;
+  }
+
+  beforeEach(() => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'harmonizer-rename-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  it('should rename references, imports, re-exports and JSDoc across files', () => {
+    const files = write({
+      'user.ts': [
+        '/** Loads a user. @see getUser */',
+        'export function getUser(id: string) {',
+        '  return getUser.cache[id];',
+        '}',
+        '',
+      ].join('\n'),
+      'api.ts': "import { getUser } from './user';\nexport const load = () => getUser('1');\n",
+      'index.ts': "export { getUser } from './user';\n",
+      'app.ts': [
+        "import { getUser as fetchOne } from './index';",
+        "import * as users from './user';",
+        "fetchOne('1');",
+        "users.getUser('2');",
+        '',
+      ].join('\n'),
+    });
+
+    const plan = renamer.planRename(
+      { filePath: files[0], line: 2, name: 'getUser' },
+      'deleteUser',
+      files
+    );
+
+    expect(plan.conflicts).toEqual([]);
+    expect(updated(plan, 'user.ts')).toBe(
+      [
+        '/** Loads a user. @see deleteUser */',
+        'export function deleteUser(id: string) {',
+        '  return deleteUser.cache[id];',
+        '}',
+        '',
+      ].join('\n')
+    );
+    expect(updated(plan, 'api.ts')).toBe(
+      "import { deleteUser } from './user';\nexport const load = () => deleteUser('1');\n"
+    );
+    expect(updated(plan, 'index.ts')).toBe("export { deleteUser } from './user';\n");
+    expect(updated(plan, 'app.ts')).toContain("import { deleteUser as fetchOne } from './index';");
+    expect(updated(plan, 'app.ts')).toContain("users.deleteUser('2');");
+  });
+
+  it('should keep property keys of shorthand object references', () => {
+    const [file] = write({
+      'user.js': 'function getUser() {}\nmodule.exports = { getUser };\n',
+    });
+
+    const plan = renamer.planRename({ filePath: file, line: 1, name: 'getUser' }, 'loadUser');
+
+    expect(updated(plan, 'user.js')).toBe(
+      'function loadUser() {}\nmodule.exports = { getUser: loadUser };\n'
+    );
+  });
+
+  it('should refuse a name already declared in the same scope', () => {
+    const [file] = write({
+      'user.js': 'function getUser() {}\nfunction loadUser() {}\n',
+    });
+
+    const plan = renamer.planRename({ filePath: file, line: 1, name: 'getUser' }, 'loadUser');
+
+    expect(plan.conflicts).toHaveLength(1);
+    expect(plan.conflicts[0]).toContain("'loadUser' is already declared");
+    expect(plan.changes).toEqual([]);
+  });
+
+  it('should refuse when an inner binding would capture a reference', () => {
+    const [file] = write({
+      'user.js': 'function getUser() {}\nfunction run(loadUser) {\n  return getUser();\n}\n',
+    });
+
+    const plan = renamer.planRename({ filePath: file, line: 1, name: 'getUser' }, 'loadUser');
+
+    expect(plan.conflicts[0]).toContain('would shadow the reference');
+  });
+
+  it('should refuse when the new name would shadow an outer or global binding', () => {
+    const [file] = write({
+      'user.js': 'function run() {\n  function getUser() {}\n  console.log(getUser());\n}\n',
+    });
+
+    const plan = renamer.planRename({ filePath: file, line: 2, name: 'getUser' }, 'console');
+
+    expect(plan.conflicts[0]).toContain("Renaming would shadow 'console'");
+  });
+
+  it('should rename class methods and their this-accesses', () => {
+    const [file] = write({
+      'store.ts': [
+        'class Store {',
+        '  getItem() {',
+        '    return 1;',
+        '  }',
+        '  run() {',
+        '    return this.getItem();',
+        '  }',
+        '}',
+        'new Store().getItem();',
+        '',
+      ].join('\n'),
+    });
+
+    const plan = renamer.planRename({ filePath: file, line: 2, name: 'getItem' }, 'removeItem', [
+      file,
+    ]);
+
+    expect(updated(plan, 'store.ts')).toContain('  removeItem() {');
+    expect(updated(plan, 'store.ts')).toContain('return this.removeItem();');
+    expect(updated(plan, 'store.ts')).toContain('new Store().getItem();');
+    expect(plan.warnings).toHaveLength(1);
+  });
+
+  it('should format a multi-file diff', () => {
+    const files = write({
+      'a.js': 'export function getUser() {}\n',
+      'b.js': "import { getUser } from './a';\ngetUser();\n",
+    });
+
+    const plan = renamer.planRename(
+      { filePath: files[0], line: 1, name: 'getUser' },
+      'loadUser',
+      files
+    );
+    const diff = SafeRenamer.formatDiff(plan, rootPath);
+
+    expect(diff).toContain(
+      '--- a/a.js\n+++ b/a.js\n@@ -1,2 +1,2 @@\n-export function getUser() {}'
+    );
+    expect(diff).toContain("+import { loadUser } from './a';\n+loadUser();");
+  });
+});
@@ -0,0 +1,657 @@
+/**
+ * Safe Rename
+ *
+ * Binding-aware function renaming across a project. Uses Babel scope
+ * information to update every reference, import, re-export and JSDoc
+ * `@see` / `{@link}` tag, and refuses renames that would collide with or
+ * shadow an existing binding.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import traverse, { Binding, NodePath, Scope } from '@babel/traverse';
+import * as t from '@babel/types';
+import { ASTSemanticParser } from '../parser/ast-parser';
+import { VocabularyManager } from '../core/vocabulary';
+import { resolveImport } from '../utils/module-resolver';
+
+/**
+ * Function to rename, as reported by ProjectAnalyzer
+ */
+export interface RenameTarget {
+  filePath: string; // Absolute path
+  line: number; // Line where the function starts
+  name: string;
+}
+
+/**
+ * Rewritten content of one file
+ */
+export interface FileRenameChange {
+  filePath: string;
+  original: string;
+  updated: string;
+  edits: number;
+}
+
+/**
+ * Result of planning a rename. The rename is only safe when `conflicts` is empty.
+ */
+export interface RenamePlan {
+  oldName: string;
+  newName: string;
+  changes: FileRenameChange[];
+  conflicts: string[];
+  warnings: string[];
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface ParsedFile {
+  filePath: string;
+  code: string;
+  ast: t.File;
+  program: NodePath<t.Program>;
+  edits: TextEdit[];
+}
+
+type Declaration =
+  | { kind: 'binding'; binding: Binding }
+  | {
+      kind: 'member';
+      key: NodePath<t.Identifier>;
+      container: NodePath<t.ClassBody | t.ObjectExpression>;
+      isStatic: boolean;
+    };
+
+/**
+ * SafeRenamer - plans and applies project-wide function renames
+ */
+export class SafeRenamer {
+  private parser: ASTSemanticParser;
+  private files: Map<string, ParsedFile | null> = new Map();
+  private projectFiles: Set<string> = new Set();
+
+  constructor(parser: ASTSemanticParser = new ASTSemanticParser(new VocabularyManager())) {
+    this.parser = parser;
+  }
+
+  /**
+   * Work out every edit needed to rename a function, without touching disk
+   *
+   * @param target - Function to rename
+   * @param newName - Replacement identifier
+   * @param projectFiles - Files searched for imports and re-exports of the function
+   */
+  planRename(target: RenameTarget, newName: string, projectFiles: string[] = []): RenamePlan {
+    const plan: RenamePlan = {
+      oldName: target.name,
+      newName,
+      changes: [],
+      conflicts: [],
+      warnings: [],
+    };
+
+    this.files.clear();
+    this.projectFiles = new Set(projectFiles.map((f) => path.resolve(f)));
+    this.projectFiles.add(path.resolve(target.filePath));
+
+    if (!t.isValidIdentifier(newName)) {
+      plan.conflicts.push(`'${newName}' is not a valid identifier`);
+      return plan;
+    }
+
+    if (newName === target.name) {
+      plan.conflicts.push(`Function is already named '${newName}'`);
+      return plan;
+    }
+
+    const file = this.load(path.resolve(target.filePath));
+    if (!file) {
+      plan.conflicts.push(`Could not parse ${this.displayPath(target.filePath)}`);
+      return plan;
+    }
+
+    const declaration = this.findDeclaration(file, target);
+    if (!declaration) {
+      plan.conflicts.push(
+        `Could not find function '${target.name}' at ${this.displayPath(target.filePath)}:${target.line}`
+      );
+      return plan;
+    }
+
+    if (declaration.kind === 'member') {
+      this.renameMember(file, declaration, plan);
+    } else {
+      const exported = this.renameBinding(file, declaration.binding, plan);
+      if (exported) {
+        this.renameAcrossModules(file.filePath, plan);
+      }
+    }
+
+    if (plan.conflicts.length > 0) {
+      return plan;
+    }
+
+    for (const parsed of this.files.values()) {
+      if (parsed && parsed.edits.length > 0) {
+        plan.changes.push(this.applyEdits(parsed));
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Write a conflict-free plan to disk
+   */
+  static applyPlan(plan: RenamePlan): void {
+    if (plan.conflicts.length > 0) {
+      throw new Error(`Refusing unsafe rename: ${plan.conflicts[0]}`);
+    }
+
+    for (const change of plan.changes) {
+      fs.writeFileSync(change.filePath, change.updated, 'utf-8');
+    }
+  }
+
+  /**
+   * Render a plan as a unified diff covering every changed file
+   */
+  static formatDiff(plan: RenamePlan, rootPath: string, context: number = 1): string {
+    const output: string[] = [];
+
+    for (const change of plan.changes) {
+      const relativePath = path.relative(rootPath, change.filePath).split(path.sep).join('/');
+      const before = change.original.split('\n');
+      const after = change.updated.split('\n');
+
+      // Identifier renames never add or remove lines, so lines can be compared pairwise
+      const changed: number[] = [];
+      for (let i = 0; i < before.length; i++) {
+        if (before[i] !== after[i]) changed.push(i);
+      }
+
+      output.push(`--- a/${relativePath}`);
+      output.push(`+++ b/${relativePath}`);
+
+      let i = 0;
+      while (i < changed.length) {
+        let j = i;
+        while (j + 1 < changed.length && changed[j + 1] - changed[j] <= context * 2 + 1) {
+          j++;
+        }
+
+        const start = Math.max(0, changed[i] - context);
+        const end = Math.min(before.length - 1, changed[j] + context);
+        const count = end - start + 1;
+        output.push(`@@ -${start + 1},${count} +${start + 1},${count} @@`);
+
+        let line = start;
+        while (line <= end) {
+          if (before[line] === after[line]) {
+            output.push(` ${before[line]}`);
+            line++;
+            continue;
+          }
+
+          // Group a run of changed lines: removals first, then additions
+          const runStart = line;
+          while (line <= end && before[line] !== after[line]) line++;
+          for (let k = runStart; k < line; k++) output.push(`-${before[k]}`);
+          for (let k = runStart; k < line; k++) output.push(`+${after[k]}`);
+        }
+
+        i = j + 1;
+      }
+    }
+
+    return output.join('\n');
+  }
+
+  /**
+   * Parse a file once per plan
+   */
+  private load(filePath: string): ParsedFile | null {
+    if (this.files.has(filePath)) {
+      return this.files.get(filePath) ?? null;
+    }
+
+    let parsed: ParsedFile | null = null;
+    try {
+      const code = fs.readFileSync(filePath, 'utf-8');
+      const ast = this.parser.parseSource(code);
+      let program: NodePath<t.Program> | null = null;
+      traverse(ast, {
+        Program(p) {
+          program = p;
+          p.stop();
+        },
+      });
+      if (program) {
+        parsed = { filePath, code, ast, program, edits: [] };
+      }
+    } catch {
+      parsed = null;
+    }
+
+    this.files.set(filePath, parsed);
+    return parsed;
+  }
+
+  /**
+   * Locate the declaration of the target function
+   */
+  private findDeclaration(file: ParsedFile, target: RenameTarget): Declaration | null {
+    let found: Declaration | null = null;
+    const startsAtTarget = (node: t.Node) => node.loc?.start.line === target.line;
+
+    file.program.traverse({
+      FunctionDeclaration(p) {
+        if (p.node.id?.name === target.name && startsAtTarget(p.node)) {
+          const binding = p.parentPath.scope.getBinding(target.name);
+          if (binding) found = { kind: 'binding', binding };
+          p.stop();
+        }
+      },
+
+      VariableDeclarator(p) {
+        const { id, init } = p.node;
+        if (
+          t.isIdentifier(id, { name: target.name }) &&
+          (t.isFunctionExpression(init) || t.isArrowFunctionExpression(init)) &&
+          startsAtTarget(init)
+        ) {
+          const binding = p.scope.getBinding(target.name);
+          if (binding) found = { kind: 'binding', binding };
+          p.stop();
+        }
+      },
+
+      'ClassMethod|ObjectMethod'(p) {
+        const node = p.node as t.ClassMethod | t.ObjectMethod;
+        if (
+          !node.computed &&
+          t.isIdentifier(node.key, { name: target.name }) &&
+          startsAtTarget(node)
+        ) {
+          found = {
+            kind: 'member',
+            key: p.get('key') as NodePath<t.Identifier>,
+            container: p.parentPath as NodePath<t.ClassBody | t.ObjectExpression>,
+            isStatic: t.isClassMethod(node) && node.static,
+          };
+          p.stop();
+        }
+      },
+    });
+
+    return found;
+  }
+
+  /**
+   * Rename a scoped binding and all of its references within one file.
+   * Returns true when the binding is exported under its own name.
+   */
+  private renameBinding(file: ParsedFile, binding: Binding, plan: RenamePlan): boolean {
+    const { oldName, newName } = plan;
+    this.checkBindingConflicts(file, binding, newName, plan);
+
+    let exported = this.isExportedDeclaration(binding);
+    this.addEdit(file, binding.identifier, newName, oldName);
+
+    for (const ref of binding.referencePaths) {
+      // Babel also records `export function foo` as a reference to foo
+      if (!ref.isIdentifier() && !ref.isJSXIdentifier()) continue;
+
+      const parent = ref.parentPath;
+
+      if (
+        parent?.isExportSpecifier() &&
+        this.isShorthand(parent.node.local, parent.node.exported)
+      ) {
+        // export { foo } → export { bar }: importers are renamed too
+        exported = true;
+        this.addEdit(file, ref.node, newName, oldName);
+      } else if (this.isShorthandProperty(ref)) {
+        // { foo } keeps its property key: { foo: bar }
+        this.addEdit(file, ref.node, `${oldName}: ${newName}`, oldName);
+      } else {
+        this.addEdit(file, ref.node, newName, oldName);
+      }
+    }
+
+    for (const violation of binding.constantViolations) {
+      const identifiers = t.getBindingIdentifiers(violation.node, true)[oldName] ?? [];
+      for (const identifier of identifiers) {
+        this.addEdit(file, identifier, newName, oldName);
+      }
+    }
+
+    this.renameInComments(file, oldName, newName, false);
+    return exported;
+  }
+
+  /**
+   * Refuse renames that collide with, or would be captured by, another binding
+   */
+  private checkBindingConflicts(
+    file: ParsedFile,
+    binding: Binding,
+    newName: string,
+    plan: RenamePlan
+  ): void {
+    const scope = binding.scope;
+    const existing = scope.getOwnBinding(newName);
+
+    if (existing) {
+      plan.conflicts.push(
+        `'${newName}' is already declared at ${this.location(file, existing.identifier)}`
+      );
+      return;
+    }
+
+    // A closer binding named newName would capture the renamed references
+    const usages: NodePath[] = [...binding.referencePaths, ...binding.constantViolations];
+    for (const usage of usages) {
+      const inner = usage.scope.getBinding(newName);
+      if (inner && inner !== binding) {
+        plan.conflicts.push(
+          `'${newName}' declared at ${this.location(file, inner.identifier)} would shadow the reference at ${this.location(file, usage.node)}`
+        );
+        return;
+      }
+    }
+
+    // Existing uses of an outer or global newName would be captured by the renamed binding
+    scope.path.traverse({
+      ReferencedIdentifier: (p) => {
+        const node = p.node as t.Identifier | t.JSXIdentifier;
+        if (node.name !== newName) return;
+
+        const target = p.scope.getBinding(newName);
+        if (!target || !this.isWithinScope(target.scope, scope)) {
+          plan.conflicts.push(
+            `Renaming would shadow '${newName}' used at ${this.location(file, node)}`
+          );
+          p.stop();
+        }
+      },
+    });
+  }
+
+  /**
+   * Rename a class or object method plus its `this.` / `super.` accesses
+   */
+  private renameMember(
+    file: ParsedFile,
+    declaration: Extract<Declaration, { kind: 'member' }>,
+    plan: RenamePlan
+  ): void {
+    const { oldName, newName } = plan;
+    const { container, isStatic } = declaration;
+    const members = container.isClassBody()
+      ? container.get('body')
+      : (container as NodePath<t.ObjectExpression>).get('properties');
+
+    for (const member of members) {
+      const node = member.node as t.ClassMethod | t.ClassProperty | t.ObjectProperty;
+      const memberStatic = 'static' in node && Boolean(node.static);
+      if (
+        member !== declaration.key.parentPath &&
+        'key' in node &&
+        !node.computed &&
+        memberStatic === isStatic &&
+        (t.isIdentifier(node.key, { name: newName }) ||
+          t.isStringLiteral(node.key, { value: newName }))
+      ) {
+        plan.conflicts.push(`'${newName}' is already a member at ${this.location(file, node)}`);
+        return;
+      }
+    }
+
+    this.addEdit(file, declaration.key.node, newName, oldName);
+
+    let unresolved = 0;
+    for (const member of members) {
+      const node = member.node;
+      const sameKind = !('static' in node) || Boolean(node.static) === isStatic;
+      if (!sameKind) continue;
+
+      // Object properties only bind `this` for function expressions
+      let body: NodePath = member;
+      if (member.isObjectProperty()) {
+        const value = member.get('value');
+        if (!value.isFunctionExpression()) continue;
+        body = value;
+      }
+
+      body.traverse({
+        Function(p) {
+          if (!p.isArrowFunctionExpression()) p.skip();
+        },
+        Class(p) {
+          p.skip();
+        },
+        'MemberExpression|OptionalMemberExpression': (p: NodePath) => {
+          const expr = p.node as t.MemberExpression;
+          if (
+            !expr.computed &&
+            t.isIdentifier(expr.property, { name: oldName }) &&
+            (t.isThisExpression(expr.object) || t.isSuper(expr.object))
+          ) {
+            this.addEdit(file, expr.property, newName, oldName);
+          }
+        },
+      });
+    }
+
+    // Other `.oldName` accesses cannot be tied to this class without type information
+    const renamed = new Set(file.edits.map((edit) => edit.start));
+    for (const filePath of this.projectFiles) {
+      const parsed = this.load(filePath);
+      if (!parsed) continue;
+
+      parsed.program.traverse({
+        'MemberExpression|OptionalMemberExpression'(p: NodePath) {
+          const expr = p.node as t.MemberExpression;
+          if (
+            !expr.computed &&
+            t.isIdentifier(expr.property, { name: oldName }) &&
+            !(parsed === file && renamed.has(expr.property.start ?? -1))
+          ) {
+            unresolved++;
+          }
+        },
+      });
+    }
+
+    if (unresolved > 0) {
+      plan.warnings.push(
+        `${unresolved} other '.${oldName}' access(es) were left unchanged; review callers manually`
+      );
+    }
+
+    this.renameInComments(file, oldName, newName, true);
+  }
+
+  /**
+   * Follow imports and re-exports of an exported binding through the project
+   */
+  private renameAcrossModules(modulePath: string, plan: RenamePlan): void {
+    const { oldName, newName } = plan;
+    const queue = [modulePath];
+    const visited = new Set(queue);
+    const enqueue = (filePath: string) => {
+      if (!visited.has(filePath)) {
+        visited.add(filePath);
+        queue.push(filePath);
+      }
+    };
+    const isProjectFile = (candidate: string) => this.projectFiles.has(candidate);
+
+    for (let i = 0; i < queue.length; i++) {
+      const exporter = queue[i];
+
+      for (const filePath of this.projectFiles) {
+        if (filePath === exporter) continue;
+
+        const file = this.load(filePath);
+        if (!file) continue;
+
+        for (const statement of file.program.get('body')) {
+          const node = statement.node;
+          if (
+            !(
+              t.isImportDeclaration(node) ||
+              t.isExportNamedDeclaration(node) ||
+              t.isExportAllDeclaration(node)
+            ) ||
+            !node.source ||
+            resolveImport(filePath, node.source.value, isProjectFile) !== exporter
+          ) {
+            continue;
+          }
+
+          if (t.isExportAllDeclaration(node)) {
+            // export * from './module' re-exports the name unchanged
+            enqueue(filePath);
+            continue;
+          }
+
+          for (const specifier of node.specifiers) {
+            if (t.isImportSpecifier(specifier) && this.nameOf(specifier.imported) === oldName) {
+              if (this.isShorthand(specifier.local, specifier.imported)) {
+                const binding = file.program.scope.getBinding(oldName);
+                if (binding && this.renameBinding(file, binding, plan)) {
+                  enqueue(filePath);
+                }
+              } else {
+                this.addEdit(file, specifier.imported, newName, oldName);
+              }
+            } else if (t.isImportNamespaceSpecifier(specifier)) {
+              this.renameNamespaceAccesses(file, specifier.local.name, plan);
+            } else if (t.isExportSpecifier(specifier) && specifier.local.name === oldName) {
+              if (this.isShorthand(specifier.local, specifier.exported)) {
+                this.addEdit(file, specifier.local, newName, oldName);
+                enqueue(filePath);
+              } else {
+                this.addEdit(file, specifier.local, newName, oldName);
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Rename `ns.oldName` for `import * as ns` bindings
+   */
+  private renameNamespaceAccesses(file: ParsedFile, namespace: string, plan: RenamePlan): void {
+    const binding = file.program.scope.getBinding(namespace);
+    if (!binding) return;
+
+    for (const ref of binding.referencePaths) {
+      const parent = ref.parent;
+      if (
+        (t.isMemberExpression(parent) || t.isOptionalMemberExpression(parent)) &&
+        parent.object === ref.node &&
+        !parent.computed &&
+        t.isIdentifier(parent.property, { name: plan.oldName })
+      ) {
+        this.addEdit(file, parent.property, plan.newName, plan.oldName);
+      }
+    }
+  }
+
+  /**
+   * Update JSDoc `@see name` and `{@link name}` references
+   */
+  private renameInComments(
+    file: ParsedFile,
+    oldName: string,
+    newName: string,
+    qualified: boolean
+  ): void {
+    const escaped = oldName.replace(/\$/g, '\\$');
+    const qualifier = qualified ? '((?:[\\w$]+[#.])?)' : '()';
+    const pattern = new RegExp(
+      `(@see\\s+|\\{@link(?:code|plain)?\\s+)${qualifier}${escaped}(?![\\w$])`,
+      'g'
+    );
+
+    for (const comment of file.ast.comments ?? []) {
+      if (comment.start === null || comment.start === undefined) continue;
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(comment.value)) !== null) {
+        // Comment values exclude the leading `//` or `/*`
+        const start = comment.start + 2 + match.index + match[1].length + match[2].length;
+        file.edits.push({ start, end: start + oldName.length, text: newName });
+      }
+    }
+  }
+
+  private addEdit(file: ParsedFile, node: t.Node, text: string, oldName: string): void {
+    if (node.start === null || node.start === undefined) return;
+    // Type annotations are part of an identifier's range, so only replace the name itself
+    file.edits.push({ start: node.start, end: node.start + oldName.length, text });
+  }
+
+  private applyEdits(file: ParsedFile): FileRenameChange {
+    const unique = new Map<number, TextEdit>();
+    for (const edit of file.edits) {
+      unique.set(edit.start, edit);
+    }
+
+    let updated = file.code;
+    const edits = [...unique.values()].sort((a, b) => b.start - a.start);
+    for (const edit of edits) {
+      updated = updated.slice(0, edit.start) + edit.text + updated.slice(edit.end);
+    }
+
+    return { filePath: file.filePath, original: file.code, updated, edits: edits.length };
+  }
+
+  private isExportedDeclaration(binding: Binding): boolean {
+    if (!binding.scope.path.isProgram()) return false;
+
+    const declaration = binding.path.isVariableDeclarator()
+      ? binding.path.parentPath
+      : binding.path;
+    return Boolean(declaration?.parentPath?.isExportNamedDeclaration());
+  }
+
+  private isShorthandProperty(ref: NodePath): boolean {
+    const parent = ref.parent;
+    return t.isObjectProperty(parent) && parent.shorthand && parent.value === ref.node;
+  }
+
+  private isShorthand(local: t.Node, other: t.Node): boolean {
+    return local.start === other.start;
+  }
+
+  private isWithinScope(candidate: Scope, ancestor: Scope): boolean {
+    for (let scope: Scope | undefined = candidate; scope; scope = scope.parent) {
+      if (scope === ancestor) return true;
+    }
+    return false;
+  }
+
+  private nameOf(node: t.Identifier | t.StringLiteral): string {
+    return t.isIdentifier(node) ? node.name : node.value;
+  }
+
+  private location(file: ParsedFile, node: t.Node): string {
+    return `${this.displayPath(file.filePath)}:${node.loc?.start.line ?? '?'}`;
+  }
+
+  private displayPath(filePath: string): string {
+    return path.relative(process.cwd(), filePath) || filePath;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Resolution of relative import specifiers to project files
+ */
+
+import * as path from 'path';
+
+export const MODULE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Resolve a relative import specifier to a project file
+ *
+ * @param fromFile - Absolute path of the importing file
+ * @param source - Import specifier, e.g. './user' or '../lib/index.js'
+ * @param isProjectFile - Whether an absolute path is one of the project's files
+ * @returns The resolved file, or null for bare (package) specifiers and unknown files
+ */
+export function resolveImport(
+  fromFile: string,
+  source: string,
+  isProjectFile: (filePath: string) => boolean
+): string | null {
+  if (!source.startsWith('.')) {
+    return null;
+  }
+
+  const base = path.resolve(path.dirname(fromFile), source);
+  const candidates = [
+    base,
+    ...MODULE_EXTENSIONS.map((ext) => base + ext),
+    ...MODULE_EXTENSIONS.map((ext) => path.join(base, `index${ext}`)),
+  ];
+
+  // TypeScript sources are commonly imported with a .js extension
+  if (/\.[cm]?js$/.test(base)) {
+    const stem = base.replace(/\.[cm]?js$/, '');
+    candidates.push(`${stem}.ts`, `${stem}.tsx`);
+  }
+
+  return candidates.find(isProjectFile) ?? null;
+}
@@ -6,8 +6,12 @@
  */
 
 import { Coordinates } from '../core/coordinates';
+import { classifyAntiPattern } from '../core/anti-patterns';
+import { escapeHtml } from '../utils/html';
 import chalk from 'chalk';
 
+const DIMENSIONS = ['love', 'justice', 'power', 'wisdom'] as const;
+
 export interface TrajectoryPoint {
   label: string;
   coordinates: Coordinates;
@@ -76,6 +80,11 @@ export class TrajectoryMapGenerator {
     lines.push(`  ${colorize ? chalk.yellow('Primary Drift Dimension:') : 'Primary Drift Dimension:'} ${drift.primaryDrift.toUpperCase()}`);
     lines.push(`  ${colorize ? chalk.yellow('Drift Magnitude:') : 'Drift Magnitude:'} ${drift.driftMagnitude.toFixed(3)} (${this.getDriftSeverity(drift.driftMagnitude)})`);
     lines.push(`  ${colorize ? chalk.yellow('Total Distance:') : 'Total Distance:'} ${drift.distance.toFixed(3)} in 4D space`);
+    if (drift.antiPattern) {
+      lines.push(
+        `  ${colorize ? chalk.yellow('Anti-pattern:') : 'Anti-pattern:'} ${drift.antiPattern.name} (${drift.antiPattern.id})`
+      );
+    }
     lines.push('');
 
     // Dimension Deltas
@@ -150,6 +159,7 @@ export class TrajectoryMapGenerator {
       primaryDrift,
       driftMagnitude: maxDrift,
       distance: intent.distanceTo(execution),
+      antiPattern: classifyAntiPattern(deltas),
     };
   }
 
@@ -402,16 +412,75 @@ export class TrajectoryMapGenerator {
 
   /**
    * Generate HTML trajectory visualization
+   *
+   * Renders one self-contained panel per function: intent vs execution bars for
+   * each dimension, the drift between them and a plain-text interpretation.
+   * Uses inline styles only, so panels can be embedded in any HTML document.
    */
   static generateHTMLVisualization(
-    _functions: Array<{
+    functions: Array<{
       name: string;
       intent: Coordinates;
       execution: Coordinates;
     }>
   ): string {
-    // TODO: Implement interactive HTML/Canvas visualization
-    // This would render 3D trajectory plots using Three.js or similar
-    return '<!-- HTML visualization not yet implemented -->';
+    return functions
+      .map(({ name, intent, execution }) => {
+        const drift = this.calculateDrift(intent, execution);
+        const rows = DIMENSIONS.map((dim) =>
+          this.renderHTMLDimensionRow(dim, intent[dim], execution[dim], drift.deltas[dim])
+        ).join('');
+        const interpretation = this.generateInterpretation(drift, intent, execution, false)
+          .split('\n')
+          .map((line) => line.trim())
+          .filter((line) => line.length > 0)
+          .map((line) => `<div>${escapeHtml(line)}</div>`)
+          .join('');
+
+        return (
+          `<div class="trajectory-panel" style="padding:12px;border:1px solid rgba(128,128,128,0.3);border-radius:6px;font-size:0.85em;">` +
+          `<div style="font-weight:600;margin-bottom:8px;">Semantic trajectory: ${escapeHtml(name)}()</div>` +
+          `<div style="display:flex;gap:12px;margin-bottom:6px;color:#8b95a5;">` +
+          `<span><span style="display:inline-block;width:10px;height:10px;background:#a0aec0;"></span> Intent (name)</span>` +
+          `<span><span style="display:inline-block;width:10px;height:10px;background:#667eea;"></span> Execution (body)</span>` +
+          `</div>` +
+          rows +
+          `<div style="margin-top:8px;">Primary drift: <strong>${drift.primaryDrift.toUpperCase()}</strong>` +
+          ` · magnitude ${drift.driftMagnitude.toFixed(3)} (${this.getDriftSeverity(drift.driftMagnitude)})` +
+          ` · distance ${drift.distance.toFixed(3)}</div>` +
+          (drift.antiPattern
+            ? `<div style="margin-top:4px;">Anti-pattern: <strong>${escapeHtml(drift.antiPattern.name)}</strong>` +
+              ` <code>${drift.antiPattern.id}</code></div>`
+            : '') +
+          `<div style="margin-top:6px;">${interpretation}</div>` +
+          `</div>`
+        );
+      })
+      .join('');
+  }
+
+  /**
+   * Render one dimension of an HTML trajectory panel
+   */
+  private static renderHTMLDimensionRow(
+    dimension: string,
+    intent: number,
+    execution: number,
+    delta: number
+  ): string {
+    const bar = (value: number, color: string) =>
+      `<div style="height:6px;width:${(value * 100).toFixed(1)}%;background:${color};border-radius:3px;margin:1px 0;"></div>`;
+    const deltaColor = Math.abs(delta) < 0.1 ? '#8b95a5' : delta > 0 ? '#e74c3c' : '#3498db';
+
+    return (
+      `<div style="display:grid;grid-template-columns:70px 1fr 60px;gap:8px;align-items:center;margin:3px 0;">` +
+      `<span>${dimension.toUpperCase()}</span>` +
+      `<div title="intent ${intent.toFixed(3)}, execution ${execution.toFixed(3)}">` +
+      bar(intent, '#a0aec0') +
+      bar(execution, '#667eea') +
+      `</div>` +
+      `<span style="color:${deltaColor};text-align:right;">${delta >= 0 ? '+' : ''}${delta.toFixed(2)}</span>` +
+      `</div>`
+    );
   }
 }
@@ -6,6 +6,8 @@
 import chokidar, { FSWatcher } from 'chokidar';
 import * as path from 'path';
 import { ProjectAnalyzer } from '../project/project-analyzer';
+import { IgnoreFilter } from '../project/ignore-filter';
+import { HarmonizerConfig } from '../config/config-loader';
 import chalk from 'chalk';
 
 export interface WatchOptions {
@@ -20,7 +22,7 @@ export interface WatchOptions {
   include?: string[];
 
   /**
-   * Patterns to ignore
+   * Patterns to ignore, on top of .gitignore files and .harmonizerignore
    */
   ignore?: string[];
 
@@ -34,6 +36,11 @@ export interface WatchOptions {
    */
   verbose?: boolean;
 
+  /**
+   * .harmonizerrc settings used for analysis
+   */
+  config?: HarmonizerConfig;
+
   /**
    * Callback when analysis completes
    */
@@ -51,12 +58,13 @@ export interface WatchOptions {
 export class FileWatcher {
   private watcher: FSWatcher | null = null;
   private analyzer: ProjectAnalyzer;
-  private options: Required<WatchOptions>;
+  private ignoreFilter: IgnoreFilter;
+  private options: Required<Omit<WatchOptions, 'config'>>;
   private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
   private analyzing: Set<string> = new Set();
 
   constructor(options: WatchOptions) {
-    this.analyzer = new ProjectAnalyzer();
+    this.analyzer = new ProjectAnalyzer(options.config);
     this.options = {
       rootPath: options.rootPath,
       include: options.include || ['**/*.js', '**/*.ts', '**/*.jsx', '**/*.tsx'],
@@ -72,6 +80,7 @@ export class FileWatcher {
       onAnalysis: options.onAnalysis || (() => {}),
       onError: options.onError || (() => {}),
     };
+    this.ignoreFilter = new IgnoreFilter(this.options.rootPath, this.options.ignore);
   }
 
   /**
@@ -89,7 +98,11 @@ export class FileWatcher {
 
     this.watcher = chokidar.watch(this.options.include, {
       cwd: this.options.rootPath,
-      ignored: this.options.ignore,
+      ignored: (filePath: string, stats?: { isDirectory(): boolean }) =>
+        this.ignoreFilter.ignores(
+          path.resolve(this.options.rootPath, filePath),
+          stats?.isDirectory() ?? false
+        ),
       persistent: true,
       ignoreInitial: true,
       awaitWriteFinish: {
@@ -207,6 +220,7 @@ export class FileWatcher {
       const result = await this.analyzer.analyzeProject({
         rootPath: this.options.rootPath,
         include: [relativePath],
+        exclude: this.options.ignore,
         showProgress: false,
       });
 
@@ -257,7 +271,7 @@ export class FileWatcher {
       if (this.options.verbose) {
         // Show top 3 worst functions
         const worst = fileResult.functions
-          .filter((f: any) => f.disharmony > 0.5)
+          .filter((f: any) => f.level)
           .sort((a: any, b: any) => b.disharmony - a.disharmony)
           .slice(0, 3);
 